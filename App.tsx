@@ -1,32 +1,60 @@
 
 import React, { useState, useEffect } from 'react';
-import { supabase } from './lib/supabaseClient';
-import { Ticket, TicketStatus, CounterState, ServiceDefinition, User, UserRole, SystemSettings } from './types';
-import { INITIAL_SERVICES, INITIAL_USERS, TOTAL_COUNTERS } from './constants';
+import { supabase, setSessionToken } from './lib/supabaseClient';
+import { Branch, Ticket, TicketStatus, TicketTransfer, TicketEvent, TicketEventType, Appointment, AppointmentStatus, BookedSlot, CounterState, Customer, CustomerHistory, CustomerStats, Device, JobRun, NotificationChannel, NotificationRecord, NotificationStatus, Permission, ScheduledJob, ServiceDefinition, TicketTracking, User, UserRole, SystemSettings } from './types';
+import { INITIAL_BRANCHES, INITIAL_SERVICES, INITIAL_USERS, DEFAULT_COUNTER_COUNT, DEFAULT_BRANCH_ID, DEFAULT_NOTIFICATION_CHANNELS, DEFAULT_NOTIFICATION_TEMPLATES, DEFAULT_CHANNEL_FALLBACK_ORDER, DEFAULT_TICKET_PRINTING, TRACKING_REFRESH_SECONDS } from './constants';
 import { KioskView } from './components/KioskView';
 import { DisplayView } from './components/DisplayView';
 import { CounterView } from './components/CounterView';
 import { LoginView } from './components/LoginView';
+import { ChangePasswordView } from './components/ChangePasswordView';
 import { AdminView } from './components/AdminView';
+import { BookingView } from './components/BookingView';
+import { TicketTrackingView } from './components/TicketTrackingView';
+import { getNextTicketForCounter } from './lib/queueSelection';
+import { getActiveCounters } from './lib/counters';
+import { countBookedSlots, generateBookingCode, normalizeBookingCode } from './lib/appointments';
+import { PasswordResetCode, generateResetCode, normalizeResetCode } from './lib/passwordReset';
+import { DevicePairingCode, generatePairingCode, normalizePairingCode } from './lib/devices';
+import { hasPermission, isQueueStaff } from './lib/permissions';
+import { withDefaultTemplates } from './lib/notifications';
+import { generateTrackingToken, getTicketTracking } from './lib/tracking';
+import { getCustomerHistory, getCustomerStats, normalizePhone } from './lib/customers';
 import { LogOut, Monitor, Sun, Moon, Loader2 } from 'lucide-react';
 
 const SESSION_KEY = 'nova_session';
 const THEME_KEY = 'nova_theme';
+const BRANCH_KEY = 'nova_branch';
 const SESSION_DURATION = 2 * 60 * 60 * 1000; // 2 hours in ms
+// password_hash is not readable from the browser, so never select('*') on app_users
+const USER_COLUMNS = 'id, username, name, role, permissions, branch_id, must_change_password, reset_requested_at';
 
 const DEFAULT_SETTINGS: SystemSettings = {
-  whatsappEnabled: true,
-  whatsappTemplate: "Hello {name}, your turn for {service} is coming up! Your ticket number is {number}. Please proceed to Counter {counter}.",
+  notificationChannels: DEFAULT_NOTIFICATION_CHANNELS,
+  notificationTemplates: DEFAULT_NOTIFICATION_TEMPLATES,
+  channelFallbackOrder: DEFAULT_CHANNEL_FALLBACK_ORDER,
+  notifyAtPosition: 2,
+  notifyWithinMinutes: 15,
   allowMobileEntry: true,
   whatsappApiKey: "",
-  autoNotify15m: false,
+  whatsappApiKeySet: false,
   mobileEntryUrl: "",
   operatingHours: {
     enabled: true,
     start: "09:00",
-    end: "17:00"
+    end: "17:00",
+    autoClose: false
   },
-  countryCode: "+1"
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  endOfDayCloseOut: false,
+  countryCode: "+1",
+  queueMode: 'fifo',
+  agingThresholdMinutes: 30,
+  recallsBeforeNoShow: 3,
+  noShowTimeoutMinutes: 0,
+  archiveAfterDays: 90,
+  allowAppointments: true,
+  ticketPrinting: DEFAULT_TICKET_PRINTING
 };
 
 const App: React.FC = () => {
@@ -36,13 +64,31 @@ const App: React.FC = () => {
   const [services, setServices] = useState<ServiceDefinition[]>([]);
   const [tickets, setTickets] = useState<Ticket[]>([]);
   const [counters, setCounters] = useState<CounterState[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]); // Bookings made here (and all of them in demo mode)
+  const [bookedSlots, setBookedSlots] = useState<BookedSlot[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  // Devices follow their account's branch; public pages can be pointed at one with ?branch=<id>
+  const [activeBranchId, setActiveBranchId] = useState<string>(() =>
+    new URLSearchParams(window.location.search).get('branch') || localStorage.getItem(BRANCH_KEY) || DEFAULT_BRANCH_ID
+  );
   const [systemSettings, setSystemSettings] = useState<SystemSettings>(DEFAULT_SETTINGS);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [demoTicketEvents, setDemoTicketEvents] = useState<TicketEvent[]>([]); // Audit trail in demo mode only
+  const [demoCustomers, setDemoCustomers] = useState<Customer[]>([]); // Remembered customers in demo mode only
+  const [demoResetCodes, setDemoResetCodes] = useState<Record<string, PasswordResetCode>>({}); // Outstanding reset codes in demo mode only
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [demoPairings, setDemoPairings] = useState<Record<string, DevicePairingCode & { branchId: string; name: string; role: UserRole }>>({}); // Outstanding pairing codes in demo mode only
+  const [pendingPairingCode, setPendingPairingCode] = useState<string | null>(null); // From a ?pair= link
   
   const [isLoading, setIsLoading] = useState(true);
 
   // Mobile Entry Mode State
   const [isMobileEntryMode, setIsMobileEntryMode] = useState(false);
+  const [isBookingMode, setIsBookingMode] = useState(false);
+
+  // Live tracking page state (from a ?ticket=<id>&token=<token> link)
+  const [trackedTicket, setTrackedTicket] = useState<{ id: string; token: string } | null>(null);
+  const [ticketTracking, setTicketTracking] = useState<TicketTracking | null | undefined>(undefined); // undefined while loading, null when the link is not valid
   
   // Staff Specific State
   const [staffCounterId, setStaffCounterId] = useState<number | null>(null);
@@ -60,9 +106,12 @@ const App: React.FC = () => {
   // --- Helpers for Data Mapping (DB <-> App) ---
   const mapDbTicketToApp = (t: any): Ticket => ({
     id: t.id,
+    branchId: t.branch_id,
     number: t.number,
-    name: t.name, // FIXED: Was t.customer_name, corrected to match schema
-    phone: t.phone,
+    name: t.name ?? '', // Not in queue_board rows
+    phone: t.phone ?? undefined,
+    email: t.email ?? undefined,
+    notifyChannel: t.notify_channel ?? undefined,
     serviceId: t.service_id,
     serviceName: t.service_name,
     status: t.status as TicketStatus,
@@ -70,98 +119,213 @@ const App: React.FC = () => {
     servedAt: t.served_at ? new Date(t.served_at).getTime() : undefined,
     completedAt: t.completed_at ? new Date(t.completed_at).getTime() : undefined,
     counter: t.counter_id,
-    notificationSent: t.notification_sent 
+    notificationSent: t.notification_sent,
+    notificationStatus: t.notification_status ?? undefined,
+    notificationError: t.notification_error ?? undefined,
+    notifiedAt: t.notified_at ? new Date(t.notified_at).getTime() : undefined,
+    targetCounter: t.target_counter_id ?? undefined,
+    frontOfQueue: t.front_of_queue,
+    transfers: t.transfers || [],
+    recallCount: t.recall_count || 0,
+    lastRecalledAt: t.last_recalled_at ? new Date(t.last_recalled_at).getTime() : undefined,
+    appointmentId: t.appointment_id ?? undefined,
+    appointmentAt: t.appointment_at ? new Date(t.appointment_at).getTime() : undefined,
+    customerId: t.customer_id ?? undefined,
+    trackingToken: t.tracking_token ?? undefined // Only present in what issue_ticket and check_in_appointment return
   });
 
   const mapDbCounterToApp = (c: any): CounterState => ({
     id: c.id,
+    branchId: c.branch_id,
+    label: c.label || `Counter ${c.id}`,
+    sortOrder: c.sort_order ?? 0,
+    isRetired: !!c.retired,
     isOpen: c.is_open,
     assignedStaffId: c.assigned_staff_id,
-    currentTicketId: c.current_ticket_id
+    currentTicketId: c.current_ticket_id,
+    serviceIds: c.service_ids || [],
+    fallbackServiceIds: c.fallback_service_ids || []
+  });
+
+  const mapDbTicketEventToApp = (e: any): TicketEvent => ({
+    id: e.id,
+    ticketId: e.ticket_id,
+    type: e.event_type as TicketEventType,
+    counterId: e.counter_id ?? undefined,
+    staffUserId: e.staff_user_id ?? undefined,
+    createdAt: new Date(e.created_at).getTime(),
+    payload: e.payload
+  });
+
+  const mapDbNotificationToApp = (n: any): NotificationRecord => ({
+    id: n.id,
+    branchId: n.branch_id,
+    ticketId: n.ticket_id ?? undefined,
+    ticketNumber: n.ticket?.number,
+    channel: n.channel as NotificationChannel,
+    template: n.template,
+    recipient: n.recipient,
+    message: n.message,
+    status: n.status as NotificationStatus,
+    attempts: n.attempts,
+    lastError: n.last_error ?? undefined,
+    nextAttemptAt: n.next_attempt_at ? new Date(n.next_attempt_at).getTime() : undefined,
+    sentAt: n.sent_at ? new Date(n.sent_at).getTime() : undefined,
+    createdAt: new Date(n.created_at).getTime()
+  });
+
+  const mapDbJobToApp = (j: any): JobRun => ({
+    name: j.name as ScheduledJob,
+    status: j.status ?? undefined,
+    runCount: j.run_count,
+    lastResult: j.last_result ?? undefined,
+    lastError: j.last_error ?? undefined,
+    lastStartedAt: j.last_started_at ? new Date(j.last_started_at).getTime() : undefined,
+    lastFinishedAt: j.last_finished_at ? new Date(j.last_finished_at).getTime() : undefined,
+    nextRunAt: new Date(j.next_run_at).getTime()
   });
 
   const mapDbServiceToApp = (s: any): ServiceDefinition => ({
     id: s.id,
+    branchId: s.branch_id,
     name: s.name,
     prefix: s.prefix,
     colorTheme: s.color_theme,
-    defaultWaitTime: s.default_wait_time
+    defaultWaitTime: s.default_wait_time,
+    priority: s.priority ?? 1,
+    appointmentSlotMinutes: s.appointment_slot_minutes ?? 0,
+    appointmentCapacity: s.appointment_capacity ?? 1
+  });
+
+  const mapDbAppointmentToApp = (a: any): Appointment => ({
+    id: a.id,
+    branchId: a.branch_id,
+    code: a.code,
+    serviceId: a.service_id,
+    name: a.name,
+    phone: a.phone ?? undefined,
+    scheduledAt: new Date(a.scheduled_at).getTime(),
+    status: a.status as AppointmentStatus,
+    ticketId: a.ticket_id ?? undefined,
+    createdAt: new Date(a.created_at).getTime()
+  });
+
+  const mapDbCustomerToApp = (c: any): Customer => ({
+    id: c.id,
+    name: c.name,
+    phone: c.phone,
+    email: c.email ?? undefined,
+    notifyChannel: c.notify_channel ?? undefined,
+    consentedAt: new Date(c.consented_at).getTime(),
+    createdByTicketId: c.created_by_ticket_id ?? undefined,
+    createdAt: new Date(c.created_at).getTime()
   });
 
   const mapDbUserToApp = (u: any): User => ({
     id: u.id,
     username: u.username,
-    password: u.password,
     role: u.role as UserRole,
-    name: u.name
+    permissions: u.permissions ?? undefined,
+    name: u.name,
+    branchId: u.branch_id ?? undefined,
+    mustChangePassword: !!u.must_change_password,
+    resetRequestedAt: u.reset_requested_at ? new Date(u.reset_requested_at).getTime() : undefined
+  });
+
+  const mapDbDeviceToApp = (d: any): Device => ({
+    id: d.id,
+    branchId: d.branch_id,
+    name: d.name,
+    role: d.role as UserRole,
+    userId: d.user_id,
+    pairedAt: new Date(d.paired_at).getTime(),
+    lastSeenAt: d.last_seen_at ? new Date(d.last_seen_at).getTime() : undefined,
+    revokedAt: d.revoked_at ? new Date(d.revoked_at).getTime() : undefined
   });
 
-  // --- INITIAL DATA FETCH & REALTIME ---
+  const mapDbBranchToApp = (b: any): Branch => ({
+    id: b.id,
+    name: b.name,
+    address: b.address ?? undefined
+  });
+
+  // --- DATA FETCH & REALTIME (re-run whenever the active branch changes) ---
   useEffect(() => {
     let mounted = true;
     const fetchData = async () => {
-      setIsLoading(true);
       try {
-        // 1. Fetch Users
-        const { data: usersData, error: usersError } = await supabase.from('app_users').select('*');
-        if (usersError) throw usersError;
-        
-        if (usersData && usersData.length > 0) {
-            setUsers(usersData.map(mapDbUserToApp));
+        // 1. Fetch Branches (public under RLS, unlike accounts, so it decides demo mode)
+        const { data: branchesData, error: branchesError } = await supabase.from('branches').select('*').order('created_at');
+        if (branchesError) throw branchesError;
+
+        if (branchesData && branchesData.length > 0) {
+            setBranches(branchesData.map(mapDbBranchToApp));
         } else {
-            console.warn("Using mock users due to DB error or empty table");
+            console.warn("Using mock data due to DB error or empty table");
+            setBranches(INITIAL_BRANCHES);
             setUsers(INITIAL_USERS);
             setIsDemoMode(true);
         }
 
+        // Everything below is scoped to the active branch
         // 2. Fetch Services
-        const { data: servicesData } = await supabase.from('services').select('*');
+        const { data: servicesData } = await supabase.from('services').select('*').eq('branch_id', activeBranchId);
         if (servicesData && servicesData.length > 0) {
             setServices(servicesData.map(mapDbServiceToApp));
         } else {
-            setServices(INITIAL_SERVICES);
+            setServices(INITIAL_SERVICES.filter(s => s.branchId === activeBranchId));
         }
 
         // 3. Fetch Counters
-        const { data: countersData } = await supabase.from('counters').select('*').order('id');
+        const { data: countersData } = await supabase.from('counters').select('*').eq('branch_id', activeBranchId).order('sort_order').order('id');
         if (countersData && countersData.length > 0) {
             setCounters(countersData.map(mapDbCounterToApp));
         } else {
             // Generate mock counters
             const mocks: CounterState[] = [];
-            for(let i=1; i<=TOTAL_COUNTERS; i++) {
-                mocks.push({ id: i, isOpen: true, currentTicketId: null });
+            for(let i=1; i<=DEFAULT_COUNTER_COUNT; i++) {
+                mocks.push({ id: i, branchId: activeBranchId, label: `Counter ${i}`, sortOrder: i, isRetired: false, isOpen: true, currentTicketId: null, serviceIds: [], fallbackServiceIds: [] });
             }
             setCounters(mocks);
         }
 
-        // 4. Fetch Tickets
-        const { data: ticketsData } = await supabase.from('tickets').select('*').order('joined_at');
-        if (ticketsData) setTickets(ticketsData.map(mapDbTicketToApp));
-
-        // 5. Fetch Settings
-        const { data: settingsData } = await supabase.from('system_settings').select('*').single();
-        if (settingsData) {
+        // 4. Fetch Settings (tickets are fetched below, from what the signed-in role may read)
+        const { data: settingsData } = await supabase.from('system_settings').select('*').eq('branch_id', activeBranchId).maybeSingle();
+        if (!settingsData) {
+            setSystemSettings(DEFAULT_SETTINGS);
+        } else {
             setSystemSettings({
-                whatsappEnabled: settingsData.whatsapp_enabled,
-                whatsappTemplate: settingsData.whatsapp_template,
-                whatsappApiKey: settingsData.whatsapp_api_key,
-                autoNotify15m: settingsData.auto_notify_15m,
+                notificationChannels: { ...DEFAULT_NOTIFICATION_CHANNELS, ...settingsData.notification_channels },
+                notificationTemplates: withDefaultTemplates(settingsData.notification_templates),
+                channelFallbackOrder: settingsData.channel_fallback_order || DEFAULT_CHANNEL_FALLBACK_ORDER,
+                notifyAtPosition: settingsData.notify_at_position ?? 2,
+                notifyWithinMinutes: settingsData.notify_within_minutes ?? 15,
+                whatsappApiKeySet: !!settingsData.whatsapp_api_key_set,
                 allowMobileEntry: settingsData.allow_mobile_entry,
                 mobileEntryUrl: settingsData.mobile_entry_url,
                 operatingHours: settingsData.operating_hours,
-                countryCode: settingsData.country_code || "+1"
+                timeZone: settingsData.time_zone ?? undefined,
+                endOfDayCloseOut: !!settingsData.end_of_day_close_out,
+                countryCode: settingsData.country_code || "+1",
+                queueMode: settingsData.queue_mode || 'fifo',
+                agingThresholdMinutes: settingsData.aging_threshold_minutes ?? 30,
+                recallsBeforeNoShow: settingsData.recalls_before_no_show ?? 3,
+                noShowTimeoutMinutes: settingsData.no_show_timeout_minutes ?? 0,
+                archiveAfterDays: settingsData.archive_after_days ?? 90,
+                allowAppointments: settingsData.allow_appointments ?? true,
+                ticketPrinting: { ...DEFAULT_TICKET_PRINTING, ...settingsData.ticket_printing }
             });
         }
       } catch (e) {
         console.error("Error fetching data:", e);
         // Ensure app works even if everything fails
         setUsers(INITIAL_USERS);
-        setServices(INITIAL_SERVICES);
+        setBranches(INITIAL_BRANCHES);
+        setServices(INITIAL_SERVICES.filter(s => s.branchId === activeBranchId));
         // Mock counters
         const mocks: CounterState[] = [];
-        for(let i=1; i<=TOTAL_COUNTERS; i++) {
-            mocks.push({ id: i, isOpen: true, currentTicketId: null });
+        for(let i=1; i<=DEFAULT_COUNTER_COUNT; i++) {
+            mocks.push({ id: i, branchId: activeBranchId, label: `Counter ${i}`, sortOrder: i, isRetired: false, isOpen: true, currentTicketId: null, serviceIds: [], fallbackServiceIds: [] });
         }
         setCounters(mocks);
         setIsDemoMode(true);
@@ -174,36 +338,23 @@ const App: React.FC = () => {
 
     // --- REALTIME SUBSCRIPTIONS ---
     // Only subscribe if not in demo/fallback mode
-    let ticketSub: any, counterSub: any, serviceSub: any, settingsSub: any;
+    let counterSub: any, serviceSub: any, settingsSub: any, branchSub: any;
+    const branchFilter = `branch_id=eq.${activeBranchId}`;
 
     try {
-        ticketSub = supabase.channel('tickets-channel')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'tickets' }, (payload) => {
+        counterSub = supabase.channel('counters-channel')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'counters', filter: branchFilter }, (payload) => {
             if (payload.eventType === 'INSERT') {
-                const newTicket = mapDbTicketToApp(payload.new);
-                setTickets(prev => {
-                    // Prevent duplicates if already added locally
-                    if (prev.some(t => t.id === newTicket.id)) return prev;
-                    return [...prev, newTicket];
-                });
+            const newCounter = mapDbCounterToApp(payload.new);
+            setCounters(prev => prev.some(c => c.id === newCounter.id) ? prev : [...prev, newCounter]);
             } else if (payload.eventType === 'UPDATE') {
-                setTickets(prev => prev.map(t => t.id === payload.new.id ? mapDbTicketToApp(payload.new) : t));
-            } else if (payload.eventType === 'DELETE') {
-                setTickets(prev => prev.filter(t => t.id !== payload.old.id));
-            }
-        })
-        .subscribe();
-
-        counterSub = supabase.channel('counters-channel')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'counters' }, (payload) => {
-            if (payload.eventType === 'UPDATE') {
             setCounters(prev => prev.map(c => c.id === payload.new.id ? mapDbCounterToApp(payload.new) : c));
             }
         })
         .subscribe();
 
         serviceSub = supabase.channel('services-channel')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'services' }, (payload) => {
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'services', filter: branchFilter }, (payload) => {
             if(payload.eventType === 'INSERT') {
                 setServices(prev => [...prev, mapDbServiceToApp(payload.new)]);
             } else if(payload.eventType === 'UPDATE') {
@@ -215,119 +366,102 @@ const App: React.FC = () => {
         .subscribe();
         
         settingsSub = supabase.channel('settings-channel')
-        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'system_settings' }, (payload) => {
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'system_settings', filter: branchFilter }, (payload) => {
             const s = payload.new;
             setSystemSettings({
-                whatsappEnabled: s.whatsapp_enabled,
-                whatsappTemplate: s.whatsapp_template,
-                whatsappApiKey: s.whatsapp_api_key,
-                autoNotify15m: s.auto_notify_15m,
+                notificationChannels: { ...DEFAULT_NOTIFICATION_CHANNELS, ...s.notification_channels },
+                notificationTemplates: withDefaultTemplates(s.notification_templates),
+                channelFallbackOrder: s.channel_fallback_order || DEFAULT_CHANNEL_FALLBACK_ORDER,
+                notifyAtPosition: s.notify_at_position ?? 2,
+                notifyWithinMinutes: s.notify_within_minutes ?? 15,
+                whatsappApiKeySet: !!s.whatsapp_api_key_set,
                 allowMobileEntry: s.allow_mobile_entry,
                 mobileEntryUrl: s.mobile_entry_url,
                 operatingHours: s.operating_hours,
-                countryCode: s.country_code || "+1"
+                timeZone: s.time_zone ?? undefined,
+                endOfDayCloseOut: !!s.end_of_day_close_out,
+                countryCode: s.country_code || "+1",
+                queueMode: s.queue_mode || 'fifo',
+                agingThresholdMinutes: s.aging_threshold_minutes ?? 30,
+                recallsBeforeNoShow: s.recalls_before_no_show ?? 3,
+                noShowTimeoutMinutes: s.no_show_timeout_minutes ?? 0,
+                archiveAfterDays: s.archive_after_days ?? 90,
+                allowAppointments: s.allow_appointments ?? true,
+                ticketPrinting: { ...DEFAULT_TICKET_PRINTING, ...s.ticket_printing }
             });
         })
         .subscribe();
+
+        branchSub = supabase.channel('branches-channel')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'branches' }, (payload) => {
+            if (payload.eventType === 'INSERT') {
+                const newBranch = mapDbBranchToApp(payload.new);
+                setBranches(prev => prev.some(b => b.id === newBranch.id) ? prev : [...prev, newBranch]);
+            } else if (payload.eventType === 'UPDATE') {
+                setBranches(prev => prev.map(b => b.id === payload.new.id ? mapDbBranchToApp(payload.new) : b));
+            } else if (payload.eventType === 'DELETE') {
+                setBranches(prev => prev.filter(b => b.id !== payload.old.id));
+            }
+        })
+        .subscribe();
     } catch (err) {
         console.warn("Realtime subscription failed, falling back to local mode.");
     }
 
     return () => {
       mounted = false;
-      if (ticketSub) supabase.removeChannel(ticketSub);
       if (counterSub) supabase.removeChannel(counterSub);
       if (serviceSub) supabase.removeChannel(serviceSub);
       if (settingsSub) supabase.removeChannel(settingsSub);
+      if (branchSub) supabase.removeChannel(branchSub);
     };
-  }, []);
+  }, [activeBranchId]);
 
-  // --- AUTOMATED NOTIFICATION LOGIC (Ending Sessions) ---
+  // Ticket rows carry customer details, so only queue staff read them; kiosks, displays and signed-out
+  // pages read queue_board. Realtime cannot check either, so changes arrive as a queue_activity touch
+  // and the branch's tickets are re-read.
+  const ticketSource = isQueueStaff(currentUser) ? 'tickets' : 'queue_board';
   useEffect(() => {
-    // Only run this logic if the current user is an Admin (to act as the 'server' trigger)
-    // This prevents every logged-in staff/display from trying to send the same API request.
-    if (!currentUser || currentUser.role !== UserRole.ADMIN) return;
-    
-    // Check prerequisites
-    if (!systemSettings.whatsappEnabled || !systemSettings.autoNotify15m || !systemSettings.whatsappApiKey) return;
-
-    const checkAndNotify = async () => {
-        const now = Date.now();
-
-        // 1. Identify currently serving tickets that are ending soon (<= 15 mins remaining)
-        const servingTickets = tickets.filter(t => t.status === TicketStatus.SERVING && t.servedAt);
-        
-        // Find tickets finishing within 15 mins (and not ridiculously overdue, e.g. > 2 hours ago served)
-        const endingSoonTickets = servingTickets.filter(t => {
-            const service = services.find(s => s.id === t.serviceId);
-            // Default session duration (e.g., 30 mins)
-            const sessionDuration = (service?.defaultWaitTime || 30) * 60 * 1000;
-            const elapsed = now - (t.servedAt || now);
-            const remaining = sessionDuration - elapsed;
-            
-            // Check if remaining time is 15 mins or less (and greater than -10 mins to catch slightly overdue)
-            // This threshold (15 * 60 * 1000) is what triggers the "Next" person notification
-            return remaining <= (15 * 60 * 1000) && remaining > -(10 * 60 * 1000); 
-        });
-
-        if (endingSoonTickets.length === 0) return;
-
-        // 2. For each "Ending Soon" ticket, notify the NEXT person in line
-        // We do this by mapping the count of ending tickets to the top N waiting tickets.
-        
-        // Get all waiting tickets sorted by join time (FIFO)
-        const waitingTickets = tickets
-            .filter(t => t.status === TicketStatus.WAITING && !t.notificationSent && t.phone)
-            .sort((a, b) => a.joinedAt - b.joinedAt);
-
-        if (waitingTickets.length === 0) return;
-
-        // Determine how many slots are opening up
-        const slotsOpeningCount = endingSoonTickets.length;
-
-        // Take the top N waiting tickets
-        const ticketsToNotify = waitingTickets.slice(0, slotsOpeningCount);
-
-        for (const ticket of ticketsToNotify) {
-            console.log(`[Auto-Notify] Sending "Next Up" WhatsApp to ${ticket.number}. Previous session ending.`);
-            
-            try {
-                const message = `Hello ${ticket.name}, the customer before you is finishing their session. You have approximately 15 minutes or less before your turn. Please be ready at the waiting area!`;
-                
-                // Mark as sent in DB first to prevent race conditions or retries
-                await supabase.from('tickets').update({ notification_sent: true }).eq('id', ticket.id);
-
-                // Send API request (Fire and forget)
-                fetch('/api/send-whatsapp', {
-                    method: 'POST',
-                    headers: {'Content-Type': 'application/json'},
-                    body: JSON.stringify({
-                        phone: ticket.phone,
-                        message: message,
-                        ticketId: ticket.id,
-                        apiKey: systemSettings.whatsappApiKey
-                    })
-                }).catch(err => console.error("Auto-notify API fail (expected if no backend):", err));
-                
-            } catch (e) {
-                console.error("Auto-notify execution error", e);
-            }
+    let latestFetch = 0;
+    const fetchTickets = async () => {
+        const fetchId = ++latestFetch;
+        const { data, error } = await supabase.from(ticketSource).select('*').eq('branch_id', activeBranchId).order('joined_at');
+        if (error) {
+            console.error("Error fetching tickets:", error);
+            return;
         }
+        // A slower earlier read must not overwrite a newer one
+        if (data && fetchId === latestFetch) setTickets(data.map(mapDbTicketToApp));
     };
+    fetchTickets();
 
-    // Run check every minute
-    const interval = setInterval(checkAndNotify, 60000);
-    // Also run once immediately on mount/update to catch up
-    checkAndNotify();
-
-    return () => clearInterval(interval);
-  }, [tickets, currentUser, systemSettings, services]);
-
+    const activitySub = supabase.channel('queue-activity-channel')
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'queue_activity', filter: `branch_id=eq.${activeBranchId}` }, fetchTickets)
+        .subscribe();
+    return () => {
+        supabase.removeChannel(activitySub);
+    };
+  }, [activeBranchId, ticketSource]);
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     if (params.get('mode') === 'mobile_entry') {
       setIsMobileEntryMode(true);
+    } else if (params.get('mode') === 'booking') {
+      setIsBookingMode(true);
+    }
+
+    const trackedId = params.get('ticket');
+    const trackingToken = params.get('token');
+    if (trackedId && trackingToken) setTrackedTicket({ id: trackedId, token: trackingToken });
+
+    // Pairing links carry a one-time code; drop it from the address bar so it is not bookmarked
+    const pairCode = params.get('pair');
+    if (pairCode) {
+      setPendingPairingCode(normalizePairingCode(pairCode));
+      params.delete('pair');
+      const query = params.toString();
+      window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
     }
   }, []);
 
@@ -341,23 +475,31 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
-  // Session Restoration
+  // Session Restoration (waits for the first fetch to settle whether we are in demo mode)
   useEffect(() => {
     const restoreSession = async () => {
         const savedSession = localStorage.getItem(SESSION_KEY);
         if (savedSession) {
         try {
-            const { userId, expiry } = JSON.parse(savedSession);
+            const { userId, expiry, token } = JSON.parse(savedSession);
             if (!expiry || Date.now() < expiry) {
-                let foundUser = users.find(u => u.id === userId);
+                let foundUser = isDemoMode ? users.find(u => u.id === userId) : undefined;
                 
-                if (!foundUser && !isDemoMode) {
-                   const { data } = await supabase.from('app_users').select('*').eq('id', userId).single();
-                   if (data) foundUser = mapDbUserToApp(data);
+                if (!isDemoMode && token) {
+                   setSessionToken(token);
+                   const { data } = await supabase.rpc('current_session_user').maybeSingle();
+                   if (data) {
+                       foundUser = mapDbUserToApp(data);
+                   } else {
+                       // Expired or ended on the server
+                       setSessionToken(null);
+                       localStorage.removeItem(SESSION_KEY);
+                   }
                 }
 
                 if (foundUser) {
                     setCurrentUser(foundUser);
+                    applyUserBranch(foundUser);
                     
                     const savedCounterId = localStorage.getItem(`nova_staff_counter_${foundUser.id}`);
                     if (savedCounterId) {
@@ -372,41 +514,109 @@ const App: React.FC = () => {
         }
         }
     };
-    if (users.length > 0) restoreSession();
-  }, [users, isDemoMode]);
+    if (!isLoading && !currentUser) restoreSession();
+  }, [isLoading, isDemoMode]);
+
+  // Accounts are only readable once signed in (see RLS in db_schema.sql)
+  useEffect(() => {
+    if (!currentUser || isDemoMode) return;
+    supabase.from('app_users').select(USER_COLUMNS).then(({ data, error }) => {
+        if (error) console.error("Error fetching users:", error);
+        else if (data) setUsers(data.map(mapDbUserToApp));
+    });
+  }, [currentUser?.id, isDemoMode]);
+
+  useEffect(() => {
+    if (currentUser?.role !== UserRole.ADMIN || isDemoMode) return;
+    supabase.from('devices').select('*').eq('branch_id', activeBranchId).order('paired_at').then(({ data, error }) => {
+        if (error) console.error("Error fetching devices:", error);
+        else if (data) setDevices(data.map(mapDbDeviceToApp));
+    });
+  }, [currentUser?.id, activeBranchId, isDemoMode]);
+
+  // --- Permissions ---
+  // UI hides what the user may not do; handlers re-check so a stale screen cannot slip an action through
+  const can = (permission: Permission) => hasPermission(currentUser, permission);
 
   // --- Theme Handlers ---
   const handleToggleTheme = () => {
       setIsDarkMode(prev => !prev);
   };
 
+  // --- Branch Handlers ---
+  // Staff, kiosks and displays are bound to their account's branch; admins keep their current selection
+  const applyUserBranch = (user: User) => {
+      if (user.branchId && user.role !== UserRole.ADMIN) setActiveBranchId(user.branchId);
+  };
+
+  const handleSwitchBranch = (branchId: string) => {
+      setActiveBranchId(branchId);
+      localStorage.setItem(BRANCH_KEY, branchId);
+  };
+
+  // Branches, devices and settings have no permission of their own: admins only, as in db_schema.sql
+  const handleAddBranch = async (branch: Omit<Branch, 'id'>) => {
+      if (currentUser?.role !== UserRole.ADMIN) return;
+      const tempId = `branch_${Date.now()}`;
+      if (isDemoMode) {
+          setBranches(prev => [...prev, { ...branch, id: tempId }]);
+          return;
+      }
+
+      // Settings and default counters are created by the branches_setup trigger
+      const { data, error } = await supabase.from('branches').insert({
+          name: branch.name,
+          address: branch.address || null
+      }).select().single();
+      if (error || !data) {
+          console.error("Error adding branch:", error);
+          return;
+      }
+      const newBranch = mapDbBranchToApp(data);
+      setBranches(prev => prev.some(b => b.id === newBranch.id) ? prev : [...prev, newBranch]);
+  };
+
+  const handleUpdateBranch = async (id: string, updates: Partial<Branch>) => {
+      if (currentUser?.role !== UserRole.ADMIN) return;
+      setBranches(prev => prev.map(b => b.id === id ? { ...b, ...updates } : b));
+      if (isDemoMode) return;
+
+      const dbUpdates: any = {};
+      if (updates.name) dbUpdates.name = updates.name;
+      if (updates.address !== undefined) dbUpdates.address = updates.address || null;
+
+      const { error } = await supabase.from('branches').update(dbUpdates).eq('id', id);
+      if (error) console.error("Error updating branch:", error);
+  };
+
   // --- Auth Handlers ---
   const handleLogin = async (username: string, pass: string, rememberMe: boolean): Promise<boolean> => {
-    // 1. Try Local Mock Users First (if in offline mode)
-    const localUser = users.find(u => u.username === username && u.password === pass);
-    
-    if (localUser) {
+    // 1. Offline mode checks the local mock users
+    if (isDemoMode) {
+        const localUser = users.find(u => u.username === username && u.password === pass);
+        if (!localUser) return false;
+
         setCurrentUser(localUser);
+        applyUserBranch(localUser);
         const expiry = rememberMe ? null : Date.now() + SESSION_DURATION;
         localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: localUser.id, expiry }));
         return true;
     }
 
-    if (isDemoMode) return false;
-
-    // 2. Fallback to DB query
+    // 2. The password is checked against its hash in the database and never sent back.
+    // Success opens a server session whose token identifies us to the RLS policies.
     const { data, error } = await supabase
-        .from('app_users')
-        .select('*')
-        .eq('username', username)
-        .eq('password', pass)
-        .single();
+        .rpc('verify_login', { p_username: username, p_password: pass, p_remember: rememberMe })
+        .maybeSingle();
     
     if (data && !error) {
       const user = mapDbUserToApp(data);
+      const token = (data as any).session_token;
+      setSessionToken(token);
       setCurrentUser(user);
+      applyUserBranch(user);
       const expiry = rememberMe ? null : Date.now() + SESSION_DURATION;
-      localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: user.id, expiry }));
+      localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: user.id, expiry, token }));
       
       const savedCounterId = localStorage.getItem(`nova_staff_counter_${user.id}`);
       if (savedCounterId) {
@@ -417,96 +627,324 @@ const App: React.FC = () => {
     return false;
   };
 
-  const handleLogout = () => {
-    if (currentUser?.role === UserRole.STAFF && staffCounterId !== null && !isDemoMode) {
-        // Release counter in DB
-        supabase.from('counters').update({ assigned_staff_id: null }).eq('id', staffCounterId).then();
-        setStaffCounterId(null);
-    }
+  const handleLogout = async () => {
+    const releaseCounterId = currentUser?.role === UserRole.STAFF && !isDemoMode ? staffCounterId : null;
+    if (releaseCounterId !== null) setStaffCounterId(null);
     setCurrentUser(null);
     localStorage.removeItem(SESSION_KEY);
+    if (isDemoMode) return;
+
+    // Release the counter while the session token is still valid, then end the session
+    if (releaseCounterId !== null) {
+        await supabase.from('counters').update({ assigned_staff_id: null }).eq('id', releaseCounterId);
+    }
+    const { error } = await supabase.rpc('end_session');
+    if (error) console.error("Error ending session:", error);
+    setSessionToken(null);
+  };
+
+  const handleChangePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+    if (!currentUser) return false;
+
+    if (isDemoMode) {
+        const localUser = users.find(u => u.id === currentUser.id);
+        if (!localUser || localUser.password !== currentPassword) return false;
+    } else {
+        const { data, error } = await supabase.rpc('change_password', {
+            p_user_id: currentUser.id,
+            p_current_password: currentPassword,
+            p_new_password: newPassword
+        });
+        if (error) {
+            console.error("Error changing password:", error);
+            return false;
+        }
+        if (!data) return false;
+    }
+
+    const updated = { ...currentUser, mustChangePassword: false, ...(isDemoMode ? { password: newPassword } : {}) };
+    setCurrentUser(updated);
+    setUsers(prev => prev.map(u => u.id === updated.id ? { ...u, ...updated } : u));
+    return true;
+  };
+
+  // --- Password Reset Handlers ---
+  // Flags the account for an admin; deliberately silent about whether the username exists
+  const handleRequestPasswordReset = async (username: string) => {
+    if (isDemoMode) {
+        setUsers(prev => prev.map(u => u.username === username ? { ...u, resetRequestedAt: Date.now() } : u));
+        return;
+    }
+
+    const { error } = await supabase.rpc('request_password_reset', { p_username: username });
+    if (error) console.error("Error requesting password reset:", error);
+  };
+
+  // Admin force-reset: the old password stops working and the returned code is shown once
+  const handleIssuePasswordReset = async (userId: string): Promise<PasswordResetCode | null> => {
+    if (!can(Permission.MANAGE_USERS)) return null;
+    if (isDemoMode) {
+        const reset = generateResetCode();
+        setDemoResetCodes(prev => ({ ...prev, [userId]: reset }));
+        setUsers(prev => prev.map(u => u.id === userId ? { ...u, password: undefined, mustChangePassword: false, resetRequestedAt: undefined } : u));
+        return reset;
+    }
+
+    const { data, error } = await supabase.rpc('issue_password_reset', { p_user_id: userId }).single();
+    if (error || !data) {
+        console.error("Error issuing password reset:", error);
+        return null;
+    }
+    setUsers(prev => prev.map(u => u.id === userId ? { ...u, mustChangePassword: false, resetRequestedAt: undefined } : u));
+    const reset = data as any;
+    return { code: reset.code, expiresAt: new Date(reset.expires_at).getTime() };
+  };
+
+  const handleRedeemPasswordReset = async (username: string, code: string, newPassword: string): Promise<boolean> => {
+    const resetCode = normalizeResetCode(code);
+
+    if (isDemoMode) {
+        const user = users.find(u => u.username === username);
+        const reset = user ? demoResetCodes[user.id] : undefined;
+        if (!user || !reset || reset.code !== resetCode || reset.expiresAt <= Date.now()) return false;
+
+        setUsers(prev => prev.map(u => u.id === user.id ? { ...u, password: newPassword, mustChangePassword: false } : u));
+        setDemoResetCodes(prev => {
+            const { [user.id]: _used, ...rest } = prev;
+            return rest;
+        });
+        return true;
+    }
+
+    const { data, error } = await supabase.rpc('redeem_password_reset', {
+        p_username: username,
+        p_code: resetCode,
+        p_new_password: newPassword
+    });
+    if (error) {
+        console.error("Error redeeming password reset:", error);
+        return false;
+    }
+    return !!data;
+  };
+
+  // --- Device Handlers ---
+  // Admin step: the returned code (or its link) is entered on the kiosk/display screen once
+  const handleCreateDevicePairing = async (name: string, role: UserRole): Promise<DevicePairingCode | null> => {
+    if (currentUser?.role !== UserRole.ADMIN) return null;
+    if (isDemoMode) {
+        const pairing = generatePairingCode();
+        setDemoPairings(prev => ({ ...prev, [pairing.code]: { ...pairing, branchId: activeBranchId, name, role } }));
+        return pairing;
+    }
+
+    const { data, error } = await supabase
+        .rpc('create_device_pairing', { p_branch_id: activeBranchId, p_name: name, p_role: role })
+        .single();
+    if (error || !data) {
+        console.error("Error creating device pairing:", error);
+        return null;
+    }
+    const pairing = data as any;
+    return { code: pairing.code, expiresAt: new Date(pairing.expires_at).getTime() };
+  };
+
+  // Screen step: redeems the code for a device account whose session never expires until revoked
+  const handlePairDevice = async (code: string): Promise<boolean> => {
+    const pairingCode = normalizePairingCode(code);
+    setPendingPairingCode(null);
+
+    if (isDemoMode) {
+        const pairing = demoPairings[pairingCode];
+        if (!pairing || pairing.expiresAt <= Date.now()) return false;
+
+        const deviceUser: User = {
+            id: `device_user_${Date.now()}`,
+            username: `device-${pairingCode.toLowerCase()}`,
+            name: pairing.name,
+            role: pairing.role,
+            branchId: pairing.branchId
+        };
+        setUsers(prev => [...prev, deviceUser]);
+        setDevices(prev => [...prev, {
+            id: `device_${Date.now()}`,
+            branchId: pairing.branchId,
+            name: pairing.name,
+            role: pairing.role,
+            userId: deviceUser.id,
+            pairedAt: Date.now(),
+            lastSeenAt: Date.now()
+        }]);
+        setDemoPairings(prev => {
+            const { [pairingCode]: _used, ...rest } = prev;
+            return rest;
+        });
+        setCurrentUser(deviceUser);
+        applyUserBranch(deviceUser);
+        localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: deviceUser.id, expiry: null }));
+        return true;
+    }
+
+    const { data, error } = await supabase.rpc('pair_device', { p_code: pairingCode }).maybeSingle();
+    if (error) console.error("Error pairing device:", error);
+    if (!data) return false;
+
+    const user = mapDbUserToApp(data);
+    const token = (data as any).session_token;
+    setSessionToken(token);
+    setCurrentUser(user);
+    applyUserBranch(user);
+    localStorage.setItem(SESSION_KEY, JSON.stringify({ userId: user.id, expiry: null, token }));
+    return true;
+  };
+
+  const handleRevokeDevice = async (deviceId: string) => {
+    if (currentUser?.role !== UserRole.ADMIN) return;
+    setDevices(prev => prev.map(d => d.id === deviceId ? { ...d, revokedAt: Date.now() } : d));
+    if (isDemoMode) return;
+
+    const { error } = await supabase.rpc('revoke_device', { p_device_id: deviceId });
+    if (error) console.error("Error revoking device:", error);
   };
 
   // --- Admin Handlers ---
   const handleUpdateSettings = async (newSettings: SystemSettings) => {
-    setSystemSettings(newSettings); // Optimistic update
+    if (currentUser?.role !== UserRole.ADMIN) return;
+    // The API key is write-only: a new value is stored server-side and never kept in state
+    const newApiKey = newSettings.whatsappApiKey?.trim();
+    setSystemSettings({
+        ...newSettings,
+        whatsappApiKey: '',
+        whatsappApiKeySet: newSettings.whatsappApiKeySet || !!newApiKey
+    }); // Optimistic update
     if (!isDemoMode) {
+        if (newApiKey) {
+            const { error: keyError } = await supabase.rpc('set_whatsapp_api_key', { p_branch_id: activeBranchId, p_api_key: newApiKey });
+            if (keyError) console.error("Error saving WhatsApp API key:", keyError);
+        }
+
         const { error } = await supabase.from('system_settings').update({
-            whatsapp_enabled: newSettings.whatsappEnabled,
-            whatsapp_template: newSettings.whatsappTemplate,
-            whatsapp_api_key: newSettings.whatsappApiKey,
-            auto_notify_15m: newSettings.autoNotify15m,
+            notification_channels: newSettings.notificationChannels,
+            channel_fallback_order: newSettings.channelFallbackOrder,
+            notify_at_position: newSettings.notifyAtPosition,
+            notify_within_minutes: newSettings.notifyWithinMinutes,
+            notification_templates: newSettings.notificationTemplates,
             allow_mobile_entry: newSettings.allowMobileEntry,
             mobile_entry_url: newSettings.mobileEntryUrl,
             operating_hours: newSettings.operatingHours,
-            country_code: newSettings.countryCode
-        }).eq('id', 1);
+            time_zone: newSettings.timeZone || null,
+            end_of_day_close_out: newSettings.endOfDayCloseOut,
+            country_code: newSettings.countryCode,
+            queue_mode: newSettings.queueMode,
+            aging_threshold_minutes: newSettings.agingThresholdMinutes,
+            recalls_before_no_show: newSettings.recallsBeforeNoShow,
+            no_show_timeout_minutes: newSettings.noShowTimeoutMinutes,
+            archive_after_days: newSettings.archiveAfterDays,
+            allow_appointments: newSettings.allowAppointments,
+            ticket_printing: newSettings.ticketPrinting
+        }).eq('branch_id', activeBranchId);
 
         if (error) console.error("Error updating settings:", error);
     }
   };
 
   const handleAddUser = async (newUserData: Omit<User, 'id'>) => {
+     if (!can(Permission.MANAGE_USERS)) return;
      const tempId = `user_${Date.now()}`;
      if (isDemoMode) {
-         setUsers(prev => [...prev, { ...newUserData, id: tempId }]);
+         setUsers(prev => [...prev, { ...newUserData, id: tempId, mustChangePassword: true }]);
          return;
      }
 
-     const { error } = await supabase.from('app_users').insert({
-         username: newUserData.username,
-         password: newUserData.password,
-         name: newUserData.name,
-         role: newUserData.role
-     });
+     // Hashed server-side; the new account must pick its own password on first login
+     const { data, error } = await supabase.rpc('create_app_user', {
+         p_username: newUserData.username,
+         p_password: newUserData.password,
+         p_name: newUserData.name,
+         p_role: newUserData.role,
+         p_branch_id: newUserData.branchId || null
+     }).single();
      
-     if (error) {
+     if (error || !data) {
          console.error("Error adding user (DB):", error);
-         setUsers(prev => [...prev, { ...newUserData, id: tempId }]);
+         return;
      }
+     setUsers(prev => [...prev, mapDbUserToApp(data)]);
   };
 
   const handleUpdateUser = async (id: string, updates: Partial<User>) => {
-    setUsers(prev => prev.map(u => u.id === id ? { ...u, ...updates } : u)); // Optimistic
+    // Everyone may edit their own name and username; your own password changes through handleChangePassword
+    const isSelf = id === currentUser?.id;
+    if (!isSelf && !can(Permission.MANAGE_USERS)) return;
+    const { password: newPassword, ...profile } = updates;
+    // A password set by an admin for someone else is temporary
+    const password = isSelf ? undefined : newPassword;
+    const passwordUpdates = password ? { mustChangePassword: true, ...(isDemoMode ? { password } : {}) } : {};
+    setUsers(prev => prev.map(u => u.id === id ? { ...u, ...profile, ...passwordUpdates } : u)); // Optimistic
     if (isDemoMode) return;
 
+    // Only account managers may update accounts directly, so your own name and username go through update_own_profile
+    if (isSelf && (profile.name || profile.username)) {
+        const { error } = await supabase.rpc('update_own_profile', { p_name: profile.name ?? null, p_username: profile.username ?? null });
+        if (error) console.error("Error updating profile:", error);
+    }
+
     const dbUpdates: any = {};
-    if (updates.name) dbUpdates.name = updates.name;
-    if (updates.username) dbUpdates.username = updates.username;
-    if (updates.role) dbUpdates.role = updates.role;
-    if (updates.password) dbUpdates.password = updates.password;
+    if (profile.name && !isSelf) dbUpdates.name = profile.name;
+    if (profile.username && !isSelf) dbUpdates.username = profile.username;
+    if (profile.role) dbUpdates.role = profile.role;
+    if ('branchId' in profile) dbUpdates.branch_id = profile.branchId || null;
+    if ('permissions' in profile) dbUpdates.permissions = profile.permissions ?? null;
+
+    if (Object.keys(dbUpdates).length > 0) {
+        const { error } = await supabase.from('app_users').update(dbUpdates).eq('id', id);
+        if (error) console.error("Error updating user:", error);
+    }
 
-    const { error } = await supabase.from('app_users').update(dbUpdates).eq('id', id);
-    if (error) console.error("Error updating user:", error);
+    if (password) {
+        const { error } = await supabase.rpc('set_user_password', {
+            p_user_id: id,
+            p_password: password,
+            p_must_change: true
+        });
+        if (error) console.error("Error setting password:", error);
+    }
   };
 
   const handleDeleteUser = async (id: string) => {
+    if (!can(Permission.MANAGE_USERS)) return;
     setUsers(prev => prev.filter(u => u.id !== id));
     if (isDemoMode) return;
     const { error } = await supabase.from('app_users').delete().eq('id', id);
     if (error) console.error("Error deleting user:", error);
   };
 
-  const handleAddService = async (newServiceData: Omit<ServiceDefinition, 'id'>) => {
+  const handleAddService = async (newServiceData: Omit<ServiceDefinition, 'id' | 'branchId'>) => {
+    if (!can(Permission.MANAGE_SERVICES)) return;
     const tempId = `srv_${Date.now()}`;
     if (isDemoMode) {
-        setServices(prev => [...prev, { ...newServiceData, id: tempId }]);
+        setServices(prev => [...prev, { ...newServiceData, id: tempId, branchId: activeBranchId }]);
         return;
     }
 
     const { error } = await supabase.from('services').insert({
+        branch_id: activeBranchId,
         name: newServiceData.name,
         prefix: newServiceData.prefix,
         color_theme: newServiceData.colorTheme,
-        default_wait_time: newServiceData.defaultWaitTime
+        default_wait_time: newServiceData.defaultWaitTime,
+        priority: newServiceData.priority || 1,
+        appointment_slot_minutes: newServiceData.appointmentSlotMinutes || 0,
+        appointment_capacity: newServiceData.appointmentCapacity || 1
     });
     if (error) {
         console.error("Error adding service:", error);
-        setServices(prev => [...prev, { ...newServiceData, id: tempId }]);
+        setServices(prev => [...prev, { ...newServiceData, id: tempId, branchId: activeBranchId }]);
     }
   };
 
   const handleUpdateService = async (id: string, updates: Partial<ServiceDefinition>) => {
+      if (!can(Permission.MANAGE_SERVICES)) return;
       setServices(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
       if (isDemoMode) return;
 
@@ -515,26 +953,87 @@ const App: React.FC = () => {
       if (updates.prefix) dbUpdates.prefix = updates.prefix;
       if (updates.colorTheme) dbUpdates.color_theme = updates.colorTheme;
       if (updates.defaultWaitTime !== undefined) dbUpdates.default_wait_time = updates.defaultWaitTime;
+      if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
+      if (updates.appointmentSlotMinutes !== undefined) dbUpdates.appointment_slot_minutes = updates.appointmentSlotMinutes;
+      if (updates.appointmentCapacity !== undefined) dbUpdates.appointment_capacity = updates.appointmentCapacity;
 
       const { error } = await supabase.from('services').update(dbUpdates).eq('id', id);
       if (error) console.error("Error updating service:", error);
   };
 
   const handleDeleteService = async (id: string) => {
+      if (!can(Permission.MANAGE_SERVICES)) return;
       setServices(prev => prev.filter(s => s.id !== id));
       if (isDemoMode) return;
       const { error } = await supabase.from('services').delete().eq('id', id);
       if (error) console.error("Error deleting service:", error);
   };
 
+  const handleUpdateCounter = async (id: number, updates: Partial<CounterState>) => {
+      if (!can(Permission.MANAGE_COUNTERS)) return;
+      setCounters(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+      if (isDemoMode) return;
+
+      const dbUpdates: any = {};
+      if (updates.serviceIds) dbUpdates.service_ids = updates.serviceIds;
+      if (updates.fallbackServiceIds) dbUpdates.fallback_service_ids = updates.fallbackServiceIds;
+      if (updates.label !== undefined) dbUpdates.label = updates.label;
+      if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
+      if (updates.isRetired !== undefined) dbUpdates.retired = updates.isRetired;
+      if (updates.isOpen !== undefined) dbUpdates.is_open = updates.isOpen;
+
+      const { error } = await supabase.from('counters').update(dbUpdates).eq('id', id);
+      if (error) console.error("Error updating counter:", error);
+  };
+
+  const handleAddCounter = async (label: string) => {
+      if (!can(Permission.MANAGE_COUNTERS)) return;
+      const sortOrder = counters.reduce((max, c) => Math.max(max, c.sortOrder), 0) + 1;
+
+      if (isDemoMode) {
+          const id = counters.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+          setCounters(prev => [...prev, { id, branchId: activeBranchId, label, sortOrder, isRetired: false, isOpen: true, currentTicketId: null, serviceIds: [], fallbackServiceIds: [] }]);
+          return;
+      }
+
+      const { data, error } = await supabase.from('counters')
+        .insert({ branch_id: activeBranchId, label, sort_order: sortOrder })
+        .select()
+        .single();
+      if (error) {
+          console.error("Error adding counter:", error);
+          return;
+      }
+      if (data) {
+          const newCounter = mapDbCounterToApp(data);
+          setCounters(prev => prev.some(c => c.id === newCounter.id) ? prev : [...prev, newCounter]);
+      }
+  };
+
+  const handleReorderCounters = async (orderedIds: number[]) => {
+      if (!can(Permission.MANAGE_COUNTERS)) return;
+      setCounters(prev => prev.map(c => {
+          const index = orderedIds.indexOf(c.id);
+          return index === -1 ? c : { ...c, sortOrder: index + 1 };
+      }));
+      if (isDemoMode) return;
+
+      const results = await Promise.all(orderedIds.map((id, index) =>
+          supabase.from('counters').update({ sort_order: index + 1 }).eq('id', id)
+      ));
+      const failed = results.find(r => r.error);
+      if (failed) console.error("Error reordering counters:", failed.error);
+  };
+
   // --- Manual Reset Handlers ---
   const handleFullReset = async () => {
+      if (!can(Permission.RESET_QUEUE)) return;
       if(isDemoMode) { 
           setTickets([]); 
           setCounters(prev => prev.map(c => ({...c, currentTicketId: null})));
           return; 
       }
-      const { error } = await supabase.rpc('reset_daily_queue');
+      const { error } = await supabase.rpc('reset_daily_queue', { p_branch_id: activeBranchId });
       if (error) console.error("Error performing full reset:", error);
       // Local state will update via realtime DELETE event, but we can optimistically clear
       setTickets([]);
@@ -542,75 +1041,163 @@ const App: React.FC = () => {
   }
 
   const handleResetStats = async () => {
+      if (!can(Permission.RESET_QUEUE)) return;
       if(isDemoMode) { 
           setTickets(prev => prev.filter(t => t.status === TicketStatus.WAITING || t.status === TicketStatus.SERVING)); 
           return; 
       }
-      const { error } = await supabase.rpc('clear_history_stats');
+      const { error } = await supabase.rpc('clear_history_stats', { p_branch_id: activeBranchId });
       if (error) console.error("Error resetting stats:", error);
       // Local state will update via realtime
   }
 
+  // --- Audit Trail ---
+  // Failures are logged but never block the queue action itself
+  const logTicketEvent = async (ticketId: string, type: TicketEventType, details: { counterId?: number; payload?: Record<string, any> } = {}) => {
+      if (isDemoMode) {
+          setDemoTicketEvents(prev => [...prev, {
+              id: `evt_${Date.now()}_${prev.length}`,
+              ticketId,
+              type,
+              counterId: details.counterId,
+              staffUserId: currentUser?.id,
+              createdAt: Date.now(),
+              payload: details.payload
+          }]);
+          return;
+      }
+      // Tickets that only exist locally (DB insert failed) have no row to reference
+      if (ticketId.startsWith('temp_')) return;
+
+      const { error } = await supabase.from('ticket_events').insert({
+          ticket_id: ticketId,
+          event_type: type,
+          counter_id: details.counterId ?? null,
+          staff_user_id: currentUser?.id ?? null,
+          payload: details.payload ?? {}
+      });
+      if (error) console.error("Error logging ticket event:", error);
+  };
+
+  const handleFetchTicketEvents = async (ticketId: string): Promise<TicketEvent[]> => {
+      if (!can(Permission.VIEW_REPORTS)) return [];
+      if (isDemoMode) return demoTicketEvents.filter(e => e.ticketId === ticketId);
+
+      const { data, error } = await supabase
+          .from('ticket_events')
+          .select('*')
+          .eq('ticket_id', ticketId)
+          .order('created_at');
+      if (error) {
+          console.error("Error fetching ticket events:", error);
+          return [];
+      }
+      return (data || []).map(mapDbTicketEventToApp);
+  };
+
+  // The outbox is only written by the API server, so the panel polls rather than relying on realtime
+  const handleFetchNotifications = async (): Promise<NotificationRecord[]> => {
+      if (!can(Permission.VIEW_REPORTS) || isDemoMode) return [];
+
+      const { data, error } = await supabase
+          .from('notifications')
+          .select('*, ticket:tickets(number)')
+          .eq('branch_id', activeBranchId)
+          .order('created_at', { ascending: false })
+          .limit(100);
+      if (error) {
+          console.error("Error fetching notifications:", error);
+          return [];
+      }
+      return (data || []).map(mapDbNotificationToApp);
+  };
+
+  const handleRetryNotification = async (notificationId: string) => {
+      if (!can(Permission.VIEW_REPORTS) || isDemoMode) return;
+      const { error } = await supabase.rpc('retry_notification', { p_notification_id: notificationId });
+      if (error) console.error("Error retrying notification:", error);
+  };
+
+  // Written by the API server's scheduler; an empty list means it has never run
+  const handleFetchJobs = async (): Promise<JobRun[]> => {
+      if (currentUser?.role !== UserRole.ADMIN || isDemoMode) return [];
+
+      const { data, error } = await supabase.from('scheduled_jobs').select('*');
+      if (error) {
+          console.error("Error fetching scheduled jobs:", error);
+          return [];
+      }
+      return (data || []).map(mapDbJobToApp);
+  };
+
   // --- Queue Logic Handlers ---
-  const handleJoinQueue = async (name: string, serviceId: string, phone: string) => {
+  // With remember the customer agreed to have their details saved for their next visit
+  const handleJoinQueue = async (name: string, serviceId: string, phone: string, email?: string, notifyChannel?: NotificationChannel, remember = false) => {
     const service = services.find(s => s.id === serviceId);
     if (!service) throw new Error("Service not found");
 
-    // Fetch exact count from DB to ensure sequential numbering without duplicates
-    let seq = 1;
-    if (!isDemoMode) {
-        const { count } = await supabase
-            .from('tickets')
-            .select('*', { count: 'exact', head: true })
-            .eq('service_id', serviceId);
-        
-        seq = (count || 0) + 1;
-    } else {
-        const count = tickets.filter(t => t.serviceId === serviceId).length;
-        seq = count + 1;
-    }
-
-    const number = `${service.prefix}${seq.toString().padStart(3, '0')}`;
+    const rememberLocalCustomer = (ticketId: string): string | undefined => {
+        const customerPhone = normalizePhone(phone, systemSettings.countryCode);
+        if (!remember || !customerPhone) return undefined;
+        // Same rule as issue_ticket: a known number is never overwritten, and only a kiosk links it by name
+        const existing = demoCustomers.find(c => c.phone === customerPhone);
+        if (existing) {
+            const isMatch = currentUser?.role === UserRole.KIOSK && existing.name.toLowerCase() === name.trim().toLowerCase();
+            return isMatch ? existing.id : undefined;
+        }
+        const customer: Customer = {
+            id: `cus_${Date.now()}`,
+            name: name.trim(),
+            phone: customerPhone,
+            email: email || undefined,
+            notifyChannel,
+            consentedAt: Date.now(),
+            createdByTicketId: ticketId,
+            createdAt: Date.now()
+        };
+        setDemoCustomers(prev => [...prev, customer]);
+        return customer.id;
+    };
 
-    if (isDemoMode) {
+    // Local numbering is only used offline; the DB allocates real numbers
+    const createLocalTicket = (): Ticket => {
+        const seq = tickets.filter(t => t.serviceId === serviceId).length + 1;
+        const ticketId = `temp_${Date.now()}`;
         const newTicket: Ticket = {
-            id: `temp_${Date.now()}`,
-            number,
+            id: ticketId,
+            branchId: service.branchId,
+            number: `${service.prefix}${seq.toString().padStart(3, '0')}`,
             name,
             phone,
+            email,
+            notifyChannel,
             serviceId,
             serviceName: service.name,
             status: TicketStatus.WAITING,
-            joinedAt: Date.now()
+            joinedAt: Date.now(),
+            trackingToken: generateTrackingToken(),
+            customerId: rememberLocalCustomer(ticketId)
         };
         setTickets(prev => [...prev, newTicket]);
+        logTicketEvent(newTicket.id, TicketEventType.ISSUED, { payload: { number: newTicket.number, serviceId } });
         return newTicket;
-    }
+    };
 
-    const { data, error } = await supabase.from('tickets').insert({
-        number: number,
-        name: name, // FIXED: Was customer_name, corrected to match schema
-        phone: phone,
-        service_id: serviceId,
-        service_name: service.name,
-        status: TicketStatus.WAITING,
-        joined_at: new Date().toISOString()
-    }).select().single();
+    if (isDemoMode) return createLocalTicket();
 
-    if (error) {
+    // Number allocation and insert happen atomically server-side
+    const { data, error } = await supabase.rpc('issue_ticket', {
+        p_service_id: serviceId,
+        p_name: name,
+        p_phone: phone,
+        p_email: email || null,
+        p_notify_channel: notifyChannel || null,
+        p_remember: remember
+    });
+
+    if (error || !data) {
         console.error("Error joining queue (DB), falling back to local:", error);
-        const newTicket: Ticket = {
-            id: `temp_${Date.now()}`,
-            number,
-            name,
-            phone,
-            serviceId,
-            serviceName: service.name,
-            status: TicketStatus.WAITING,
-            joinedAt: Date.now()
-        };
-        setTickets(prev => [...prev, newTicket]);
-        return newTicket;
+        return createLocalTicket();
     }
     
     // Explicitly update local state to ensure instant feedback, don't rely solely on WS
@@ -620,48 +1207,314 @@ const App: React.FC = () => {
         if (prev.some(t => t.id === newTicket.id)) return prev;
         return [...prev, newTicket];
     });
+    // issue_ticket logged the ISSUED event
 
     return newTicket;
   };
-  // ... rest of logic remains same
-  const handleCancelTicket = async (ticketId: string) => {
-    setTickets(prev => prev.map(t => t.id === ticketId ? { ...t, status: TicketStatus.CANCELLED } : t));
+
+  // --- Appointment Handlers ---
+  // The booking page learns how full each slot is, never who booked it
+  const fetchBookedSlots = async () => {
+    const { data, error } = await supabase.rpc('get_booked_slots', { p_branch_id: activeBranchId });
+    if (error) {
+        console.error("Error fetching booked slots:", error);
+        return;
+    }
+    setBookedSlots((data || []).map((b: any) => ({
+        serviceId: b.service_id,
+        scheduledAt: new Date(b.scheduled_at).getTime(),
+        booked: b.booked
+    })));
+  };
+
+  useEffect(() => {
+    if (!isBookingMode || isLoading || isDemoMode) return;
+    fetchBookedSlots();
+  }, [isBookingMode, isLoading, isDemoMode, activeBranchId]);
+
+  // Returns null when the slot has filled up in the meantime or the booking failed
+  const handleBookAppointment = async (serviceId: string, name: string, phone: string, scheduledAt: number): Promise<Appointment | null> => {
+    if (isDemoMode) {
+        const service = services.find(s => s.id === serviceId);
+        const booked = appointments.filter(a =>
+            a.serviceId === serviceId && a.scheduledAt === scheduledAt && a.status !== AppointmentStatus.CANCELLED
+        ).length;
+        if (!service || booked >= (service.appointmentCapacity || 1)) return null;
+
+        const appointment: Appointment = {
+            id: `apt_${Date.now()}`,
+            branchId: activeBranchId,
+            code: generateBookingCode(),
+            serviceId,
+            name,
+            phone: phone || undefined,
+            scheduledAt,
+            status: AppointmentStatus.BOOKED,
+            createdAt: Date.now()
+        };
+        setAppointments(prev => [...prev, appointment]);
+        return appointment;
+    }
+
+    // Capacity check and insert happen atomically server-side
+    const { data, error } = await supabase.rpc('book_appointment', {
+        p_service_id: serviceId,
+        p_name: name,
+        p_phone: phone,
+        p_scheduled_at: new Date(scheduledAt).toISOString()
+    });
+    fetchBookedSlots();
+    if (error || !data) {
+        console.error("Error booking appointment:", error);
+        return null;
+    }
+
+    const appointment = mapDbAppointmentToApp(data);
+    setAppointments(prev => prev.some(a => a.id === appointment.id) ? prev : [...prev, appointment]);
+    return appointment;
+  };
+
+  const handleCancelAppointment = async (appointmentId: string, code: string) => {
+    setAppointments(prev => prev.map(a => a.id === appointmentId ? { ...a, status: AppointmentStatus.CANCELLED } : a));
     if (isDemoMode) return;
 
-    const { error } = await supabase.from('tickets')
-        .update({ status: TicketStatus.CANCELLED })
-        .eq('id', ticketId);
-    if (error) console.error("Error cancelling ticket:", error);
+    // The booking code proves the caller made this booking
+    const { error } = await supabase.rpc('cancel_appointment', { p_appointment_id: appointmentId, p_code: code });
+    if (error) console.error("Error cancelling appointment:", error);
+    fetchBookedSlots();
+  };
+
+  // Kiosk check-in: turns today's booking into a WAITING ticket carrying its slot time.
+  // Returns null when no booking for today matches the code.
+  const handleCheckInAppointment = async (code: string): Promise<Ticket | null> => {
+    const bookingCode = normalizeBookingCode(code);
+
+    if (isDemoMode) {
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+        const endOfDay = new Date(startOfDay);
+        endOfDay.setDate(endOfDay.getDate() + 1);
+        const appointment = appointments.find(a =>
+            a.code === bookingCode
+            && a.status === AppointmentStatus.BOOKED
+            && a.scheduledAt >= startOfDay.getTime()
+            && a.scheduledAt < endOfDay.getTime()
+        );
+        if (!appointment) return null;
+
+        const ticket = await handleJoinQueue(appointment.name, appointment.serviceId, appointment.phone || '');
+        const checkedIn: Ticket = { ...ticket, appointmentId: appointment.id, appointmentAt: appointment.scheduledAt };
+        setTickets(prev => prev.map(t => t.id === ticket.id ? checkedIn : t));
+        setAppointments(prev => prev.map(a => a.id === appointment.id ? { ...a, status: AppointmentStatus.CHECKED_IN, ticketId: ticket.id } : a));
+        return checkedIn;
+    }
+
+    const { data, error } = await supabase.rpc('check_in_appointment', { p_code: bookingCode, p_branch_id: activeBranchId });
+    if (error) {
+        console.error("Error checking in appointment:", error);
+        return null;
+    }
+    if (!data) return null;
+
+    const ticket = mapDbTicketToApp(data);
+    setTickets(prev => prev.some(t => t.id === ticket.id) ? prev.map(t => t.id === ticket.id ? ticket : t) : [...prev, ticket]);
+    setAppointments(prev => prev.map(a => a.id === ticket.appointmentId ? { ...a, status: AppointmentStatus.CHECKED_IN, ticketId: ticket.id } : a));
+    return ticket;
+  };
+
+  // The tracking token proves the caller holds the ticket (queue staff can cancel without one).
+  // Returns false when the ticket was not cancelled, e.g. because it has already been called.
+  const handleCancelTicket = async (ticketId: string, token?: string): Promise<boolean> => {
+    if (isDemoMode) {
+        const ticket = tickets.find(t => t.id === ticketId);
+        if (ticket?.status !== TicketStatus.WAITING) return false;
+        setTickets(prev => prev.map(t => t.id === ticketId ? { ...t, status: TicketStatus.CANCELLED } : t));
+        logTicketEvent(ticketId, TicketEventType.CANCELLED);
+        return true;
+    }
+
+    setTickets(prev => prev.map(t => t.id === ticketId && t.status === TicketStatus.WAITING ? { ...t, status: TicketStatus.CANCELLED } : t));
+    const { data: cancelled, error } = await supabase.rpc('cancel_ticket', { p_ticket_id: ticketId, p_token: token ?? null });
+    if (error || !cancelled) {
+        if (error) console.error("Error cancelling ticket:", error);
+        return false;
+    }
+    return true;
+  };
+
+  // --- Customers ---
+  // Kiosk auto-fill: only paired kiosks may look a phone number up (lookup_customer in db_schema.sql)
+  const handleLookupCustomer = async (phone: string): Promise<Pick<Customer, 'name' | 'notifyChannel'> | null> => {
+    if (isDemoMode) return demoCustomers.find(c => c.phone === normalizePhone(phone, systemSettings.countryCode)) ?? null;
+
+    const { data, error } = await supabase.rpc('lookup_customer', { p_phone: phone });
+    if (error) {
+        console.error("Error looking up customer:", error);
+        return null;
+    }
+    return data ? { name: data.name, notifyChannel: data.notify_channel ?? undefined } : null;
+  };
+
+  // Returns null when the ticket is not linked to a remembered customer
+  const handleFetchCustomerHistory = async (ticketId: string): Promise<CustomerHistory | null> => {
+    if (isDemoMode) {
+        const ticket = tickets.find(t => t.id === ticketId);
+        return ticket ? getCustomerHistory(ticket, tickets, demoCustomers) : null;
+    }
+
+    const { data, error } = await supabase.rpc('get_customer_history', { p_ticket_id: ticketId });
+    if (error || !data) {
+        if (error) console.error("Error fetching customer history:", error);
+        return null;
+    }
+    return {
+        customer: mapDbCustomerToApp(data.customer),
+        visitCount: data.visit_count,
+        visits: (data.visits || []).map((v: any) => ({
+            ticketId: v.id,
+            number: v.number,
+            serviceName: v.service_name,
+            status: v.status as TicketStatus,
+            joinedAt: new Date(v.joined_at).getTime(),
+            servedAt: v.served_at ? new Date(v.served_at).getTime() : undefined,
+            completedAt: v.completed_at ? new Date(v.completed_at).getTime() : undefined
+        }))
+    };
+  };
+
+  const handleFetchCustomerStats = async (): Promise<CustomerStats[]> => {
+    if (!can(Permission.VIEW_REPORTS)) return [];
+    if (isDemoMode) return getCustomerStats(tickets, demoCustomers);
+
+    const { data, error } = await supabase.rpc('get_customer_stats', { p_branch_id: activeBranchId });
+    if (error) {
+        console.error("Error fetching customer stats:", error);
+        return [];
+    }
+    return (data || []).map((c: any) => ({
+        id: c.id,
+        name: c.name,
+        phone: c.phone,
+        consentedAt: new Date(c.consented_at).getTime(),
+        visits: c.visits,
+        completed: c.completed,
+        noShows: c.no_shows,
+        cancelled: c.cancelled,
+        avgWaitMinutes: c.avg_wait_minutes ?? undefined,
+        lastVisitAt: new Date(c.last_visit_at).getTime()
+    }));
+  };
+
+  // Same as erase_customer in db_schema.sql: finished visits lose the name and contact details,
+  // a visit still in progress is only unlinked
+  const eraseLocalCustomer = (customerId: string) => {
+    const isInProgress = (t: Ticket) => t.status === TicketStatus.WAITING || t.status === TicketStatus.SERVING;
+    const erasedIds = new Set(tickets.filter(t => t.customerId === customerId && !isInProgress(t)).map(t => t.id));
+    setDemoTicketEvents(prev => prev.map(e => erasedIds.has(e.ticketId) ? { ...e, payload: undefined } : e));
+    setTickets(prev => prev.map(t => t.customerId !== customerId ? t
+        : isInProgress(t) ? { ...t, customerId: undefined }
+        : { ...t, name: 'Deleted', phone: undefined, email: undefined, customerId: undefined }));
+    setDemoCustomers(prev => prev.filter(c => c.id !== customerId));
+  };
+
+  const handleDeleteCustomer = async (customerId: string): Promise<boolean> => {
+    if (currentUser?.role !== UserRole.ADMIN) return false;
+    if (isDemoMode) {
+        eraseLocalCustomer(customerId);
+        return true;
+    }
+
+    const { data: deleted, error } = await supabase.rpc('delete_customer', { p_customer_id: customerId });
+    if (error) {
+        console.error("Error deleting customer data:", error);
+        return false;
+    }
+    return !!deleted;
+  };
+
+  // From the tracking page: the ticket's token proves the caller is the customer, and only the ticket
+  // that saved the record may erase it (forget_customer in db_schema.sql)
+  const handleForgetCustomer = async (ticketId: string, token: string): Promise<boolean> => {
+    if (isDemoMode) {
+        const customerId = tickets.find(t => t.id === ticketId && t.trackingToken === token)?.customerId;
+        if (!customerId || demoCustomers.find(c => c.id === customerId)?.createdByTicketId !== ticketId) return false;
+        eraseLocalCustomer(customerId);
+        return true;
+    }
+
+    const { data: forgotten, error } = await supabase.rpc('forget_customer', { p_ticket_id: ticketId, p_token: token });
+    if (error) {
+        console.error("Error deleting customer data:", error);
+        return false;
+    }
+    return !!forgotten;
   };
 
+  // --- Ticket Tracking ---
+  const handleFetchTicketTracking = async (ticketId: string, token: string) => {
+    const { data, error } = await supabase.rpc('get_ticket_status', { p_ticket_id: ticketId, p_token: token });
+    if (error) {
+        // Keep showing the last figures through a dropped connection
+        console.error("Error fetching ticket status:", error);
+        return;
+    }
+    setTicketTracking(data ? {
+        ticket: mapDbTicketToApp(data.ticket),
+        position: data.position,
+        etaMinutes: data.eta_minutes,
+        counterLabel: data.counter_label ?? undefined
+    } : null);
+  };
+
+  // Re-read whenever the ticket's branch reports a queue change (once the first read has told us the
+  // branch), and on a timer in case a change was missed
+  const trackedBranchId = ticketTracking?.ticket.branchId;
+  useEffect(() => {
+    if (!trackedTicket || isLoading || isDemoMode) return;
+    const refresh = () => handleFetchTicketTracking(trackedTicket.id, trackedTicket.token);
+    refresh();
+
+    const activitySub = trackedBranchId
+        ? supabase.channel(`ticket-${trackedTicket.id}`)
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'queue_activity', filter: `branch_id=eq.${trackedBranchId}` }, refresh)
+            .subscribe()
+        : null;
+    const interval = setInterval(refresh, TRACKING_REFRESH_SECONDS * 1000);
+    return () => {
+        if (activitySub) supabase.removeChannel(activitySub);
+        clearInterval(interval);
+    };
+  }, [trackedTicket, trackedBranchId, isLoading, isDemoMode]);
+
   const handleCallNext = async (counterId: number) => {
-    const nextTicket = tickets
-      .filter(t => t.status === TicketStatus.WAITING)
-      .sort((a, b) => a.joinedAt - b.joinedAt)[0];
+    const counter = counters.find(c => c.id === counterId);
+    if (!counter) return;
 
-    if (!nextTicket) return;
+    if (isDemoMode) {
+        // Only pull tickets for services this counter is qualified to serve, ordered by the queue mode
+        const nextTicket = getNextTicketForCounter(tickets, counter, services, systemSettings);
+        if (!nextTicket) return;
 
-    // Optimistic update
-    setTickets(prev => prev.map(t => t.id === nextTicket.id ? { ...t, status: TicketStatus.SERVING, counter: counterId, servedAt: Date.now() } : t));
-    setCounters(prev => prev.map(c => c.id === counterId ? { ...c, currentTicketId: nextTicket.id } : c));
+        setTickets(prev => prev.map(t => t.id === nextTicket.id ? { ...t, status: TicketStatus.SERVING, counter: counterId, servedAt: Date.now() } : t));
+        setCounters(prev => prev.map(c => c.id === counterId ? { ...c, currentTicketId: nextTicket.id } : c));
+        logTicketEvent(nextTicket.id, TicketEventType.CALLED, { counterId });
+        return;
+    }
 
-    if (isDemoMode) return;
+    // The DB picks, locks and assigns the ticket in one transaction so two counters never claim the same one
+    const { data, error } = await supabase
+        .rpc('call_next_ticket', { p_counter_id: counterId })
+        .maybeSingle();
 
-    const { error: ticketError } = await supabase
-        .from('tickets')
-        .update({ 
-            status: TicketStatus.SERVING, 
-            counter_id: counterId, 
-            served_at: new Date().toISOString() 
-        })
-        .eq('id', nextTicket.id)
-        .eq('status', TicketStatus.WAITING);
-    
-    if (ticketError) console.error("Error calling next ticket:", ticketError);
+    if (error) {
+        console.error("Error calling next ticket:", error);
+        return;
+    }
+    if (!data) return;
 
-    await supabase.from('counters')
-        .update({ current_ticket_id: nextTicket.id })
-        .eq('id', counterId);
+    const calledTicket = mapDbTicketToApp(data);
+    setTickets(prev => prev.map(t => t.id === calledTicket.id ? calledTicket : t));
+    setCounters(prev => prev.map(c => c.id === counterId ? { ...c, currentTicketId: calledTicket.id } : c));
   };
 
   const handleUpdateTicketStatus = async (ticketId: string, status: TicketStatus) => {
@@ -672,6 +1525,15 @@ const App: React.FC = () => {
         setCounters(prev => prev.map(c => c.id === counter.id ? { ...c, currentTicketId: null } : c));
     }
 
+    const eventTypes: Partial<Record<TicketStatus, TicketEventType>> = {
+        [TicketStatus.COMPLETED]: TicketEventType.COMPLETED,
+        [TicketStatus.NO_SHOW]: TicketEventType.NO_SHOW,
+        [TicketStatus.CANCELLED]: TicketEventType.CANCELLED,
+        [TicketStatus.WAITING]: TicketEventType.REOPENED
+    };
+    const eventType = eventTypes[status];
+    if (eventType) logTicketEvent(ticketId, eventType, { counterId: counter?.id });
+
     if (isDemoMode) return;
 
     const updatePayload: any = { status };
@@ -687,6 +1549,76 @@ const App: React.FC = () => {
     }
   };
 
+  // Re-announce the ticket on the display; the timestamp change is what triggers the announcement
+  const handleRecallTicket = async (ticketId: string) => {
+    const ticket = tickets.find(t => t.id === ticketId);
+    if (!ticket || ticket.status !== TicketStatus.SERVING) return;
+
+    const recallCount = (ticket.recallCount || 0) + 1;
+    const recalledAt = Date.now();
+    setTickets(prev => prev.map(t => t.id === ticketId ? { ...t, recallCount, lastRecalledAt: recalledAt } : t));
+    logTicketEvent(ticketId, TicketEventType.RECALLED, { counterId: ticket.counter, payload: { recallCount } });
+
+    if (isDemoMode) return;
+
+    const { error } = await supabase.from('tickets').update({
+        recall_count: recallCount,
+        last_recalled_at: new Date(recalledAt).toISOString()
+    }).eq('id', ticketId);
+    if (error) console.error("Error recalling ticket:", error);
+  };
+
+  const handleTransferTicket = async (ticketId: string, target: { serviceId: string; counterId?: number; placeAtFront: boolean }) => {
+    if (!can(Permission.TRANSFER_TICKETS)) return;
+    const ticket = tickets.find(t => t.id === ticketId);
+    const service = services.find(s => s.id === target.serviceId);
+    if (!ticket || !service) return;
+
+    const transfer: TicketTransfer = {
+        fromServiceId: ticket.serviceId,
+        toServiceId: service.id,
+        fromCounter: ticket.counter,
+        toCounter: target.counterId,
+        at: Date.now()
+    };
+    const transfers = [...(ticket.transfers || []), transfer];
+
+    // Back to WAITING under the new service; joinedAt is kept so the customer doesn't lose their place
+    setTickets(prev => prev.map(t => t.id === ticketId ? {
+        ...t,
+        status: TicketStatus.WAITING,
+        serviceId: service.id,
+        serviceName: service.name,
+        counter: undefined,
+        servedAt: undefined,
+        targetCounter: target.counterId,
+        frontOfQueue: target.placeAtFront,
+        transfers,
+        recallCount: 0,
+        lastRecalledAt: undefined
+    } : t));
+
+    setCounters(prev => prev.map(c => c.currentTicketId === ticketId ? { ...c, currentTicketId: null } : c));
+
+    if (isDemoMode) {
+        logTicketEvent(ticketId, TicketEventType.TRANSFERRED, { counterId: ticket.counter, payload: { ...transfer, placeAtFront: target.placeAtFront } });
+        return;
+    }
+
+    // The ticket leaves this counter, which staff cannot do with a plain update; transfer_ticket also logs the event
+    const { data, error } = await supabase.rpc('transfer_ticket', {
+        p_ticket_id: ticketId,
+        p_service_id: service.id,
+        p_counter_id: target.counterId ?? null,
+        p_place_at_front: target.placeAtFront
+    });
+    if (error) {
+        console.error("Error transferring ticket:", error);
+        return;
+    }
+    if (data) setTickets(prev => prev.map(t => t.id === ticketId ? mapDbTicketToApp(data) : t));
+  };
+
   const handleToggleCounter = async (counterId: number) => {
     const counter = counters.find(c => c.id === counterId);
     if (counter) {
@@ -749,6 +1681,29 @@ const App: React.FC = () => {
       )
   }
 
+  if (trackedTicket) {
+      const demoTicket = isDemoMode ? tickets.find(t => t.id === trackedTicket.id && t.trackingToken === trackedTicket.token) : undefined;
+      const tracking = isDemoMode ? (demoTicket ? getTicketTracking(demoTicket, tickets, services, counters) : null) : ticketTracking;
+      return (
+        <TicketTrackingView
+          tracking={tracking}
+          onCancelTicket={async () => {
+              const cancelled = await handleCancelTicket(trackedTicket.id, trackedTicket.token);
+              if (!isDemoMode) await handleFetchTicketTracking(trackedTicket.id, trackedTicket.token);
+              return cancelled;
+          }}
+          onForgetCustomer={async () => {
+              const forgotten = await handleForgetCustomer(trackedTicket.id, trackedTicket.token);
+              if (!isDemoMode) await handleFetchTicketTracking(trackedTicket.id, trackedTicket.token);
+              return forgotten;
+          }}
+          newTicketUrl={`${window.location.pathname}?mode=mobile_entry&branch=${tracking?.ticket.branchId ?? activeBranchId}`}
+          toggleTheme={handleToggleTheme}
+          isDarkMode={isDarkMode}
+        />
+      );
+  }
+
   if (isMobileEntryMode) {
       if (!systemSettings.allowMobileEntry) {
           return (
@@ -763,8 +1718,9 @@ const App: React.FC = () => {
       return (
         <KioskView 
           services={services}
-          onJoinQueue={(n, s, p) => handleJoinQueue(n, s, p) as any} // Cast promise
+          onJoinQueue={(n, s, p, e, c, r) => handleJoinQueue(n, s, p, e, c, r) as any} // Cast promise
           onCancelTicket={handleCancelTicket} 
+          onCheckInAppointment={handleCheckInAppointment}
           onLogout={() => {}} 
           toggleTheme={handleToggleTheme}
           isDarkMode={isDarkMode}
@@ -774,18 +1730,59 @@ const App: React.FC = () => {
       );
   }
 
+  if (isBookingMode) {
+      if (!systemSettings.allowAppointments) {
+          return (
+              <div className="h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4 text-center">
+                  <div>
+                    <h1 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Online Booking Unavailable</h1>
+                    <p className="text-slate-500">Please visit the kiosk to get a ticket.</p>
+                  </div>
+              </div>
+          )
+      }
+      return (
+        <BookingView
+          services={services}
+          bookedSlots={isDemoMode ? countBookedSlots(appointments) : bookedSlots}
+          systemSettings={systemSettings}
+          onBookAppointment={handleBookAppointment}
+          onCancelAppointment={handleCancelAppointment}
+          toggleTheme={handleToggleTheme}
+          isDarkMode={isDarkMode}
+        />
+      );
+  }
+
   if (!currentUser) {
     return (
         <LoginView 
             onLogin={handleLogin} 
+            onRequestReset={handleRequestPasswordReset}
+            onRedeemReset={handleRedeemPasswordReset}
+            onPairDevice={handlePairDevice}
+            initialPairingCode={pendingPairingCode}
             toggleTheme={handleToggleTheme} 
             isDarkMode={isDarkMode} 
         />
     );
   }
 
+  if (currentUser.mustChangePassword) {
+    return (
+        <ChangePasswordView 
+            currentUser={currentUser}
+            onChangePassword={handleChangePassword}
+            onLogout={handleLogout}
+            toggleTheme={handleToggleTheme}
+            isDarkMode={isDarkMode}
+        />
+    );
+  }
+
   switch (currentUser.role) {
     case UserRole.ADMIN:
+    case UserRole.SUPERVISOR:
       return (
         <AdminView 
           currentUser={currentUser}
@@ -794,13 +1791,32 @@ const App: React.FC = () => {
           tickets={tickets}
           counters={counters}
           systemSettings={systemSettings}
+          branches={branches}
+          activeBranchId={activeBranchId}
+          onSwitchBranch={handleSwitchBranch}
+          onAddBranch={handleAddBranch}
+          onUpdateBranch={handleUpdateBranch}
           onUpdateSettings={handleUpdateSettings}
           onAddUser={handleAddUser}
           onUpdateUser={handleUpdateUser}
+          onChangePassword={handleChangePassword}
           onDeleteUser={handleDeleteUser}
+          onIssuePasswordReset={handleIssuePasswordReset}
+          devices={devices}
+          onCreateDevicePairing={handleCreateDevicePairing}
+          onRevokeDevice={handleRevokeDevice}
           onAddService={handleAddService}
           onUpdateService={handleUpdateService}
           onDeleteService={handleDeleteService}
+          onUpdateCounter={handleUpdateCounter}
+          onAddCounter={handleAddCounter}
+          onReorderCounters={handleReorderCounters}
+          onFetchTicketEvents={handleFetchTicketEvents}
+          onFetchNotifications={handleFetchNotifications}
+          onRetryNotification={handleRetryNotification}
+          onFetchJobs={handleFetchJobs}
+          onFetchCustomerStats={handleFetchCustomerStats}
+          onDeleteCustomer={handleDeleteCustomer}
           onLogout={handleLogout}
           toggleTheme={handleToggleTheme}
           isDarkMode={isDarkMode}
@@ -813,8 +1829,11 @@ const App: React.FC = () => {
       return (
         <KioskView 
           services={services}
-          onJoinQueue={(n, s, p) => handleJoinQueue(n, s, p) as any}
+          tickets={tickets}
+          onJoinQueue={(n, s, p, e, c, r) => handleJoinQueue(n, s, p, e, c, r) as any}
           onCancelTicket={handleCancelTicket} 
+          onCheckInAppointment={handleCheckInAppointment}
+          onLookupCustomer={handleLookupCustomer}
           onLogout={handleLogout}
           toggleTheme={handleToggleTheme}
           isDarkMode={isDarkMode}
@@ -863,7 +1882,7 @@ const App: React.FC = () => {
                     <p className="text-slate-500 dark:text-slate-400 mb-10">Choose an available station to start serving customers.</p>
                     
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                        {counters.map(c => {
+                        {getActiveCounters(counters).map(c => {
                             const isOccupied = c.assignedStaffId && c.assignedStaffId !== currentUser.id;
                             return (
                                 <button
@@ -878,11 +1897,11 @@ const App: React.FC = () => {
                                         }
                                     `}
                                 >
-                                    <div className="text-2xl font-bold text-slate-800 dark:text-white mb-1">
-                                        {c.id}
+                                    <div className="text-xl font-bold text-slate-800 dark:text-white mb-1 truncate">
+                                        {c.label}
                                     </div>
                                     <div className="text-xs font-medium uppercase tracking-wider text-slate-400">
-                                        Counter
+                                        #{c.id}
                                     </div>
                                     {isOccupied ? (
                                         <div className="absolute inset-x-0 bottom-0 bg-slate-200 dark:bg-slate-800 py-1 text-[10px] font-bold text-slate-500">
@@ -912,6 +1931,9 @@ const App: React.FC = () => {
           systemSettings={systemSettings}
           onCallNext={handleCallNext}
           onUpdateStatus={handleUpdateTicketStatus}
+          onTransferTicket={handleTransferTicket}
+          onRecallTicket={handleRecallTicket}
+          onFetchCustomerHistory={handleFetchCustomerHistory}
           onToggleCounter={handleToggleCounter}
           onChangeCounter={handleStaffLeaveCounter}
           onLogout={handleLogout}
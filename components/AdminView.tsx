@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import QRCode from 'qrcode';
-import { User, ServiceDefinition, UserRole, Ticket, TicketStatus, SystemSettings, CounterState } from '../types';
-import { COLOR_THEMES } from '../constants';
+import { Branch, ChannelSettings, CustomerStats, Device, JobRun, JobStatus, NotificationChannel, NotificationEvent, NotificationRecord, NotificationStatus, NotificationTemplate, Permission, ScheduledJob, User, ServiceDefinition, UserRole, Ticket, TicketStatus, TicketEvent, TicketEventType, SystemSettings, CounterState, QueueMode, TicketPrintMode } from '../types';
+import { COLOR_THEMES, NOTIFICATION_MAX_ATTEMPTS, PASSWORD_MIN_LENGTH, ROLE_PERMISSIONS, SCHEDULED_JOBS, TEMPLATE_PLACEHOLDERS } from '../constants';
+import { getActiveCounters, getCounterLabel } from '../lib/counters';
+import { PasswordResetCode } from '../lib/passwordReset';
+import { DevicePairingCode, PAIRABLE_ROLES, getPairingUrl } from '../lib/devices';
+import { PERMISSION_LABELS, getUserPermissions, hasPermission } from '../lib/permissions';
+import { CHANNEL_LABELS, EVENT_LABELS, fillTemplate, getEnabledChannels } from '../lib/notifications';
 import { 
   Users, 
   Layers, 
@@ -35,9 +40,34 @@ import {
   Calendar,
   Globe,
   Database,
-  RotateCcw
+  RotateCcw,
+  Route,
+  ListOrdered,
+  History,
+  Search,
+  CalendarClock,
+  Building2,
+  ArrowUp,
+  ArrowDown,
+  Archive,
+  ArchiveRestore,
+  KeyRound,
+  MonitorSmartphone,
+  Ban,
+  Power,
+  ShieldHalf,
+  Bell,
+  RefreshCw,
+  FileText,
+  Timer,
+  Printer,
+  AlertTriangle,
+  UserCheck
 } from 'lucide-react';
 
+// Sample values for the message template previews
+const TEMPLATE_PREVIEW_VALUES = { name: 'John Doe', number: 'A042', service: 'Bill Payment', counter: 'Window 3', position: '3', eta: '12' };
+
 interface AdminViewProps {
   currentUser: User;
   users: User[];
@@ -45,13 +75,32 @@ interface AdminViewProps {
   tickets: Ticket[];
   counters: CounterState[];
   systemSettings: SystemSettings;
+  branches: Branch[];
+  activeBranchId: string;
+  onSwitchBranch: (branchId: string) => void;
+  onAddBranch: (branch: Omit<Branch, 'id'>) => void;
+  onUpdateBranch: (id: string, updates: Partial<Branch>) => void;
   onUpdateSettings: (settings: SystemSettings) => void;
   onAddUser: (user: Omit<User, 'id'>) => void;
   onUpdateUser: (id: string, updates: Partial<User>) => void;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
   onDeleteUser: (id: string) => void;
-  onAddService: (service: Omit<ServiceDefinition, 'id'>) => void;
+  onIssuePasswordReset: (userId: string) => Promise<PasswordResetCode | null>;
+  devices: Device[];
+  onCreateDevicePairing: (name: string, role: UserRole) => Promise<DevicePairingCode | null>;
+  onRevokeDevice: (deviceId: string) => void;
+  onAddService: (service: Omit<ServiceDefinition, 'id' | 'branchId'>) => void;
   onUpdateService: (id: string, updates: Partial<ServiceDefinition>) => void;
   onDeleteService: (id: string) => void;
+  onUpdateCounter: (id: number, updates: Partial<CounterState>) => void;
+  onAddCounter: (label: string) => void;
+  onReorderCounters: (orderedIds: number[]) => void;
+  onFetchTicketEvents: (ticketId: string) => Promise<TicketEvent[]>;
+  onFetchNotifications: () => Promise<NotificationRecord[]>;
+  onRetryNotification: (notificationId: string) => Promise<void>;
+  onFetchJobs: () => Promise<JobRun[]>;
+  onFetchCustomerStats: () => Promise<CustomerStats[]>;
+  onDeleteCustomer: (customerId: string) => Promise<boolean>;
   onLogout: () => void;
   toggleTheme: () => void;
   isDarkMode: boolean;
@@ -66,39 +115,104 @@ export const AdminView: React.FC<AdminViewProps> = ({
   tickets,
   counters,
   systemSettings,
+  branches,
+  activeBranchId,
+  onSwitchBranch,
+  onAddBranch,
+  onUpdateBranch,
   onUpdateSettings,
   onAddUser,
   onUpdateUser,
+  onChangePassword,
   onDeleteUser,
+  onIssuePasswordReset,
+  devices,
+  onCreateDevicePairing,
+  onRevokeDevice,
   onAddService,
   onUpdateService,
   onDeleteService,
+  onUpdateCounter,
+  onAddCounter,
+  onReorderCounters,
+  onFetchTicketEvents,
+  onFetchNotifications,
+  onRetryNotification,
+  onFetchJobs,
+  onFetchCustomerStats,
+  onDeleteCustomer,
   onLogout,
   toggleTheme,
   isDarkMode,
   onFullReset,
   onResetStats
 }) => {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'services' | 'users' | 'integrations' | 'profile'>('dashboard');
+  // Admins see every tab; supervisors and custom accounts only see what their permissions allow
+  const isAdmin = currentUser.role === UserRole.ADMIN;
+  const canManageServices = hasPermission(currentUser, Permission.MANAGE_SERVICES);
+  const canManageCounters = hasPermission(currentUser, Permission.MANAGE_COUNTERS);
+  const canManageUsers = hasPermission(currentUser, Permission.MANAGE_USERS);
+  const canViewReports = hasPermission(currentUser, Permission.VIEW_REPORTS);
+  const canResetQueue = hasPermission(currentUser, Permission.RESET_QUEUE);
+
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'services' | 'history' | 'customers' | 'notifications' | 'jobs' | 'users' | 'devices' | 'branches' | 'integrations' | 'profile'>(
+    canViewReports ? 'dashboard' : canManageCounters || canManageServices ? 'services' : 'profile'
+  );
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
   // Dashboard Widget State
   const [statusWidgetView, setStatusWidgetView] = useState<'counters' | 'staff'>('counters');
 
   // Service Form State
-  const [newService, setNewService] = useState({ name: '', prefix: '', colorTheme: 'blue', defaultWaitTime: 5 });
+  const [newService, setNewService] = useState({ name: '', prefix: '', colorTheme: 'blue', defaultWaitTime: 5, priority: 1, appointmentSlotMinutes: 0 });
   const [editingService, setEditingService] = useState<ServiceDefinition | null>(null);
 
+  // Counter Form State
+  const [newCounterLabel, setNewCounterLabel] = useState('');
+  const [editingCounter, setEditingCounter] = useState<{ id: number; label: string } | null>(null);
+
   // User Add Form State
   const [newUser, setNewUser] = useState({ username: '', password: '', name: '', role: UserRole.STAFF });
   const [isAddingUser, setIsAddingUser] = useState(false);
 
   // User Edit State
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [editFormData, setEditFormData] = useState({ name: '', username: '', role: UserRole.STAFF, password: '' });
+  const [editFormData, setEditFormData] = useState<{ name: string; username: string; role: UserRole; password: string; branchId: string; permissions: Permission[] | null }>({ name: '', username: '', role: UserRole.STAFF, password: '', branchId: '', permissions: null });
+
+  // Password Reset State (the code is only shown once)
+  const [issuedReset, setIssuedReset] = useState<(PasswordResetCode & { userName: string }) | null>(null);
+
+  // Device Pairing State
+  const [newDevice, setNewDevice] = useState({ name: '', role: UserRole.KIOSK });
+  const [issuedPairing, setIssuedPairing] = useState<(DevicePairingCode & { name: string; qrDataUrl: string }) | null>(null);
+
+  // Branch Form State
+  const [newBranch, setNewBranch] = useState({ name: '', address: '' });
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+
+  // Ticket History State
+  const [historySearch, setHistorySearch] = useState('');
+  const [selectedHistoryTicketId, setSelectedHistoryTicketId] = useState<string | null>(null);
+  const [ticketEvents, setTicketEvents] = useState<TicketEvent[]>([]);
+  const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+
+  // Notifications Panel State
+  const [notifications, setNotifications] = useState<NotificationRecord[]>([]);
+  const [notificationFilter, setNotificationFilter] = useState<NotificationStatus | 'ALL'>('ALL');
+  const [isLoadingNotifications, setIsLoadingNotifications] = useState(false);
+
+  // Customers Panel State
+  const [customerStats, setCustomerStats] = useState<CustomerStats[]>([]);
+  const [customerSearch, setCustomerSearch] = useState('');
+  const [isLoadingCustomers, setIsLoadingCustomers] = useState(false);
+
+  // Scheduled jobs state
+  const [jobRuns, setJobRuns] = useState<JobRun[]>([]);
+  const [isLoadingJobs, setIsLoadingJobs] = useState(false);
 
   // Settings Form State
   const [localSettings, setLocalSettings] = useState<SystemSettings>(systemSettings);
+  const [templateEvent, setTemplateEvent] = useState<NotificationEvent>(NotificationEvent.ISSUED);
 
   // QR Customization State
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -112,6 +226,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
   const [profileFormData, setProfileFormData] = useState({
     name: currentUser.name,
     username: currentUser.username,
+    currentPassword: '',
     password: ''
   });
 
@@ -120,6 +235,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
     setProfileFormData({
       name: currentUser.name,
       username: currentUser.username,
+      currentPassword: '',
       password: ''
     });
   }, [currentUser]);
@@ -129,6 +245,59 @@ export const AdminView: React.FC<AdminViewProps> = ({
     setLocalSettings(systemSettings);
   }, [systemSettings]);
 
+  // Load the timeline whenever a different ticket is selected
+  useEffect(() => {
+    if (!selectedHistoryTicketId) {
+      setTicketEvents([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingEvents(true);
+    onFetchTicketEvents(selectedHistoryTicketId).then(events => {
+      if (cancelled) return;
+      setTicketEvents(events);
+      setIsLoadingEvents(false);
+    });
+    return () => { cancelled = true; };
+  }, [selectedHistoryTicketId]);
+
+  // The worker updates the outbox server-side, so poll while the panel is open
+  const loadNotifications = async () => {
+    setIsLoadingNotifications(true);
+    setNotifications(await onFetchNotifications());
+    setIsLoadingNotifications(false);
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'notifications') return;
+    loadNotifications();
+    const interval = setInterval(loadNotifications, 15000);
+    return () => clearInterval(interval);
+  }, [activeTab, activeBranchId]);
+
+  const loadCustomers = async () => {
+    setIsLoadingCustomers(true);
+    setCustomerStats(await onFetchCustomerStats());
+    setIsLoadingCustomers(false);
+  };
+
+  useEffect(() => {
+    if (activeTab === 'customers') loadCustomers();
+  }, [activeTab, activeBranchId]);
+
+  const loadJobs = async () => {
+    setIsLoadingJobs(true);
+    setJobRuns(await onFetchJobs());
+    setIsLoadingJobs(false);
+  };
+
+  useEffect(() => {
+    if (activeTab !== 'jobs') return;
+    loadJobs();
+    const interval = setInterval(loadJobs, 15000);
+    return () => clearInterval(interval);
+  }, [activeTab]);
+
   // Close mobile menu when tab changes
   useEffect(() => {
     setIsMobileMenuOpen(false);
@@ -179,7 +348,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
             type: 'serve', 
             time: t.servedAt, 
             title: `Serving ${t.number}`, 
-            subtitle: `Counter ${t.counter}`,
+            subtitle: getCounterLabel(counters, t.counter),
             icon: Activity,
             color: 'text-amber-500 bg-amber-50 dark:bg-amber-900/20'
         });
@@ -224,7 +393,12 @@ export const AdminView: React.FC<AdminViewProps> = ({
   const getMobileEntryUrl = () => {
     if (localSettings.mobileEntryUrl) return localSettings.mobileEntryUrl;
     const baseUrl = typeof window !== 'undefined' ? window.location.href.split('?')[0] : 'http://localhost';
-    return `${baseUrl}?mode=mobile_entry`;
+    return `${baseUrl}?mode=mobile_entry&branch=${activeBranchId}`;
+  };
+
+  const getBookingUrl = () => {
+    const baseUrl = typeof window !== 'undefined' ? window.location.href.split('?')[0] : 'http://localhost';
+    return `${baseUrl}?mode=booking&branch=${activeBranchId}`;
   };
 
   const handleDownloadQR = () => {
@@ -327,8 +501,44 @@ export const AdminView: React.FC<AdminViewProps> = ({
     };
   }, [activeTab, localSettings.mobileEntryUrl, qrSize, qrEcc, qrLogo]);
 
+  const updateChannelSettings = (channel: NotificationChannel, updates: Partial<ChannelSettings>) => {
+    setLocalSettings({
+      ...localSettings,
+      notificationChannels: {
+        ...localSettings.notificationChannels,
+        [channel]: { ...localSettings.notificationChannels[channel], ...updates }
+      }
+    });
+  };
+
+  const updateTemplate = (event: NotificationEvent, updates: Partial<NotificationTemplate>) => {
+    setLocalSettings({
+      ...localSettings,
+      notificationTemplates: {
+        ...localSettings.notificationTemplates,
+        [event]: { ...localSettings.notificationTemplates[event], ...updates }
+      }
+    });
+  };
+
+  const moveFallbackChannel = (index: number, direction: -1 | 1) => {
+    const order = [...localSettings.channelFallbackOrder];
+    [order[index], order[index + direction]] = [order[index + direction], order[index]];
+    setLocalSettings({ ...localSettings, channelFallbackOrder: order });
+  };
+
   const handleSaveSettings = (e: React.FormEvent) => {
     e.preventDefault();
+    try {
+      new Intl.DateTimeFormat(undefined, { timeZone: localSettings.timeZone });
+    } catch {
+      alert(`"${localSettings.timeZone}" is not a known time zone. Use a name like Europe/London.`);
+      return;
+    }
+    if (localSettings.endOfDayCloseOut && !localSettings.timeZone) {
+      alert('Set the time zone before closing out tickets at the end of the day.');
+      return;
+    }
     onUpdateSettings(localSettings);
     alert('Settings saved successfully!');
   };
@@ -337,7 +547,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
     e.preventDefault();
     if (newService.name && newService.prefix) {
       onAddService(newService);
-      setNewService({ name: '', prefix: '', colorTheme: 'blue', defaultWaitTime: 5 });
+      setNewService({ name: '', prefix: '', colorTheme: 'blue', defaultWaitTime: 5, priority: 1, appointmentSlotMinutes: 0 });
     }
   };
 
@@ -353,10 +563,50 @@ export const AdminView: React.FC<AdminViewProps> = ({
     }
   }
 
+  // A service is either primary or fallback for a counter, never both
+  const handleToggleCounterService = (counter: CounterState, serviceId: string, list: 'primary' | 'fallback') => {
+    const serviceIds = counter.serviceIds.filter(id => id !== serviceId);
+    const fallbackServiceIds = counter.fallbackServiceIds.filter(id => id !== serviceId);
+    if (list === 'primary' && !counter.serviceIds.includes(serviceId)) serviceIds.push(serviceId);
+    if (list === 'fallback' && !counter.fallbackServiceIds.includes(serviceId)) fallbackServiceIds.push(serviceId);
+    onUpdateCounter(counter.id, { serviceIds, fallbackServiceIds });
+  };
+
+  const activeCounters = getActiveCounters(counters);
+  const retiredCounters = counters.filter(c => c.isRetired);
+
+  const handleCreateCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCounterLabel.trim()) return;
+    onAddCounter(newCounterLabel.trim());
+    setNewCounterLabel('');
+  };
+
+  const handleSaveCounter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingCounter || !editingCounter.label.trim()) return;
+    onUpdateCounter(editingCounter.id, { label: editingCounter.label.trim() });
+    setEditingCounter(null);
+  };
+
+  const handleMoveCounter = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= activeCounters.length) return;
+    const ordered = activeCounters.map(c => c.id);
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    // Retired counters keep their place at the end so sort orders stay unique
+    onReorderCounters([...ordered, ...retiredCounters.map(c => c.id)]);
+  };
+
+  // A retired counter is closed so it stops calling tickets; restoring reopens it
+  const handleToggleCounterRetired = (counter: CounterState) => {
+    onUpdateCounter(counter.id, { isRetired: !counter.isRetired, isOpen: counter.isRetired });
+  };
+
   const handleCreateUser = (e: React.FormEvent) => {
     e.preventDefault();
     if (newUser.username && newUser.password && newUser.name) {
-      onAddUser(newUser);
+      onAddUser({ ...newUser, branchId: activeBranchId });
       setNewUser({ username: '', password: '', name: '', role: UserRole.STAFF });
       setIsAddingUser(false);
     }
@@ -368,7 +618,9 @@ export const AdminView: React.FC<AdminViewProps> = ({
         name: user.name,
         username: user.username,
         role: user.role,
-        password: ''
+        password: '',
+        branchId: user.branchId || '',
+        permissions: user.permissions ?? null
     });
   };
 
@@ -378,27 +630,55 @@ export const AdminView: React.FC<AdminViewProps> = ({
     const updates: Partial<User> = {
         name: editFormData.name,
         username: editFormData.username,
-        role: editFormData.role
+        role: editFormData.role,
+        // Only admins may roam all branches; everyone else needs a home branch
+        branchId: editFormData.branchId || (editFormData.role === UserRole.ADMIN ? undefined : activeBranchId)
     };
     if (editFormData.password.trim() !== '') {
         updates.password = editFormData.password;
     }
+    // Only admins hand out custom permissions; null falls back to the role preset
+    if (isAdmin) {
+        updates.permissions = editFormData.role === UserRole.ADMIN ? undefined : editFormData.permissions ?? undefined;
+    }
     onUpdateUser(editingUser.id, updates);
     setEditingUser(null);
   };
 
-  const handleUpdateProfile = (e: React.FormEvent) => {
+  const handleCreateBranch = (e: React.FormEvent) => {
     e.preventDefault();
-    const updates: Partial<User> = {
+    if (!newBranch.name.trim()) return;
+    onAddBranch({ name: newBranch.name.trim(), address: newBranch.address.trim() || undefined });
+    setNewBranch({ name: '', address: '' });
+  };
+
+  const handleSaveBranch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingBranch || !editingBranch.name.trim()) return;
+    onUpdateBranch(editingBranch.id, { name: editingBranch.name.trim(), address: editingBranch.address?.trim() || '' });
+    setEditingBranch(null);
+  };
+
+  const getBranchName = (branchId?: string) =>
+    branchId ? (branches.find(b => b.id === branchId)?.name || 'Unknown branch') : 'All branches';
+
+  // Users bound to this branch, plus admins who roam every branch; paired screens are listed under Devices
+  const deviceUserIds = new Set(devices.map(d => d.userId));
+  const branchUsers = users.filter(u => (u.branchId === activeBranchId || !u.branchId) && !deviceUserIds.has(u.id));
+  const branchDevices = devices.filter(d => d.branchId === activeBranchId);
+
+  const handleUpdateProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    onUpdateUser(currentUser.id, {
       name: profileFormData.name,
       username: profileFormData.username
-    };
-    if (profileFormData.password.trim() !== '') {
-      updates.password = profileFormData.password;
+    });
+    if (profileFormData.password.trim() !== '' && !(await onChangePassword(profileFormData.currentPassword, profileFormData.password))) {
+      alert('Profile updated, but your password was not changed: the current password is incorrect');
+      return;
     }
-    onUpdateUser(currentUser.id, updates);
     alert('Profile updated successfully');
-    setProfileFormData(prev => ({ ...prev, password: '' }));
+    setProfileFormData(prev => ({ ...prev, currentPassword: '', password: '' }));
   };
   
   const onDeleteUserConfirm = (id: string) => {
@@ -407,21 +687,137 @@ export const AdminView: React.FC<AdminViewProps> = ({
     }
   }
 
+  // Only admins may change admin accounts
+  const canEditUser = (user: User) => isAdmin || user.role !== UserRole.ADMIN;
+
+  const toggleEditPermission = (permission: Permission) => {
+    const current = editFormData.permissions ?? ROLE_PERMISSIONS[editFormData.role];
+    const permissions = current.includes(permission) ? current.filter(p => p !== permission) : [...current, permission];
+    setEditFormData({ ...editFormData, permissions });
+  };
+
+  const onForceResetConfirm = async (user: User) => {
+    if (!window.confirm(`Reset the password for ${user.name}? Their current password stops working immediately and they will be signed out.`)) return;
+    const reset = await onIssuePasswordReset(user.id);
+    if (reset) {
+        setIssuedReset({ ...reset, userName: user.name });
+    } else {
+        alert('Could not issue a reset code. Please try again.');
+    }
+  }
+
+  const handleCreateDevicePairing = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newDevice.name.trim();
+    if (!name) return;
+    const pairing = await onCreateDevicePairing(name, newDevice.role);
+    if (!pairing) {
+        alert('Could not create a pairing code. Please try again.');
+        return;
+    }
+    const qrDataUrl = await QRCode.toDataURL(getPairingUrl(pairing.code), { width: 240, margin: 1 });
+    setIssuedPairing({ ...pairing, name, qrDataUrl });
+    setNewDevice({ name: '', role: newDevice.role });
+  };
+
+  const onRevokeDeviceConfirm = (device: Device) => {
+    if (window.confirm(`Revoke ${device.name}? The screen is signed out immediately and must be paired again to be used.`)) {
+        onRevokeDevice(device.id);
+    }
+  }
+
   const onDeleteServiceConfirm = (id: string) => {
      if(window.confirm('Are you sure? This will affect existing tickets.')) {
          onDeleteService(id);
      }
   }
 
+  const filteredNotifications = notificationFilter === 'ALL'
+    ? notifications
+    : notifications.filter(n => n.status === notificationFilter);
+
+  const getNotificationStatusColor = (status: NotificationStatus) => {
+    switch (status) {
+      case NotificationStatus.SENT: return 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400';
+      case NotificationStatus.DELIVERED: return 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400';
+      case NotificationStatus.FAILED: return 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400';
+      default: return 'bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400';
+    }
+  };
+
+  const getJobStatusColor = (status?: JobStatus) => {
+    switch (status) {
+      case JobStatus.OK: return 'bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400';
+      case JobStatus.FAILED: return 'bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400';
+      case JobStatus.RUNNING: return 'bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400';
+      default: return 'bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-400';
+    }
+  };
+
   const getRoleIcon = (role: UserRole) => {
     switch (role) {
       case UserRole.ADMIN: return <Shield className="w-4 h-4 text-purple-500" />;
+      case UserRole.SUPERVISOR: return <ShieldHalf className="w-4 h-4 text-indigo-500" />;
       case UserRole.STAFF: return <UserIcon className="w-4 h-4 text-blue-500" />;
       case UserRole.DISPLAY: return <Monitor className="w-4 h-4 text-emerald-500" />;
       case UserRole.KIOSK: return <Smartphone className="w-4 h-4 text-amber-500" />;
     }
   };
 
+  // --- Ticket History Helpers ---
+  const historyTickets = useMemo(() => {
+    const query = historySearch.trim().toLowerCase();
+    return [...tickets]
+      .filter(t => !query
+        || t.number.toLowerCase().includes(query)
+        || (t.name || '').toLowerCase().includes(query)
+        || (t.phone || '').includes(query))
+      .sort((a, b) => b.joinedAt - a.joinedAt);
+  }, [tickets, historySearch]);
+
+  const selectedHistoryTicket = tickets.find(t => t.id === selectedHistoryTicketId);
+
+  const filteredCustomers = useMemo(() => {
+    const query = customerSearch.trim().toLowerCase();
+    return customerStats.filter(c => !query || c.name.toLowerCase().includes(query) || c.phone.includes(query));
+  }, [customerStats, customerSearch]);
+
+  const handleDeleteCustomer = async (customer: CustomerStats) => {
+    if (!window.confirm(`Delete all saved data for ${customer.name}? Their details are removed and their past tickets are anonymised. This cannot be undone.`)) return;
+    if (await onDeleteCustomer(customer.id)) {
+      setCustomerStats(prev => prev.filter(c => c.id !== customer.id));
+    } else {
+      alert('Could not delete the customer data. Please try again.');
+    }
+  };
+
+  const getEventColor = (type: TicketEventType) => {
+    switch (type) {
+      case TicketEventType.ISSUED: return 'bg-blue-500';
+      case TicketEventType.CALLED: return 'bg-emerald-500';
+      case TicketEventType.RECALLED: return 'bg-amber-500';
+      case TicketEventType.TRANSFERRED: return 'bg-purple-500';
+      case TicketEventType.REOPENED: return 'bg-sky-500';
+      case TicketEventType.COMPLETED: return 'bg-green-600';
+      default: return 'bg-red-500';
+    }
+  };
+
+  const describeTicketEvent = (event: TicketEvent) => {
+    const serviceName = (id?: string) => services.find(s => s.id === id)?.name || 'Unknown service';
+    switch (event.type) {
+      case TicketEventType.ISSUED: return `Issued for ${serviceName(event.payload?.serviceId)}`;
+      case TicketEventType.CALLED: return 'Called to counter';
+      case TicketEventType.RECALLED: return `Recalled (attempt ${event.payload?.recallCount ?? '?'})`;
+      case TicketEventType.TRANSFERRED:
+        return `Transferred to ${serviceName(event.payload?.toServiceId)}${event.payload?.toCounter ? ` (${getCounterLabel(counters, event.payload.toCounter)})` : ''}`;
+      case TicketEventType.REOPENED: return 'Returned to queue';
+      case TicketEventType.COMPLETED: return 'Service completed';
+      case TicketEventType.NO_SHOW: return 'Marked as no-show';
+      case TicketEventType.CANCELLED: return 'Cancelled';
+    }
+  };
+
   const getMaxTicketCount = () => {
       const counts = services.map(s => getServiceStats(s.id).total);
       return Math.max(...counts, 1);
@@ -481,7 +877,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
         <div className="p-6 border-b border-slate-800 flex justify-between items-center">
           <h2 className="text-xl font-bold flex items-center gap-2">
             <span className="bg-blue-600 rounded-lg w-8 h-8 flex items-center justify-center">Q</span>
-            Admin
+            {isAdmin ? 'Admin' : 'Supervisor'}
           </h2>
            <button 
              onClick={toggleTheme}
@@ -490,16 +886,38 @@ export const AdminView: React.FC<AdminViewProps> = ({
               {isDarkMode ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
            </button>
         </div>
+
+        {/* Branch Switcher (supervisors stay in their own branch) */}
+        {isAdmin && (
+        <div className="px-4 pt-4">
+          <label className="block text-[10px] font-semibold uppercase tracking-wider text-slate-500 mb-1 px-1">Branch</label>
+          <div className="relative">
+            <Building2 className="absolute left-3 top-2.5 w-4 h-4 text-slate-400 pointer-events-none" />
+            <select
+              value={activeBranchId}
+              onChange={e => onSwitchBranch(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              {branches.map(branch => (
+                <option key={branch.id} value={branch.id}>{branch.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        )}
         
         <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
           {/* ... (Nav buttons remain same) ... */}
-           <button 
+          {canViewReports && (
+          <button 
             onClick={() => setActiveTab('dashboard')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'dashboard' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
           >
             <LayoutGrid className="w-5 h-5" />
             Dashboard
           </button>
+          )}
+          {(canManageServices || canManageCounters) && (
           <button 
             onClick={() => setActiveTab('services')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'services' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
@@ -507,6 +925,44 @@ export const AdminView: React.FC<AdminViewProps> = ({
             <Layers className="w-5 h-5" />
             Services & Queues
           </button>
+          )}
+          {canViewReports && (
+          <button 
+            onClick={() => setActiveTab('history')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'history' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <History className="w-5 h-5" />
+            Ticket History
+          </button>
+          )}
+          {canViewReports && (
+          <button 
+            onClick={() => setActiveTab('customers')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'customers' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <UserCheck className="w-5 h-5" />
+            Customers
+          </button>
+          )}
+          {canViewReports && (
+          <button 
+            onClick={() => setActiveTab('notifications')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'notifications' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <Bell className="w-5 h-5" />
+            Notifications
+          </button>
+          )}
+          {isAdmin && (
+          <button 
+            onClick={() => setActiveTab('jobs')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'jobs' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <Timer className="w-5 h-5" />
+            Scheduled Jobs
+          </button>
+          )}
+          {canManageUsers && (
           <button 
             onClick={() => setActiveTab('users')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'users' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
@@ -514,6 +970,26 @@ export const AdminView: React.FC<AdminViewProps> = ({
             <Users className="w-5 h-5" />
             User Management
           </button>
+          )}
+          {isAdmin && (
+          <button 
+            onClick={() => setActiveTab('devices')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'devices' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <MonitorSmartphone className="w-5 h-5" />
+            Devices
+          </button>
+          )}
+          {isAdmin && (
+          <button 
+            onClick={() => setActiveTab('branches')}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'branches' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
+          >
+            <Building2 className="w-5 h-5" />
+            Branches
+          </button>
+          )}
+          {(isAdmin || canResetQueue) && (
           <button 
             onClick={() => setActiveTab('integrations')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'integrations' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
@@ -521,6 +997,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
             <QrCode className="w-5 h-5" />
             Integrations
           </button>
+          )}
           <button 
             onClick={() => setActiveTab('profile')}
             className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-colors ${activeTab === 'profile' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/50' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}
@@ -533,11 +1010,11 @@ export const AdminView: React.FC<AdminViewProps> = ({
         <div className="p-4 border-t border-slate-800">
           <div className="flex items-center gap-3 mb-4 px-2">
             <div className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center font-bold text-xs text-white">
-              AD
+              {isAdmin ? 'AD' : 'SV'}
             </div>
             <div className="overflow-hidden">
               <p className="text-sm font-medium truncate text-white">{currentUser.name}</p>
-              <p className="text-xs text-slate-500 truncate">Administrator</p>
+              <p className="text-xs text-slate-500 truncate">{isAdmin ? 'Administrator' : 'Shift Supervisor'}</p>
             </div>
           </div>
           <button 
@@ -728,7 +1205,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             
                             {statusWidgetView === 'counters' && (
                                 <div className="space-y-3 flex-1 overflow-y-auto pr-1">
-                                    {counters.map(counter => {
+                                    {activeCounters.map(counter => {
                                         const isStaffed = !!counter.assignedStaffId;
                                         const staffName = users.find(u => u.id === counter.assignedStaffId)?.name || 'Unknown';
                                         
@@ -743,7 +1220,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                                         {counter.id}
                                                     </div>
                                                     <div>
-                                                        <p className="text-sm font-bold text-slate-700 dark:text-slate-200">Counter {counter.id}</p>
+                                                        <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{counter.label}</p>
                                                         <p className="text-xs text-slate-400 flex items-center gap-1">
                                                             {counter.isOpen 
                                                                 ? (isStaffed ? <><span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> {staffName}</> : <><span className="w-1.5 h-1.5 rounded-full bg-amber-500"></span> Unstaffed</>) 
@@ -780,7 +1257,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                                         <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{staff.name}</p>
                                                         <p className="text-xs text-slate-400 flex items-center gap-1">
                                                             {isActive 
-                                                                ? <><span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> Online (Counter {assignment.id})</>
+                                                                ? <><span className="w-1.5 h-1.5 rounded-full bg-green-500"></span> Online ({assignment.label})</>
                                                                 : <><span className="w-1.5 h-1.5 rounded-full bg-slate-400"></span> Offline / Idle</>
                                                             }
                                                         </p>
@@ -811,6 +1288,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                 </div>
 
                 {/* NEW: Data Management Section */}
+                {canResetQueue && (
                 <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
                     <div className="flex items-center gap-3 mb-6 pb-4 border-b border-slate-100 dark:border-slate-700">
                         <div className="p-2 bg-rose-100 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400 rounded-lg">
@@ -854,7 +1332,10 @@ export const AdminView: React.FC<AdminViewProps> = ({
                         </div>
                     </div>
                 </div>
+                )}
 
+                {isAdmin && (
+                <>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                     {/* Shop Timing Config */}
                     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 md:col-span-2">
@@ -909,6 +1390,57 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                 </label>
                             </div>
                         </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end mt-6">
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Time Zone</label>
+                                <input 
+                                    type="text" 
+                                    value={localSettings.timeZone || ''}
+                                    onChange={(e) => setLocalSettings({...localSettings, timeZone: e.target.value.trim() || undefined})}
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-amber-500 outline-none"
+                                    placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone || 'Europe/London'}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Archive History After (days)</label>
+                                <input 
+                                    type="number" 
+                                    min="0"
+                                    value={localSettings.archiveAfterDays}
+                                    onChange={(e) => setLocalSettings({...localSettings, archiveAfterDays: parseInt(e.target.value) || 0})}
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-amber-500 outline-none"
+                                />
+                            </div>
+                            <div className="flex items-center gap-3 pb-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input 
+                                        type="checkbox"
+                                        checked={localSettings.operatingHours?.autoClose ?? false}
+                                        disabled={!(localSettings.operatingHours?.enabled ?? true)}
+                                        onChange={(e) => setLocalSettings({
+                                            ...localSettings, 
+                                            operatingHours: { ...localSettings.operatingHours, autoClose: e.target.checked }
+                                        })}
+                                        className="w-4 h-4 text-amber-600 border-slate-300 rounded focus:ring-amber-500"
+                                    />
+                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Close Idle Counters After Hours</span>
+                                </label>
+                            </div>
+                            <div className="flex items-center gap-3 pb-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input 
+                                        type="checkbox"
+                                        checked={localSettings.endOfDayCloseOut}
+                                        disabled={!localSettings.timeZone}
+                                        onChange={(e) => setLocalSettings({...localSettings, endOfDayCloseOut: e.target.checked})}
+                                        className="w-4 h-4 text-amber-600 border-slate-300 rounded focus:ring-amber-500"
+                                    />
+                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Close Out Tickets From Earlier Days</span>
+                                </label>
+                            </div>
+                        </div>
+                        <p className="text-xs text-slate-400 mt-2">The time zone sets when the branch's day ends; until it is set, after-hours and end-of-day jobs leave the branch alone. When turned on, tickets left open from an earlier day are closed out (waiting ones cancelled). Finished tickets move to the archive after the set number of days (0 = never).</p>
                     </div>
 
                     {/* QR Code Section */}
@@ -1069,19 +1601,114 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                         <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${localSettings.allowMobileEntry ? 'bg-indigo-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
                                     </div>
                                 </label>
+
+                                <label className="flex items-center justify-between cursor-pointer group p-3 rounded-lg border border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition">
+                                    <div>
+                                        <span className="block text-sm font-medium text-slate-800 dark:text-white">Enable Appointments</span>
+                                        <span className="block text-xs text-slate-500">Online booking page and kiosk check-in</span>
+                                    </div>
+                                    <div className="relative inline-block w-10 h-6 align-middle select-none transition duration-200 ease-in">
+                                        <input 
+                                            type="checkbox" 
+                                            checked={localSettings.allowAppointments}
+                                            onChange={(e) => setLocalSettings({...localSettings, allowAppointments: e.target.checked})}
+                                            className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer border-slate-300 checked:right-0 checked:border-indigo-600 checked:bg-indigo-600 right-4"
+                                        />
+                                        <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${localSettings.allowAppointments ? 'bg-indigo-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
+                                    </div>
+                                </label>
+                                {localSettings.allowAppointments && (
+                                    <a 
+                                        href={getBookingUrl()}
+                                        target="_blank"
+                                        rel="noreferrer"
+                                        className="py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-600 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                                    >
+                                        <CalendarClock className="w-4 h-4" /> Open Booking Page
+                                    </a>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Ticket Printing Section */}
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 md:col-span-2">
+                        <div className="flex items-center gap-3 mb-6 pb-4 border-b border-slate-100 dark:border-slate-700">
+                            <div className="p-2 bg-sky-100 dark:bg-sky-900/20 text-sky-600 dark:text-sky-400 rounded-lg">
+                                <Printer className="w-6 h-6" />
+                            </div>
+                            <div>
+                                <h3 className="font-bold text-slate-800 dark:text-white">Kiosk Ticket Printing</h3>
+                                <p className="text-xs text-slate-500">Paper tickets with the number, place in line and a tracking QR code</p>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Printer</label>
+                                <select
+                                    value={localSettings.ticketPrinting.mode}
+                                    onChange={e => setLocalSettings({ ...localSettings, ticketPrinting: { ...localSettings.ticketPrinting, mode: e.target.value as TicketPrintMode } })}
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                                >
+                                    <option value="off">No printing</option>
+                                    <option value="browser">Browser print dialog</option>
+                                    <option value="escpos">Thermal printer (ESC/POS bridge)</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Paper Width</label>
+                                <select
+                                    value={localSettings.ticketPrinting.paperWidth}
+                                    disabled={localSettings.ticketPrinting.mode === 'off'}
+                                    onChange={e => setLocalSettings({ ...localSettings, ticketPrinting: { ...localSettings.ticketPrinting, paperWidth: Number(e.target.value) as 58 | 80 } })}
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm disabled:opacity-50"
+                                >
+                                    <option value={58}>58 mm</option>
+                                    <option value={80}>80 mm</option>
+                                </select>
+                            </div>
+                            <div className="flex items-center gap-3 pb-2">
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={localSettings.ticketPrinting.autoPrint}
+                                        disabled={localSettings.ticketPrinting.mode === 'off'}
+                                        onChange={e => setLocalSettings({ ...localSettings, ticketPrinting: { ...localSettings.ticketPrinting, autoPrint: e.target.checked } })}
+                                        className="w-4 h-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                    />
+                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Print Automatically</span>
+                                </label>
                             </div>
                         </div>
+
+                        {localSettings.ticketPrinting.mode === 'escpos' && (
+                            <div className="mt-6">
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Print Bridge URL</label>
+                                <input
+                                    type="text"
+                                    value={localSettings.ticketPrinting.bridgeUrl}
+                                    onChange={e => setLocalSettings({ ...localSettings, ticketPrinting: { ...localSettings.ticketPrinting, bridgeUrl: e.target.value } })}
+                                    placeholder="http://localhost:9123"
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm font-mono focus:ring-2 focus:ring-sky-500 outline-none"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Run <code>npm run print-bridge</code> on each kiosk computer, with <code>PRINT_BRIDGE_ORIGIN</code> set to {window.location.origin}; it passes tickets on to the printer.</p>
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-400 mt-4">
+                            Automatic printing with the browser dialog needs the kiosk browser started in kiosk-printing mode (e.g. Chrome with <code>--kiosk-printing</code>); otherwise each ticket asks for confirmation.
+                        </p>
                     </div>
 
-                    {/* WhatsApp Config Section */}
+                    {/* Notification Channels Section */}
                     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 md:col-span-2">
                         <div className="flex items-center gap-3 mb-6 pb-4 border-b border-slate-100 dark:border-slate-700">
                             <div className="p-2 bg-emerald-100 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 rounded-lg">
                                 <MessageSquare className="w-6 h-6" />
                             </div>
                             <div>
-                                <h3 className="font-bold text-slate-800 dark:text-white">WhatsApp & Communication</h3>
-                                <p className="text-xs text-slate-500">Configure messaging and region settings</p>
+                                <h3 className="font-bold text-slate-800 dark:text-white">Notifications & Communication</h3>
+                                <p className="text-xs text-slate-500">Configure WhatsApp, SMS and email messages and region settings</p>
                             </div>
                         </div>
 
@@ -1102,82 +1729,198 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                 <p className="text-xs text-slate-400 mt-1">This code will be pre-filled on the kiosk screen.</p>
                             </div>
 
-                             <div>
-                                <label className="flex items-center justify-between cursor-pointer group mb-4">
-                                    <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Enable WhatsApp Feature</span>
-                                    <div className="relative inline-block w-10 h-6 align-middle select-none transition duration-200 ease-in">
-                                        <input 
-                                            type="checkbox" 
-                                            checked={localSettings.whatsappEnabled}
-                                            onChange={(e) => setLocalSettings({...localSettings, whatsappEnabled: e.target.checked})}
-                                            className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer border-slate-300 checked:right-0 checked:border-emerald-500 checked:bg-emerald-500 right-4"
-                                        />
-                                        <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${localSettings.whatsappEnabled ? 'bg-emerald-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
-                                    </div>
-                                </label>
-                                
-                                <label className="flex items-center justify-between cursor-pointer group mb-4 p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg border border-slate-100 dark:border-slate-700">
+                            <div className="space-y-4">
+                                {Object.values(NotificationChannel).map(channel => {
+                                    const channelSettings = localSettings.notificationChannels[channel];
+                                    return (
+                                        <div key={channel} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-4">
+                                            <label className="flex items-center justify-between cursor-pointer">
+                                                <span className="text-sm font-bold text-slate-800 dark:text-white">{CHANNEL_LABELS[channel]}</span>
+                                                <div className="relative inline-block w-10 h-6 align-middle select-none transition duration-200 ease-in">
+                                                <input 
+                                                    type="checkbox" 
+                                                    checked={channelSettings.enabled}
+                                                    onChange={(e) => updateChannelSettings(channel, { enabled: e.target.checked })}
+                                                    className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer border-slate-300 checked:right-0 checked:border-emerald-500 checked:bg-emerald-500 right-4"
+                                                />
+                                                <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${channelSettings.enabled ? 'bg-emerald-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
+                                            </div>
+                                            </label>
+
+                                            {channelSettings.enabled && channel === NotificationChannel.WHATSAPP && (
+                                                <div>
+                                                    <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">WhatsApp API Key</label>
+                                                    <div className="relative">
+                                                        <Key className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                                                        <input
+                                                            type="password"
+                                                            value={localSettings.whatsappApiKey || ''}
+                                                            onChange={(e) => setLocalSettings({...localSettings, whatsappApiKey: e.target.value})}
+                                                            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                                                            placeholder={localSettings.whatsappApiKeySet ? "Key saved. Enter a new one to replace it" : "Enter API Key provided by your backend/provider"}
+                                                        />
+                                                    </div>
+                                                    <p className="text-xs text-slate-400 mt-1">Optional branch key for the WhatsApp Cloud API. Stored server-side and never shown again.</p>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Fallback Order</label>
+                                <p className="text-xs text-slate-400 mb-2">When the customer's chosen channel fails, the next enabled channel they gave details for is tried.</p>
+                                <div className="rounded-lg border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                                    {localSettings.channelFallbackOrder.map((channel, index) => (
+                                        <div key={channel} className={`px-3 py-2 flex items-center justify-between text-sm ${localSettings.notificationChannels[channel].enabled ? 'text-slate-800 dark:text-white' : 'text-slate-400'}`}>
+                                            <span>{index + 1}. {CHANNEL_LABELS[channel]}{!localSettings.notificationChannels[channel].enabled && ' (disabled)'}</span>
+                                            <div className="flex gap-1">
+                                                <button type="button" onClick={() => moveFallbackChannel(index, -1)} disabled={index === 0} className="p-1 rounded text-slate-400 hover:text-slate-700 dark:hover:text-white disabled:opacity-30">
+                                                    <ArrowUp className="w-4 h-4" />
+                                                </button>
+                                                <button type="button" onClick={() => moveFallbackChannel(index, 1)} disabled={index === localSettings.channelFallbackOrder.length - 1} className="p-1 rounded text-slate-400 hover:text-slate-700 dark:hover:text-white disabled:opacity-30">
+                                                    <ArrowDown className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </form>
+                    </div>
+
+                    {/* Message Templates Section */}
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6 md:col-span-2">
+                        <div className="flex items-center gap-3 mb-6 pb-4 border-b border-slate-100 dark:border-slate-700">
+                            <div className="p-2 bg-emerald-100 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400 rounded-lg">
+                                <FileText className="w-6 h-6" />
+                            </div>
+                            <div>
+                                <h3 className="font-bold text-slate-800 dark:text-white">Message Templates</h3>
+                                <p className="text-xs text-slate-500">What customers receive at each step of their visit, per channel</p>
+                            </div>
+                        </div>
+
+                        <div className="flex flex-col md:flex-row gap-6">
+                            <div className="md:w-56 flex md:flex-col gap-1 overflow-x-auto shrink-0">
+                                {Object.values(NotificationEvent).map(event => (
+                                    <button
+                                        key={event}
+                                        type="button"
+                                        onClick={() => setTemplateEvent(event)}
+                                        className={`px-3 py-2 rounded-lg text-sm text-left whitespace-nowrap flex items-center justify-between gap-2 transition-colors ${templateEvent === event ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 font-bold' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                                    >
+                                        {EVENT_LABELS[event].label}
+                                        {localSettings.notificationTemplates[event].enabled && <span className="w-2 h-2 rounded-full bg-emerald-500" title="Sent automatically" />}
+                                    </button>
+                                ))}
+                            </div>
+
+                            <div className="flex-1 space-y-4">
+                                <label className="flex items-center justify-between cursor-pointer group p-3 bg-slate-50 dark:bg-slate-700/50 rounded-lg border border-slate-100 dark:border-slate-700">
                                     <div>
-                                        <span className="block text-sm font-medium text-slate-800 dark:text-white">Automatic 15-Min Warning</span>
-                                        <span className="block text-xs text-slate-500">Automatically send text when estimated wait is ~15m</span>
+                                        <span className="block text-sm font-medium text-slate-800 dark:text-white">Send Automatically</span>
+                                        <span className="block text-xs text-slate-500">{EVENT_LABELS[templateEvent].description}</span>
                                     </div>
                                     <div className="relative inline-block w-10 h-6 align-middle select-none transition duration-200 ease-in">
                                         <input 
                                             type="checkbox" 
-                                            checked={localSettings.autoNotify15m}
-                                            onChange={(e) => setLocalSettings({...localSettings, autoNotify15m: e.target.checked})}
+                                            checked={localSettings.notificationTemplates[templateEvent].enabled}
+                                            onChange={(e) => updateTemplate(templateEvent, { enabled: e.target.checked })}
                                             className="toggle-checkbox absolute block w-6 h-6 rounded-full bg-white border-4 appearance-none cursor-pointer border-slate-300 checked:right-0 checked:border-emerald-500 checked:bg-emerald-500 right-4"
                                         />
-                                        <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${localSettings.autoNotify15m ? 'bg-emerald-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
+                                        <label className={`toggle-label block overflow-hidden h-6 rounded-full cursor-pointer ${localSettings.notificationTemplates[templateEvent].enabled ? 'bg-emerald-200' : 'bg-slate-200 dark:bg-slate-600'}`}></label>
                                     </div>
                                 </label>
 
-                                <div className="space-y-4">
-                                    <div>
-                                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">WhatsApp API Key</label>
-                                        <div className="relative">
-                                            <Key className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                                {templateEvent === NotificationEvent.APPROACHING && (
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">At Place in Line</label>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={localSettings.notifyAtPosition}
+                                                onChange={(e) => setLocalSettings({...localSettings, notifyAtPosition: Math.max(0, parseInt(e.target.value) || 0)})}
+                                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                                            />
+                                            <p className="text-xs text-slate-400 mt-1">Within their own service (0 = off)</p>
+                                        </div>
+                                        <div>
+                                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Or Wait Within (min)</label>
                                             <input
-                                                type="password"
-                                                value={localSettings.whatsappApiKey || ''}
-                                                onChange={(e) => setLocalSettings({...localSettings, whatsappApiKey: e.target.value})}
-                                                className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
-                                                placeholder="Enter API Key provided by your backend/provider"
+                                                type="number"
+                                                min="0"
+                                                value={localSettings.notifyWithinMinutes}
+                                                onChange={(e) => setLocalSettings({...localSettings, notifyWithinMinutes: Math.max(0, parseInt(e.target.value) || 0)})}
+                                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
                                             />
+                                            <p className="text-xs text-slate-400 mt-1">Same estimate as the display screen (0 = off)</p>
                                         </div>
-                                        <p className="text-xs text-slate-400 mt-1">Required for automatic notifications.</p>
                                     </div>
+                                )}
 
-                                    <div>
-                                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Message Template</label>
-                                        <textarea
-                                            value={localSettings.whatsappTemplate}
-                                            onChange={(e) => setLocalSettings({...localSettings, whatsappTemplate: e.target.value})}
-                                            rows={4}
-                                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
-                                            placeholder="Enter message..."
-                                        />
-                                        <p className="text-xs text-slate-400 leading-relaxed mt-1">
-                                            Variables: <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded">{`{name}`}</code>, <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded">{`{number}`}</code>, <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded">{`{service}`}</code>, <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded">{`{counter}`}</code>
-                                        </p>
-                                    </div>
-                                </div>
-                            </div>
-                            
-                            <div className="bg-emerald-50 dark:bg-emerald-900/10 p-4 rounded-lg border border-emerald-100 dark:border-emerald-900/20">
-                                <h4 className="text-xs font-bold text-emerald-800 dark:text-emerald-400 mb-2">Preview:</h4>
-                                <p className="text-sm text-emerald-900 dark:text-emerald-100 italic">
-                                    "{localSettings.whatsappTemplate
-                                        .replace('{name}', 'John Doe')
-                                        .replace('{number}', 'A042')
-                                        .replace('{service}', 'Bill Payment')
-                                        .replace('{counter}', '3')}"
-                                </p>
-                            </div>
-                        </form>
-                    </div>
-                </div>
-                
+                                {getEnabledChannels(localSettings).length === 0 && (
+                                    <p className="text-xs text-amber-600 dark:text-amber-400">Enable a channel above to send this message.</p>
+                                )}
+
+                                {getEnabledChannels(localSettings).map(channel => {
+                                    const template = localSettings.notificationTemplates[templateEvent];
+                                    return (
+                                        <div key={channel} className="p-4 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+                                            <span className="block text-sm font-bold text-slate-800 dark:text-white">{CHANNEL_LABELS[channel]}</span>
+
+                                            {channel === NotificationChannel.EMAIL && (
+                                                <div>
+                                                    <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Subject</label>
+                                                    <input
+                                                        value={template.subject}
+                                                        onChange={(e) => updateTemplate(templateEvent, { subject: e.target.value })}
+                                                        className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                                                    />
+                                                </div>
+                                            )}
+
+                                            <div>
+                                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Message</label>
+                                                <textarea
+                                                    value={template.bodies[channel]}
+                                                    onChange={(e) => updateTemplate(templateEvent, { bodies: { ...template.bodies, [channel]: e.target.value } })}
+                                                    rows={channel === NotificationChannel.SMS ? 2 : 4}
+                                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                                                    placeholder="Leave empty to skip this channel"
+                                                />
+                                            </div>
+
+                                            {template.bodies[channel].trim() && (
+                                                <div className="bg-emerald-50 dark:bg-emerald-900/10 p-4 rounded-lg border border-emerald-100 dark:border-emerald-900/20">
+                                                    <h4 className="text-xs font-bold text-emerald-800 dark:text-emerald-400 mb-2">Preview:</h4>
+                                                    {channel === NotificationChannel.EMAIL && (
+                                                        <p className="text-sm font-bold text-emerald-900 dark:text-emerald-100 mb-1">{fillTemplate(template.subject, TEMPLATE_PREVIEW_VALUES)}</p>
+                                                    )}
+                                                    <p className="text-sm text-emerald-900 dark:text-emerald-100 italic whitespace-pre-line">
+                                                        "{fillTemplate(template.bodies[channel], TEMPLATE_PREVIEW_VALUES)}"
+                                                    </p>
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+
+                                <p className="text-xs text-slate-400 leading-relaxed">
+                                    Variables: {TEMPLATE_PLACEHOLDERS.map(({ key, description }, index) => (
+                                        <React.Fragment key={key}>
+                                            {index > 0 && ', '}
+                                            <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded" title={description}>{`{${key}}`}</code>
+                                        </React.Fragment>
+                                    ))}
+                                </p>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+                
                 {/* Sticky Save Button for Integrations Tab */}
                 <div className="flex justify-end pt-4 pb-20 md:pb-0">
                     <button 
@@ -1187,6 +1930,8 @@ export const AdminView: React.FC<AdminViewProps> = ({
                         <Save className="w-5 h-5" /> Save All Settings
                     </button>
                 </div>
+                </>
+                )}
             </div>
             )}
             
@@ -1194,7 +1939,66 @@ export const AdminView: React.FC<AdminViewProps> = ({
             {activeTab === 'services' && (
               // ... (Same as before) ...
               <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-300">
-                {/* ... (Same as before) ... */}
+                {/* Queue Strategy */}
+                {isAdmin && (
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                    <h3 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+                        <ListOrdered className="w-4 h-4" /> Queue Strategy
+                    </h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        Weighted mode shares calls between services by priority. Tickets waiting longer than the aging limit are always called first. Staff are prompted to mark a No-Show after the set number of recalls (0 = never); with a timeout set, the ticket is marked No-Show automatically that many minutes after its last recall.
+                    </p>
+                    <form onSubmit={handleSaveSettings} className="flex flex-col md:flex-row gap-4 md:items-end bg-slate-50 dark:bg-slate-900/50 p-4 rounded-xl border border-slate-100 dark:border-slate-700">
+                        <div className="flex-1">
+                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Selection Mode</label>
+                            <select 
+                                value={localSettings.queueMode}
+                                onChange={e => setLocalSettings({...localSettings, queueMode: e.target.value as QueueMode})}
+                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                            >
+                                <option value="fifo">First In, First Out</option>
+                                <option value="weighted">Weighted Fair (by priority)</option>
+                            </select>
+                        </div>
+                        <div className="w-full md:w-40">
+                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Recalls to No-Show</label>
+                            <input 
+                                type="number"
+                                min="0"
+                                value={localSettings.recallsBeforeNoShow}
+                                onChange={e => setLocalSettings({...localSettings, recallsBeforeNoShow: parseInt(e.target.value) || 0})}
+                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center" 
+                            />
+                        </div>
+                        <div className="w-full md:w-40">
+                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">No-Show Timeout (m)</label>
+                            <input 
+                                type="number"
+                                min="0"
+                                value={localSettings.noShowTimeoutMinutes}
+                                onChange={e => setLocalSettings({...localSettings, noShowTimeoutMinutes: parseInt(e.target.value) || 0})}
+                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center" 
+                            />
+                        </div>
+                        <div className="w-full md:w-40">
+                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Aging Limit (m)</label>
+                            <input 
+                                type="number"
+                                min="0"
+                                disabled={localSettings.queueMode !== 'weighted'}
+                                value={localSettings.agingThresholdMinutes}
+                                onChange={e => setLocalSettings({...localSettings, agingThresholdMinutes: parseInt(e.target.value) || 0})}
+                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center disabled:opacity-50" 
+                            />
+                        </div>
+                        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 w-full md:w-auto">
+                            Save
+                        </button>
+                    </form>
+                </div>
+                )}
+
+                {canManageServices && (
                 <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
                 <h3 className="font-semibold text-slate-700 dark:text-slate-200 mb-4 flex items-center gap-2">
                     <Plus className="w-4 h-4" /> Add New Service
@@ -1232,6 +2036,31 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center" 
                         />
                     </div>
+                    <div className="w-full md:w-24">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Priority</label>
+                        <input 
+                            type="number"
+                            min="1"
+                            max="10"
+                            value={newService.priority || ''}
+                            onChange={e => setNewService({...newService, priority: parseInt(e.target.value) || 1})}
+                            placeholder="1" 
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center" 
+                        />
+                    </div>
+                    <div className="w-full md:w-28">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Booking Slot (m)</label>
+                        <input 
+                            type="number"
+                            min="0"
+                            step="5"
+                            value={newService.appointmentSlotMinutes}
+                            onChange={e => setNewService({...newService, appointmentSlotMinutes: parseInt(e.target.value) || 0})}
+                            placeholder="0" 
+                            title="0 = walk-in only"
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm text-center" 
+                        />
+                    </div>
                     <div className="w-full md:w-40">
                     <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Color Theme</label>
                     <select 
@@ -1262,7 +2091,10 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             </div>
                             <div>
                             <h4 className="font-bold text-slate-800 dark:text-white">{service.name}</h4>
-                            <p className="text-xs text-slate-400">ID: {service.id}</p>
+                            <p className="text-xs text-slate-400">
+                                ID: {service.id} • Priority {service.priority || 1}
+                                {(service.appointmentSlotMinutes || 0) > 0 && ` • ${service.appointmentSlotMinutes}m slots × ${service.appointmentCapacity || 1}`}
+                            </p>
                             </div>
                         </div>
 
@@ -1312,6 +2144,466 @@ export const AdminView: React.FC<AdminViewProps> = ({
                     })}
                 </div>
                 </div>
+                )}
+
+                {canManageCounters && (
+                <>
+                {/* Counters */}
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                    <h3 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+                        <Monitor className="w-4 h-4" /> Counters
+                    </h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        The label is shown to staff, on the display and in notifications. Closed counters are skipped until reopened; retired counters stop calling tickets but keep their history.
+                    </p>
+                    <form onSubmit={handleCreateCounter} className="flex gap-2 mb-4">
+                        <input 
+                            required
+                            value={newCounterLabel}
+                            onChange={e => setNewCounterLabel(e.target.value)}
+                            placeholder="e.g. Window 5" 
+                            className="flex-1 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" 
+                        />
+                        <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-2">
+                            <Plus className="w-4 h-4" /> Add Counter
+                        </button>
+                    </form>
+                    <div className="space-y-2">
+                        {[...activeCounters, ...retiredCounters].map(counter => {
+                            const index = activeCounters.indexOf(counter);
+                            // Retiring a counter mid-service would strand its ticket and staff member
+                            const isBusy = !!counter.currentTicketId || !!counter.assignedStaffId;
+                            return (
+                            <div key={counter.id} className={`p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex items-center justify-between gap-3 ${counter.isRetired ? 'opacity-60' : ''}`}>
+                                {editingCounter?.id === counter.id ? (
+                                    <form onSubmit={handleSaveCounter} className="flex-1 flex gap-2">
+                                        <input 
+                                            required
+                                            autoFocus
+                                            value={editingCounter.label}
+                                            onChange={e => setEditingCounter({...editingCounter, label: e.target.value})}
+                                            className="flex-1 px-3 py-1.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm" 
+                                        />
+                                        <button type="button" onClick={() => setEditingCounter(null)} className="px-3 py-1.5 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-sm">Cancel</button>
+                                        <button type="submit" className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Save</button>
+                                    </form>
+                                ) : (
+                                    <>
+                                        <div className="flex items-center gap-3 min-w-0">
+                                            <span className="text-[10px] font-mono text-slate-400">#{counter.id}</span>
+                                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{counter.label}</p>
+                                            {counter.isRetired ? (
+                                                <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-500 dark:text-slate-400">Retired</span>
+                                            ) : !counter.isOpen && (
+                                                <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400">Closed</span>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            {!counter.isRetired && (
+                                                <>
+                                                    <button 
+                                                        onClick={() => handleMoveCounter(index, -1)}
+                                                        disabled={index === 0}
+                                                        className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition disabled:opacity-30 disabled:hover:bg-transparent"
+                                                        title="Move Up"
+                                                    >
+                                                        <ArrowUp className="w-4 h-4" />
+                                                    </button>
+                                                    <button 
+                                                        onClick={() => handleMoveCounter(index, 1)}
+                                                        disabled={index === activeCounters.length - 1}
+                                                        className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition disabled:opacity-30 disabled:hover:bg-transparent"
+                                                        title="Move Down"
+                                                    >
+                                                        <ArrowDown className="w-4 h-4" />
+                                                    </button>
+                                                    <button 
+                                                        onClick={() => setEditingCounter({ id: counter.id, label: counter.label })}
+                                                        className="p-1.5 text-slate-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition"
+                                                        title="Rename Counter"
+                                                    >
+                                                        <Edit2 className="w-4 h-4" />
+                                                    </button>
+                                                    <button 
+                                                        onClick={() => onUpdateCounter(counter.id, { isOpen: !counter.isOpen })}
+                                                        className={`p-1.5 rounded-lg transition ${counter.isOpen ? 'text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20' : 'text-slate-400 hover:text-green-500 hover:bg-green-50 dark:hover:bg-green-900/20'}`}
+                                                        title={counter.isOpen ? 'Close Counter' : 'Open Counter'}
+                                                    >
+                                                        <Power className="w-4 h-4" />
+                                                    </button>
+                                                </>
+                                            )}
+                                            <button 
+                                                onClick={() => handleToggleCounterRetired(counter)}
+                                                disabled={!counter.isRetired && isBusy}
+                                                className="p-1.5 text-slate-400 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition disabled:opacity-30 disabled:hover:bg-transparent"
+                                                title={counter.isRetired ? 'Restore Counter' : isBusy ? 'Counter is in use' : 'Retire Counter'}
+                                            >
+                                                {counter.isRetired ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                                            </button>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Counter Routing */}
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                    <h3 className="font-semibold text-slate-700 dark:text-slate-200 mb-1 flex items-center gap-2">
+                        <Route className="w-4 h-4" /> Counter Routing
+                    </h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        Choose which services each counter calls. Fallback services are only called when no primary ticket is waiting. Counters without primary services serve every queue.
+                    </p>
+                    <div className="space-y-3">
+                        {activeCounters.map(counter => (
+                            <div key={counter.id} className="p-4 rounded-xl border border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{counter.label}</p>
+                                    {counter.serviceIds.length === 0 && (
+                                        <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">All Services</span>
+                                    )}
+                                </div>
+                                {(['primary', 'fallback'] as const).map(list => {
+                                    const selected = list === 'primary' ? counter.serviceIds : counter.fallbackServiceIds;
+                                    return (
+                                        <div key={list} className="flex flex-col md:flex-row md:items-center gap-2">
+                                            <span className="w-20 text-xs font-medium text-slate-500 dark:text-slate-400 capitalize">{list}</span>
+                                            <div className="flex flex-wrap gap-2">
+                                                {services.map(service => {
+                                                    const isSelected = selected.includes(service.id);
+                                                    return (
+                                                        <button
+                                                            key={service.id}
+                                                            type="button"
+                                                            onClick={() => handleToggleCounterService(counter, service.id, list)}
+                                                            className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition ${
+                                                                isSelected
+                                                                    ? list === 'primary' ? 'bg-blue-600 border-blue-600 text-white' : 'bg-amber-500 border-amber-500 text-white'
+                                                                    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-600 text-slate-500 dark:text-slate-400 hover:border-slate-400'
+                                                            }`}
+                                                        >
+                                                            {service.prefix} · {service.name}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+                </>
+                )}
+              </div>
+            )}
+
+            {/* Ticket History */}
+            {activeTab === 'history' && (
+              <div className="max-w-6xl mx-auto space-y-6 animate-in fade-in duration-300">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Ticket History</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">Full audit trail of every action taken on a ticket.</p>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+                    {/* Ticket Picker */}
+                    <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden flex flex-col max-h-[70vh]">
+                        <div className="p-4 border-b border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+                            <div className="relative">
+                                <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                                <input
+                                    value={historySearch}
+                                    onChange={e => setHistorySearch(e.target.value)}
+                                    placeholder="Search number, name or phone"
+                                    className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                                />
+                            </div>
+                        </div>
+                        <div className="flex-1 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700">
+                            {historyTickets.length === 0 ? (
+                                <p className="p-6 text-center text-sm text-slate-400">No tickets found.</p>
+                            ) : historyTickets.map(ticket => (
+                                <button
+                                    key={ticket.id}
+                                    onClick={() => setSelectedHistoryTicketId(ticket.id)}
+                                    className={`w-full p-3 flex items-center justify-between text-left transition ${selectedHistoryTicketId === ticket.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}
+                                >
+                                    <div>
+                                        <p className="font-bold text-slate-800 dark:text-white">{ticket.number}</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {ticket.name || 'Guest'} • {services.find(s => s.id === ticket.serviceId)?.name || 'Unknown'}
+                                        </p>
+                                    </div>
+                                    <div className="text-right">
+                                        <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{ticket.status}</span>
+                                        <p className="text-xs text-slate-400 mt-1">{new Date(ticket.joinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+                                    </div>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Timeline */}
+                    <div className="lg:col-span-3 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                        {!selectedHistoryTicket ? (
+                            <div className="h-full min-h-[200px] flex flex-col items-center justify-center text-slate-400">
+                                <History className="w-10 h-10 mb-2 opacity-50" />
+                                <p className="text-sm">Select a ticket to view its timeline.</p>
+                            </div>
+                        ) : (
+                            <>
+                                <div className="flex items-center justify-between mb-6">
+                                    <div>
+                                        <h3 className="text-2xl font-bold text-slate-900 dark:text-white">{selectedHistoryTicket.number}</h3>
+                                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                                            {selectedHistoryTicket.name || 'Guest'}{selectedHistoryTicket.phone ? ` • ${selectedHistoryTicket.phone}` : ''}
+                                        </p>
+                                    </div>
+                                    <span className="text-xs font-bold uppercase px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{selectedHistoryTicket.status}</span>
+                                </div>
+
+                                {isLoadingEvents ? (
+                                    <div className="flex justify-center py-10">
+                                        <span className="w-6 h-6 border-2 border-slate-300 border-t-blue-600 rounded-full animate-spin"></span>
+                                    </div>
+                                ) : ticketEvents.length === 0 ? (
+                                    <p className="text-sm text-slate-400 text-center py-10">No events recorded for this ticket.</p>
+                                ) : (
+                                    <ol className="relative border-l-2 border-slate-200 dark:border-slate-700 ml-2 space-y-6">
+                                        {ticketEvents.map(event => (
+                                            <li key={event.id} className="ml-6">
+                                                <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${getEventColor(event.type)}`}></span>
+                                                <div className="flex items-baseline justify-between gap-4">
+                                                    <p className="font-semibold text-slate-800 dark:text-white">{describeTicketEvent(event)}</p>
+                                                    <time className="text-xs text-slate-400 whitespace-nowrap">{new Date(event.createdAt).toLocaleTimeString()}</time>
+                                                </div>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                                                    {event.counterId ? getCounterLabel(counters, event.counterId) : 'No counter'}
+                                                    {' • '}
+                                                    {event.staffUserId ? (users.find(u => u.id === event.staffUserId)?.name || 'Unknown user') : 'Customer / system'}
+                                                </p>
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+              </div>
+            )}
+
+            {/* Customers */}
+            {activeTab === 'customers' && (
+              <div className="max-w-5xl mx-auto space-y-6 animate-in fade-in duration-300">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Customers</h1>
+                        <p className="text-slate-500 dark:text-slate-400 mt-1">Returning customers who asked to be remembered at {getBranchName(activeBranchId)}, with their visits here.</p>
+                    </div>
+                    <button
+                        onClick={loadCustomers}
+                        disabled={isLoadingCustomers}
+                        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-2"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isLoadingCustomers ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+
+                <div className="relative max-w-sm">
+                    <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-400" />
+                    <input
+                        value={customerSearch}
+                        onChange={e => setCustomerSearch(e.target.value)}
+                        placeholder="Search name or phone"
+                        className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                    />
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="text-xs uppercase text-slate-500 dark:text-slate-400 border-b border-slate-100 dark:border-slate-700">
+                            <tr>
+                                <th className="px-4 py-3">Customer</th>
+                                <th className="px-4 py-3 text-right">Visits</th>
+                                <th className="px-4 py-3 text-right">Completed</th>
+                                <th className="px-4 py-3 text-right">No-shows</th>
+                                <th className="px-4 py-3 text-right">Cancelled</th>
+                                <th className="px-4 py-3 text-right">Avg Wait</th>
+                                <th className="px-4 py-3">Last Visit</th>
+                                {isAdmin && <th className="px-4 py-3"></th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {filteredCustomers.length === 0 && (
+                                <tr>
+                                    <td colSpan={isAdmin ? 8 : 7} className="p-6 text-center text-sm text-slate-400">
+                                        {isLoadingCustomers ? 'Loading...' : customerSearch ? 'No customers match your search.' : 'No remembered customers yet.'}
+                                    </td>
+                                </tr>
+                            )}
+                            {filteredCustomers.map(customer => (
+                                <tr key={customer.id} className="text-slate-700 dark:text-slate-300">
+                                    <td className="px-4 py-3">
+                                        <p className="font-semibold text-slate-800 dark:text-white">{customer.name}</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">{customer.phone} • Consented {new Date(customer.consentedAt).toLocaleDateString()}</p>
+                                    </td>
+                                    <td className="px-4 py-3 text-right font-semibold">{customer.visits}</td>
+                                    <td className="px-4 py-3 text-right">{customer.completed}</td>
+                                    <td className={`px-4 py-3 text-right ${customer.noShows > 0 ? 'text-red-500 font-semibold' : ''}`}>{customer.noShows}</td>
+                                    <td className="px-4 py-3 text-right">{customer.cancelled}</td>
+                                    <td className="px-4 py-3 text-right">{customer.avgWaitMinutes !== undefined ? `${customer.avgWaitMinutes} min` : '—'}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap">{new Date(customer.lastVisitAt).toLocaleDateString()}</td>
+                                    {isAdmin && (
+                                    <td className="px-4 py-3 text-right">
+                                        <button
+                                            onClick={() => handleDeleteCustomer(customer)}
+                                            className="px-2 py-1 text-xs font-medium text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition flex items-center gap-1 ml-auto"
+                                            title="Delete this customer's data"
+                                        >
+                                            <Trash2 className="w-4 h-4" /> Delete Data
+                                        </button>
+                                    </td>
+                                    )}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+              </div>
+            )}
+
+            {/* Notifications */}
+            {activeTab === 'notifications' && (
+              <div className="max-w-5xl mx-auto space-y-6 animate-in fade-in duration-300">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Notifications</h1>
+                        <p className="text-slate-500 dark:text-slate-400 mt-1">Delivery state of customer messages for {getBranchName(activeBranchId)}. Failed sends are retried automatically.</p>
+                    </div>
+                    <button
+                        onClick={loadNotifications}
+                        disabled={isLoadingNotifications}
+                        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-2"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isLoadingNotifications ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {(['ALL', ...Object.values(NotificationStatus)] as const).map(status => {
+                        const count = status === 'ALL' ? notifications.length : notifications.filter(n => n.status === status).length;
+                        return (
+                            <button
+                                key={status}
+                                onClick={() => setNotificationFilter(status)}
+                                className={`px-3 py-1.5 rounded-full text-xs font-bold uppercase transition ${notificationFilter === status ? 'bg-blue-600 text-white' : 'bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                            >
+                                {status} ({count})
+                            </button>
+                        );
+                    })}
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                    {filteredNotifications.length === 0 && (
+                        <p className="p-6 text-center text-sm text-slate-400">{isLoadingNotifications ? 'Loading...' : 'No notifications yet.'}</p>
+                    )}
+                    {filteredNotifications.map(notification => (
+                        <div key={notification.id} className="p-4 flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+                                    {notification.ticketNumber || 'No ticket'}
+                                    <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${getNotificationStatusColor(notification.status)}`}>{notification.status}</span>
+                                    <span className="text-xs font-normal text-slate-400">{notification.template === 'manual' ? 'Sent by staff' : EVENT_LABELS[notification.template as NotificationEvent]?.label ?? notification.template}</span>
+                                </p>
+                                <p className="text-sm text-slate-600 dark:text-slate-300 mt-1 truncate" title={notification.message}>{notification.message}</p>
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                    {CHANNEL_LABELS[notification.channel]} {notification.channel === NotificationChannel.EMAIL ? notification.recipient : `+${notification.recipient}`}
+                                    {' • '}Attempt {notification.attempts} of {NOTIFICATION_MAX_ATTEMPTS}
+                                    {' • '}{notification.sentAt
+                                        ? `Sent ${new Date(notification.sentAt).toLocaleTimeString()}`
+                                        : notification.status === NotificationStatus.QUEUED && notification.nextAttemptAt
+                                            ? `Next attempt ${new Date(notification.nextAttemptAt).toLocaleTimeString()}`
+                                            : `Queued ${new Date(notification.createdAt).toLocaleTimeString()}`}
+                                </p>
+                                {notification.lastError && (
+                                    <p className="text-xs text-red-500 mt-1">{notification.lastError}</p>
+                                )}
+                            </div>
+                            {notification.status === NotificationStatus.FAILED && (
+                                <button
+                                    onClick={async () => {
+                                        await onRetryNotification(notification.id);
+                                        loadNotifications();
+                                    }}
+                                    className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition"
+                                    title="Retry"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+              </div>
+            )}
+
+            {/* Scheduled Jobs */}
+            {activeTab === 'jobs' && (
+              <div className="max-w-5xl mx-auto space-y-6 animate-in fade-in duration-300">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Scheduled Jobs</h1>
+                        <p className="text-slate-500 dark:text-slate-400 mt-1">Background work run by the API server for every branch, whether or not anyone is signed in.</p>
+                    </div>
+                    <button
+                        onClick={loadJobs}
+                        disabled={isLoadingJobs}
+                        className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 flex items-center gap-2"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${isLoadingJobs ? 'animate-spin' : ''}`} /> Refresh
+                    </button>
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                    {Object.values(ScheduledJob).map(name => {
+                        const job = SCHEDULED_JOBS[name];
+                        const run = jobRuns.find(j => j.name === name);
+                        // Missed three turns in a row: the scheduler is probably not running
+                        const isOverdue = !run || Date.now() - run.nextRunAt > job.intervalSeconds * 3000;
+                        return (
+                            <div key={name} className="p-4 flex items-start justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+                                        {job.label}
+                                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${getJobStatusColor(run?.status)}`}>{run?.status || 'Never run'}</span>
+                                    </p>
+                                    <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">{job.description}</p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                        Every {job.intervalSeconds >= 60 ? `${job.intervalSeconds / 60} min` : `${job.intervalSeconds}s`}
+                                        {run?.lastFinishedAt && <>{' • '}Last run {new Date(run.lastFinishedAt).toLocaleString()}{run.lastResult && `: ${run.lastResult}`}</>}
+                                        {run && <>{' • '}{run.runCount} runs</>}
+                                    </p>
+                                    {run?.lastError && (
+                                        <p className="text-xs text-red-500 mt-1">{run.lastError}</p>
+                                    )}
+                                    {isOverdue && !isLoadingJobs && (
+                                        <p className="text-xs text-amber-600 dark:text-amber-400 mt-1 flex items-center gap-1">
+                                            <AlertTriangle className="w-3 h-3" /> Not running. Start the API server with SUPABASE_SERVICE_ROLE_KEY set, or call its scheduled export from a cron trigger.
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
               </div>
             )}
 
@@ -1344,7 +2636,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                         </div>
                         <div>
                             <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Password</label>
-                            <input required value={newUser.password} onChange={e => setNewUser({...newUser, password: e.target.value})} type="text" className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" placeholder="Password" />
+                            <input required minLength={PASSWORD_MIN_LENGTH} value={newUser.password} onChange={e => setNewUser({...newUser, password: e.target.value})} type="text" className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" placeholder="Password" />
                         </div>
                         <div>
                             <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Role</label>
@@ -1354,9 +2646,10 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
                             >
                             <option value={UserRole.STAFF}>Counter Staff</option>
+                            <option value={UserRole.SUPERVISOR}>Shift Supervisor</option>
                             <option value={UserRole.KIOSK}>Kiosk Screen</option>
                             <option value={UserRole.DISPLAY}>TV Display</option>
-                            <option value={UserRole.ADMIN}>Administrator</option>
+                            {isAdmin && <option value={UserRole.ADMIN}>Administrator</option>}
                             </select>
                         </div>
                         <div className="md:col-span-2 flex justify-end gap-2 mt-2">
@@ -1368,17 +2661,26 @@ export const AdminView: React.FC<AdminViewProps> = ({
                     )}
 
                     <div className="divide-y divide-slate-100 dark:divide-slate-700">
-                    {users.map(user => (
+                    {branchUsers.map(user => (
                         <div key={user.id} className="p-4 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-slate-700/50 transition">
                         <div className="flex items-center gap-4">
                             <div className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
                             {getRoleIcon(user.role)}
                             </div>
                             <div>
-                            <p className="font-semibold text-slate-800 dark:text-white">{user.name}</p>
-                            <p className="text-xs text-slate-500 dark:text-slate-400">@{user.username} • {user.role}</p>
+                            <p className="font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+                                {user.name}
+                                {user.permissions && (
+                                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400" title={getUserPermissions(user).map(p => PERMISSION_LABELS[p]).join(', ') || 'No permissions'}>Custom Permissions</span>
+                                )}
+                                {user.resetRequestedAt && (
+                                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-amber-100 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400" title={`Requested ${new Date(user.resetRequestedAt).toLocaleString()}`}>Reset Requested</span>
+                                )}
+                            </p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">@{user.username} • {user.role} • {getBranchName(user.branchId)}</p>
                             </div>
                         </div>
+                        {canEditUser(user) && (
                         <div className="flex items-center gap-2">
                             <button 
                                 onClick={() => handleEditClick(user)}
@@ -1388,6 +2690,15 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                 <Edit2 className="w-4 h-4" />
                             </button>
                             {user.id !== currentUser.id && (
+                            <button 
+                                onClick={() => onForceResetConfirm(user)}
+                                className={`p-2 rounded-lg transition ${user.resetRequestedAt ? 'text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20' : 'text-slate-300 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-900/20'}`}
+                                title="Force Password Reset"
+                            >
+                                <KeyRound className="w-4 h-4" />
+                            </button>
+                            )}
+                            {user.id !== currentUser.id && (
                             <button 
                                 onClick={() => onDeleteUserConfirm(user.id)}
                                 className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition"
@@ -1397,6 +2708,7 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             </button>
                             )}
                         </div>
+                        )}
                         </div>
                     ))}
                     </div>
@@ -1404,6 +2716,180 @@ export const AdminView: React.FC<AdminViewProps> = ({
              </div>
             )}
 
+            {/* Devices */}
+            {activeTab === 'devices' && (
+             <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-300">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Devices</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">Pair kiosk and display screens for {getBranchName(activeBranchId)} with a one-time code instead of sharing a password.</p>
+                </div>
+
+                <form onSubmit={handleCreateDevicePairing} className="flex flex-col md:flex-row gap-4 md:items-end bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Screen Name</label>
+                        <input 
+                            required
+                            value={newDevice.name}
+                            onChange={e => setNewDevice({...newDevice, name: e.target.value})}
+                            placeholder="e.g. Entrance Kiosk" 
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" 
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Role</label>
+                        <select 
+                            value={newDevice.role}
+                            onChange={e => setNewDevice({...newDevice, role: e.target.value as UserRole})}
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm"
+                        >
+                            {PAIRABLE_ROLES.map(role => (
+                                <option key={role} value={role}>{role === UserRole.KIOSK ? 'Kiosk Screen' : 'TV Display'}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-2">
+                        <Plus className="w-4 h-4" /> Pair Screen
+                    </button>
+                </form>
+
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                    {branchDevices.length === 0 && (
+                        <p className="p-6 text-center text-sm text-slate-400">No paired screens yet.</p>
+                    )}
+                    {branchDevices.map(device => (
+                        <div key={device.id} className={`p-4 flex items-center justify-between gap-4 ${device.revokedAt ? 'opacity-60' : ''}`}>
+                            <div className="flex items-center gap-4">
+                                <div className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
+                                    {getRoleIcon(device.role)}
+                                </div>
+                                <div>
+                                    <p className="font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+                                        {device.name}
+                                        {device.revokedAt ? (
+                                            <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400" title={`Revoked ${new Date(device.revokedAt).toLocaleString()}`}>Revoked</span>
+                                        ) : (
+                                            <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400">Active</span>
+                                        )}
+                                    </p>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                                        {device.role} • Paired {new Date(device.pairedAt).toLocaleDateString()} • Last seen {device.lastSeenAt ? new Date(device.lastSeenAt).toLocaleString() : 'never'}
+                                    </p>
+                                </div>
+                            </div>
+                            {!device.revokedAt && (
+                                <button 
+                                    onClick={() => onRevokeDeviceConfirm(device)}
+                                    className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition"
+                                    title="Revoke Device"
+                                >
+                                    <Ban className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+             </div>
+            )}
+
+            {/* Branches */}
+            {activeTab === 'branches' && (
+             <div className="max-w-4xl mx-auto space-y-8 animate-in fade-in duration-300">
+                <div>
+                    <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Branches</h1>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">Each branch has its own services, counters, queue and settings.</p>
+                </div>
+
+                <form onSubmit={handleCreateBranch} className="flex flex-col md:flex-row gap-4 md:items-end bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Branch Name</label>
+                        <input 
+                            required
+                            value={newBranch.name}
+                            onChange={e => setNewBranch({...newBranch, name: e.target.value})}
+                            placeholder="e.g. Downtown" 
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" 
+                        />
+                    </div>
+                    <div className="flex-1">
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Address <span className="text-slate-400">(Optional)</span></label>
+                        <input 
+                            value={newBranch.address}
+                            onChange={e => setNewBranch({...newBranch, address: e.target.value})}
+                            placeholder="e.g. 12 Main Street" 
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm" 
+                        />
+                    </div>
+                    <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 flex items-center justify-center gap-2">
+                        <Plus className="w-4 h-4" /> Add Branch
+                    </button>
+                </form>
+
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                    {branches.map(branch => (
+                        <div key={branch.id} className="p-4 flex items-center justify-between gap-4">
+                            {editingBranch?.id === branch.id ? (
+                                <form onSubmit={handleSaveBranch} className="flex-1 flex flex-col md:flex-row gap-2">
+                                    <input 
+                                        required
+                                        autoFocus
+                                        value={editingBranch.name}
+                                        onChange={e => setEditingBranch({...editingBranch, name: e.target.value})}
+                                        className="flex-1 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm" 
+                                    />
+                                    <input 
+                                        value={editingBranch.address || ''}
+                                        onChange={e => setEditingBranch({...editingBranch, address: e.target.value})}
+                                        placeholder="Address"
+                                        className="flex-1 px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm" 
+                                    />
+                                    <div className="flex gap-2">
+                                        <button type="button" onClick={() => setEditingBranch(null)} className="px-3 py-2 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-sm">Cancel</button>
+                                        <button type="submit" className="px-3 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Save</button>
+                                    </div>
+                                </form>
+                            ) : (
+                                <>
+                                    <div className="flex items-center gap-4">
+                                        <div className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-700 flex items-center justify-center">
+                                            <Building2 className="w-4 h-4 text-slate-500 dark:text-slate-300" />
+                                        </div>
+                                        <div>
+                                            <p className="font-semibold text-slate-800 dark:text-white flex items-center gap-2">
+                                                {branch.name}
+                                                {branch.id === activeBranchId && (
+                                                    <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400">Current</span>
+                                                )}
+                                            </p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                {branch.address || 'No address'} • {users.filter(u => u.branchId === branch.id).length} accounts
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        {branch.id !== activeBranchId && (
+                                            <button 
+                                                onClick={() => onSwitchBranch(branch.id)}
+                                                className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition"
+                                            >
+                                                Switch
+                                            </button>
+                                        )}
+                                        <button 
+                                            onClick={() => setEditingBranch(branch)}
+                                            className="p-2 text-slate-300 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition"
+                                            title="Edit Branch"
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+             </div>
+            )}
+
             {/* Profile */}
             {activeTab === 'profile' && (
              // ... (Same as before) ...
@@ -1443,12 +2929,25 @@ export const AdminView: React.FC<AdminViewProps> = ({
                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">New Password</label>
                         <input 
                             type="password"
+                            minLength={PASSWORD_MIN_LENGTH}
                             value={profileFormData.password}
                             onChange={e => setProfileFormData({...profileFormData, password: e.target.value})}
                             className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
                             placeholder="Leave blank to keep current"
                         />
                         </div>
+                        {profileFormData.password && (
+                        <div>
+                        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Current Password</label>
+                        <input 
+                            type="password"
+                            required
+                            value={profileFormData.currentPassword}
+                            onChange={e => setProfileFormData({...profileFormData, currentPassword: e.target.value})}
+                            className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        />
+                        </div>
+                        )}
                         <button 
                         type="submit" 
                         className="px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700"
@@ -1461,6 +2960,53 @@ export const AdminView: React.FC<AdminViewProps> = ({
             )}
 
             {/* Edit User Modal */}
+            {issuedReset && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in duration-200 border border-slate-100 dark:border-slate-700">
+                <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+                    <h3 className="font-bold text-slate-700 dark:text-white">Reset Code Issued</h3>
+                    <button onClick={() => setIssuedReset(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full p-1 hover:bg-slate-200 dark:hover:bg-slate-700">
+                    <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 text-center">
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        Give this code to <span className="font-semibold text-slate-700 dark:text-slate-200">{issuedReset.userName}</span>. They enter it under "Forgot Password?" on the login screen.
+                    </p>
+                    <p className="text-3xl font-mono font-black tracking-[0.3em] text-slate-900 dark:text-white bg-slate-100 dark:bg-slate-900 rounded-xl py-4 select-all">{issuedReset.code}</p>
+                    <p className="text-xs text-slate-400">
+                        Valid once, until {new Date(issuedReset.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. It will not be shown again.
+                    </p>
+                    <button onClick={() => setIssuedReset(null)} className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Done</button>
+                </div>
+                </div>
+            </div>
+            )}
+
+            {issuedPairing && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden animate-in zoom-in duration-200 border border-slate-100 dark:border-slate-700">
+                <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+                    <h3 className="font-bold text-slate-700 dark:text-white">Pair {issuedPairing.name}</h3>
+                    <button onClick={() => setIssuedPairing(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full p-1 hover:bg-slate-200 dark:hover:bg-slate-700">
+                    <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-4 text-center">
+                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                        Scan the QR code with the screen's camera, or choose "Pair this screen" on its login page and enter the code.
+                    </p>
+                    <img src={issuedPairing.qrDataUrl} alt="Pairing QR code" className="mx-auto w-48 h-48 rounded-lg bg-white p-2" />
+                    <p className="text-3xl font-mono font-black tracking-[0.3em] text-slate-900 dark:text-white bg-slate-100 dark:bg-slate-900 rounded-xl py-4 select-all">{issuedPairing.code}</p>
+                    <p className="text-xs text-slate-400">
+                        Valid once, until {new Date(issuedPairing.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. It will not be shown again.
+                    </p>
+                    <button onClick={() => setIssuedPairing(null)} className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Done</button>
+                </div>
+                </div>
+            </div>
+            )}
+
             {editingUser && (
             <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
                 <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in duration-200 border border-slate-100 dark:border-slate-700">
@@ -1490,16 +3036,21 @@ export const AdminView: React.FC<AdminViewProps> = ({
                         className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm" 
                         />
                     </div>
+                    {/* Your own password changes from the Profile tab, with your current one */}
+                    {editingUser.id !== currentUser.id && (
                     <div>
                         <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">New Password</label>
                         <input 
                         type="text"
+                        minLength={PASSWORD_MIN_LENGTH}
                         value={editFormData.password} 
                         onChange={e => setEditFormData({...editFormData, password: e.target.value})} 
                         className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm" 
                         placeholder="Leave blank to keep current"
                         />
+                        <p className="text-[10px] text-slate-400 mt-1">The user will be asked to choose their own password at next login.</p>
                     </div>
+                    )}
                     <div>
                         <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Role</label>
                         <select 
@@ -1508,11 +3059,58 @@ export const AdminView: React.FC<AdminViewProps> = ({
                             className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
                         >
                             <option value={UserRole.STAFF}>Counter Staff</option>
+                            <option value={UserRole.SUPERVISOR}>Shift Supervisor</option>
                             <option value={UserRole.KIOSK}>Kiosk Screen</option>
                             <option value={UserRole.DISPLAY}>TV Display</option>
-                            <option value={UserRole.ADMIN}>Administrator</option>
+                            {isAdmin && <option value={UserRole.ADMIN}>Administrator</option>}
+                        </select>
+                    </div>
+                    {isAdmin && (
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Branch</label>
+                        <select 
+                            value={editFormData.branchId}
+                            onChange={e => setEditFormData({...editFormData, branchId: e.target.value})}
+                            className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                        >
+                            {editFormData.role === UserRole.ADMIN && <option value="">All branches</option>}
+                            {branches.map(branch => (
+                                <option key={branch.id} value={branch.id}>{branch.name}</option>
+                            ))}
                         </select>
+                        <p className="text-xs text-slate-400 mt-1">Kiosks, displays and staff only see this branch's queue.</p>
                     </div>
+                    )}
+                    {isAdmin && (editFormData.role === UserRole.STAFF || editFormData.role === UserRole.SUPERVISOR) && (
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400">Permissions</label>
+                            <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                                <input 
+                                    type="checkbox"
+                                    checked={editFormData.permissions === null}
+                                    onChange={e => setEditFormData({...editFormData, permissions: e.target.checked ? null : ROLE_PERMISSIONS[editFormData.role]})}
+                                    className="h-3.5 w-3.5 text-blue-600 rounded"
+                                />
+                                Role defaults
+                            </label>
+                        </div>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5 p-3 rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900/50">
+                            {Object.values(Permission).map(permission => (
+                                <label key={permission} className={`flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 ${editFormData.permissions === null ? 'opacity-60' : ''}`}>
+                                    <input 
+                                        type="checkbox"
+                                        disabled={editFormData.permissions === null}
+                                        checked={(editFormData.permissions ?? ROLE_PERMISSIONS[editFormData.role]).includes(permission)}
+                                        onChange={() => toggleEditPermission(permission)}
+                                        className="h-3.5 w-3.5 text-blue-600 rounded"
+                                    />
+                                    {PERMISSION_LABELS[permission]}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    )}
                     <div className="flex justify-end gap-3 pt-2">
                         <button type="button" onClick={() => setEditingUser(null)} className="px-4 py-2 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-sm">Cancel</button>
                         <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700">Save Changes</button>
@@ -1565,6 +3163,44 @@ export const AdminView: React.FC<AdminViewProps> = ({
                                     className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm text-center" 
                                 />
                             </div>
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Priority</label>
+                                <input 
+                                    type="number"
+                                    min="1"
+                                    max="10"
+                                    value={editingService.priority || ''}
+                                    onChange={e => setEditingService({...editingService, priority: parseInt(e.target.value) || 1})}
+                                    placeholder="1" 
+                                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm text-center" 
+                                />
+                                <p className="text-xs text-slate-400 mt-1">In weighted mode, a priority 2 service is called twice as often as priority 1.</p>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Booking Slot (m)</label>
+                                    <input 
+                                        type="number"
+                                        min="0"
+                                        step="5"
+                                        value={editingService.appointmentSlotMinutes || 0}
+                                        onChange={e => setEditingService({...editingService, appointmentSlotMinutes: parseInt(e.target.value) || 0})}
+                                        className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm text-center" 
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Bookings per Slot</label>
+                                    <input 
+                                        type="number"
+                                        min="1"
+                                        value={editingService.appointmentCapacity || ''}
+                                        onChange={e => setEditingService({...editingService, appointmentCapacity: parseInt(e.target.value) || 1})}
+                                        placeholder="1" 
+                                        className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm text-center" 
+                                    />
+                                </div>
+                                <p className="col-span-2 text-xs text-slate-400 -mt-2">Slots run across operating hours. Set the slot length to 0 for walk-in only.</p>
+                            </div>
                             <div>
                                 <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Color Theme</label>
                                 <select 
@@ -0,0 +1,317 @@
+
+import React, { useState, useMemo } from 'react';
+import { Appointment, BookedSlot, ServiceDefinition, SystemSettings } from '../types';
+import { COLOR_THEMES, APPOINTMENT_BOOKING_DAYS } from '../constants';
+import { getAppointmentSlots, isBookableService } from '../lib/appointments';
+import { CalendarClock, CheckCircle, Smartphone, XCircle, Sun, Moon, Loader2, ArrowLeft } from 'lucide-react';
+
+interface BookingViewProps {
+  services: ServiceDefinition[];
+  bookedSlots: BookedSlot[];
+  systemSettings: SystemSettings;
+  onBookAppointment: (serviceId: string, name: string, phone: string, scheduledAt: number) => Promise<Appointment | null>;
+  onCancelAppointment: (appointmentId: string, code: string) => void;
+  toggleTheme: () => void;
+  isDarkMode: boolean;
+}
+
+export const BookingView: React.FC<BookingViewProps> = ({
+  services,
+  bookedSlots,
+  systemSettings,
+  onBookAppointment,
+  onCancelAppointment,
+  toggleTheme,
+  isDarkMode
+}) => {
+  const [step, setStep] = useState<1 | 2 | 3 | 4>(1);
+  const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
+  const [dayOffset, setDayOffset] = useState(0);
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+  const [booking, setBooking] = useState<Appointment | null>(null);
+  const [isCancelled, setIsCancelled] = useState(false);
+
+  const bookableServices = services.filter(isBookableService);
+  const selectedService = services.find(s => s.id === selectedServiceId);
+
+  const days = useMemo(() => {
+    return Array.from({ length: APPOINTMENT_BOOKING_DAYS }, (_, i) => {
+      const day = new Date();
+      day.setHours(0, 0, 0, 0);
+      day.setDate(day.getDate() + i);
+      return day;
+    });
+  }, []);
+
+  const slots = selectedService
+    ? getAppointmentSlots(selectedService, days[dayOffset], systemSettings.operatingHours, bookedSlots)
+    : [];
+
+  const getServiceStyles = (themeName: string) => {
+    return COLOR_THEMES.find(t => t.value === themeName) || COLOR_THEMES[0];
+  };
+
+  const formatSlot = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+  const formatDay = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+
+  const resetToStart = () => {
+    setStep(1);
+    setSelectedServiceId(null);
+    setDayOffset(0);
+    setSelectedSlot(null);
+    setName('');
+    setPhone('');
+    setError('');
+    setBooking(null);
+    setIsCancelled(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedServiceId || selectedSlot === null || !name || isProcessing) return;
+
+    setIsProcessing(true);
+    setError('');
+    const fullPhone = (phone && systemSettings.countryCode)
+      ? `${systemSettings.countryCode}${phone.replace(/^0+/, '')}`
+      : phone;
+
+    const appointment = await onBookAppointment(selectedServiceId, name, fullPhone, selectedSlot);
+    setIsProcessing(false);
+
+    if (!appointment) {
+      // Most likely someone else took the last place in this slot
+      setError('Sorry, that time is no longer available. Please pick another slot.');
+      setSelectedSlot(null);
+      setStep(2);
+      return;
+    }
+    setBooking(appointment);
+    setStep(4);
+  };
+
+  const handleCancelBooking = () => {
+    if (!booking) return;
+    onCancelAppointment(booking.id, booking.code);
+    setIsCancelled(true);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 dark:bg-slate-950 p-4 md:p-6 transition-colors duration-300">
+      <div className="flex justify-end max-w-2xl mx-auto w-full mb-6">
+        <button
+          onClick={toggleTheme}
+          className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+          title="Toggle Theme"
+        >
+          {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+        </button>
+      </div>
+
+      <div className="max-w-2xl mx-auto w-full flex-1">
+        {step < 4 && (
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-extrabold text-slate-900 dark:text-white mb-2">Book an Appointment</h1>
+            <p className="text-slate-500 dark:text-slate-400">Reserve a time and check in at the kiosk when you arrive.</p>
+          </div>
+        )}
+
+        {/* 1. Service */}
+        {step === 1 && (
+          <div className="grid grid-cols-1 gap-4">
+            {bookableServices.length === 0 ? (
+              <p className="text-center text-slate-400 py-10">No services are currently taking appointments.</p>
+            ) : bookableServices.map(service => {
+              const theme = getServiceStyles(service.colorTheme);
+              const iconClass = `${theme.classes.split(' ')[0]} ${theme.classes.split(' ')[1]}`;
+              return (
+                <button
+                  key={service.id}
+                  onClick={() => { setSelectedServiceId(service.id); setSelectedSlot(null); setStep(2); }}
+                  className="group flex items-center p-6 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 hover:border-blue-500 dark:hover:border-blue-400 hover:shadow-md transition-all text-left"
+                >
+                  <div className={`w-12 h-12 rounded-full flex items-center justify-center text-xl font-bold mr-4 ${iconClass}`}>
+                    {service.prefix}
+                  </div>
+                  <div>
+                    <h3 className="text-xl font-bold text-slate-800 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">{service.name}</h3>
+                    <p className="text-slate-400 dark:text-slate-500 mt-1">{service.appointmentSlotMinutes} minute appointments</p>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* 2. Day & Slot */}
+        {step === 2 && selectedService && (
+          <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 animate-in slide-in-from-right duration-300">
+            <h2 className="text-xl font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-3">
+              <CalendarClock className="w-6 h-6 text-blue-500" />
+              {selectedService.name}
+            </h2>
+
+            {error && (
+              <div className="p-3 mb-4 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg text-center font-medium">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+              {days.map((day, i) => (
+                <button
+                  key={day.getTime()}
+                  onClick={() => { setDayOffset(i); setSelectedSlot(null); }}
+                  className={`flex-shrink-0 px-4 py-2 rounded-xl text-sm font-medium border transition ${dayOffset === i ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600'}`}
+                >
+                  <span className="block text-xs opacity-80">{day.toLocaleDateString(undefined, { weekday: 'short' })}</span>
+                  {day.getDate()}
+                </button>
+              ))}
+            </div>
+
+            {slots.length === 0 ? (
+              <p className="text-center text-slate-400 py-8">No times left on this day.</p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {slots.map(slot => (
+                  <button
+                    key={slot.start}
+                    disabled={slot.remaining === 0}
+                    onClick={() => setSelectedSlot(slot.start)}
+                    className={`py-2 rounded-lg text-sm font-semibold border transition disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${selectedSlot === slot.start ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 border-slate-200 dark:border-slate-600 hover:border-blue-400'}`}
+                  >
+                    {formatSlot(slot.start)}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-4 pt-6">
+              <button
+                onClick={() => { setError(''); setStep(1); }}
+                className="flex-1 px-6 py-3 rounded-xl border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+              >
+                Back
+              </button>
+              <button
+                disabled={selectedSlot === null}
+                onClick={() => { setError(''); setStep(3); }}
+                className="flex-1 px-6 py-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* 3. Details */}
+        {step === 3 && selectedService && selectedSlot !== null && (
+          <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 animate-in slide-in-from-right duration-300">
+            <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl text-blue-800 dark:text-blue-200 text-sm font-medium mb-6">
+              {selectedService.name} • {formatDay(selectedSlot)} at {formatSlot(selectedSlot)}
+            </div>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Full Name</label>
+                <input
+                  type="text"
+                  required
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  placeholder="John Doe"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Mobile Number <span className="text-slate-400 font-normal">(Optional)</span>
+                </label>
+                <div className="relative flex">
+                  {systemSettings.countryCode && (
+                    <div className="flex items-center justify-center px-3 border border-r-0 border-slate-300 dark:border-slate-600 bg-slate-100 dark:bg-slate-700/50 rounded-l-xl text-slate-500 dark:text-slate-400 font-medium">
+                      {systemSettings.countryCode}
+                    </div>
+                  )}
+                  <div className="relative flex-1">
+                    <Smartphone className="absolute left-3 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                    <input
+                      type="tel"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))}
+                      className={`w-full pl-10 pr-4 py-3 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all ${systemSettings.countryCode ? 'rounded-r-xl border-l-0' : 'rounded-xl'}`}
+                      placeholder="5550123"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex gap-4 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setStep(2)}
+                  className="flex-1 px-6 py-3 rounded-xl border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={!name || isProcessing}
+                  className="flex-1 px-6 py-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isProcessing ? <><Loader2 className="w-5 h-5 animate-spin" /> Wait...</> : 'Confirm Booking'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* 4. Confirmation */}
+        {step === 4 && booking && (
+          <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl shadow-2xl text-center border border-slate-100 dark:border-slate-700 animate-in fade-in duration-500">
+            {isCancelled ? (
+              <>
+                <XCircle className="w-16 h-16 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Booking Cancelled</h2>
+                <p className="text-slate-500 dark:text-slate-400 mb-6">Your appointment has been released.</p>
+              </>
+            ) : (
+              <>
+                <CheckCircle className="w-16 h-16 text-emerald-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">You're booked!</h2>
+                <p className="text-slate-500 dark:text-slate-400 mb-6">
+                  {services.find(s => s.id === booking.serviceId)?.name} • {formatDay(booking.scheduledAt)} at {formatSlot(booking.scheduledAt)}
+                </p>
+                <div className="bg-slate-50 dark:bg-slate-700/50 border-2 border-dashed border-slate-300 dark:border-slate-600 p-6 rounded-2xl mb-6">
+                  <p className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">Booking Code</p>
+                  <span className="text-4xl font-black text-slate-900 dark:text-white tracking-[0.2em]">{booking.code}</span>
+                </div>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">
+                  On arrival, tap "I have an appointment" at the kiosk and enter this code.
+                </p>
+                <button
+                  onClick={handleCancelBooking}
+                  className="text-red-500 text-sm font-semibold hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/10 py-2 px-4 rounded-lg transition-colors"
+                >
+                  Cancel Booking
+                </button>
+              </>
+            )}
+            <button
+              onClick={resetToStart}
+              className="mt-4 w-full flex items-center justify-center gap-2 text-sm text-slate-400 hover:text-slate-600"
+            >
+              <ArrowLeft className="w-4 h-4" /> Book Another
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { PASSWORD_MIN_LENGTH } from '../constants';
+import { Lock, KeyRound, ArrowRight, Moon, Sun, LogOut } from 'lucide-react';
+
+interface ChangePasswordViewProps {
+  currentUser: User;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  onLogout: () => void;
+  toggleTheme: () => void;
+  isDarkMode: boolean;
+}
+
+export const ChangePasswordView: React.FC<ChangePasswordViewProps> = ({ currentUser, onChangePassword, onLogout, toggleTheme, isDarkMode }) => {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < PASSWORD_MIN_LENGTH) {
+      setError(`New password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError('Choose a password different from the current one');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const success = await onChangePassword(currentPassword, newPassword);
+      if (!success) {
+        setError('Current password is incorrect');
+      }
+    } catch (err) {
+      setError('An error occurred while changing your password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = "w-full pl-12 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500";
+
+  return (
+    <div className="min-h-screen bg-slate-100 dark:bg-slate-950 flex flex-col items-center justify-center p-4 relative overflow-hidden transition-colors duration-300">
+      {/* Background decoration */}
+      <div className="absolute top-0 left-0 w-full h-full overflow-hidden z-0 pointer-events-none">
+        <div className="absolute -top-[20%] -left-[10%] w-[50%] h-[50%] rounded-full bg-blue-400/20 dark:bg-blue-600/20 blur-[100px]"></div>
+        <div className="absolute bottom-[10%] right-[10%] w-[30%] h-[30%] rounded-full bg-purple-400/20 dark:bg-purple-600/20 blur-[80px]"></div>
+      </div>
+
+      <div className="absolute top-4 right-4 z-20 flex gap-2">
+         <button
+           onClick={toggleTheme}
+           className="p-3 rounded-full bg-white/50 dark:bg-white/10 hover:bg-white/80 dark:hover:bg-white/20 text-slate-700 dark:text-white backdrop-blur-md transition-all border border-slate-200 dark:border-white/10"
+         >
+            {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+         </button>
+         <button
+           onClick={onLogout}
+           className="p-3 rounded-full bg-white/50 dark:bg-white/10 hover:bg-white/80 dark:hover:bg-white/20 text-slate-700 dark:text-white backdrop-blur-md transition-all border border-slate-200 dark:border-white/10"
+           title="Logout"
+         >
+            <LogOut className="w-5 h-5" />
+         </button>
+      </div>
+
+      <div className="z-10 w-full max-w-md bg-white dark:bg-slate-800 rounded-3xl shadow-2xl dark:shadow-black/50 overflow-hidden transition-colors duration-300 border border-slate-200 dark:border-slate-700">
+
+        {/* Header */}
+        <div className="bg-slate-50 dark:bg-slate-900/50 p-6 md:p-8 text-center border-b border-slate-100 dark:border-slate-700">
+          <div className="mx-auto w-16 h-16 bg-amber-500 rounded-2xl flex items-center justify-center shadow-lg shadow-amber-200 dark:shadow-amber-900/20 mb-4">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-800 dark:text-white">Set a New Password</h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">
+            Hi {currentUser.name}, your account is using a temporary password. Choose your own to continue.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 md:p-8 space-y-6 animate-in fade-in duration-300">
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg text-center font-medium animate-in fade-in">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Current Password</label>
+              <div className="relative">
+                <Lock className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                <input
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="••••••••"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">New Password</label>
+              <div className="relative">
+                <KeyRound className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Confirm New Password</label>
+              <div className="relative">
+                <KeyRound className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                <input
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="••••••••"
+                  required
+                />
+              </div>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-xl transition-all shadow-lg shadow-blue-200 dark:shadow-blue-900/20 flex items-center justify-center gap-2 disabled:opacity-70"
+          >
+            {loading ? (
+              <span className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></span>
+            ) : (
+              <>
+                Update Password <ArrowRight className="w-5 h-5" />
+              </>
+            )}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Ticket, TicketStatus, CounterState, AIInsight, ServiceDefinition, User, SystemSettings } from '../types';
+import { Ticket, TicketStatus, CounterState, CustomerHistory, AIInsight, ServiceDefinition, User, SystemSettings, Permission, NotificationChannel, NotificationEvent, NotificationStatus } from '../types';
 import { generateQueueInsight } from '../services/geminiService';
 import { COLOR_THEMES } from '../constants';
+import { getServableTickets } from '../lib/queueSelection';
+import { getActiveCounters, getCounterLabel } from '../lib/counters';
+import { hasPermission } from '../lib/permissions';
+import { postApi } from '../lib/api';
+import { CHANNEL_LABELS, getChannelRecipient, getDeepLink, getNotificationChannels, getTemplateValues, renderNotification } from '../lib/notifications';
 import { 
   Users, 
   Clock, 
@@ -23,7 +28,11 @@ import {
   MessageSquare,
   Send,
   Loader2,
-  ExternalLink
+  ExternalLink,
+  ArrowRightLeft,
+  Megaphone,
+  CalendarClock,
+  History
 } from 'lucide-react';
 
 interface CounterViewProps {
@@ -33,8 +42,11 @@ interface CounterViewProps {
   currentUser: User;
   currentCounterId: number;
   systemSettings: SystemSettings;
-  onCallNext: (counterId: number) => void;
+  onCallNext: (counterId: number) => Promise<void> | void;
   onUpdateStatus: (ticketId: string, status: TicketStatus) => void;
+  onTransferTicket: (ticketId: string, target: { serviceId: string; counterId?: number; placeAtFront: boolean }) => void;
+  onRecallTicket: (ticketId: string) => void;
+  onFetchCustomerHistory?: (ticketId: string) => Promise<CustomerHistory | null>;
   onToggleCounter: (counterId: number) => void;
   onChangeCounter: () => void;
   onLogout: () => void;
@@ -86,6 +98,9 @@ export const CounterView: React.FC<CounterViewProps> = ({
   systemSettings,
   onCallNext,
   onUpdateStatus,
+  onTransferTicket,
+  onRecallTicket,
+  onFetchCustomerHistory,
   onToggleCounter,
   onChangeCounter,
   onLogout,
@@ -112,6 +127,16 @@ export const CounterView: React.FC<CounterViewProps> = ({
   // State for notification sending
   const [isSendingNotification, setIsSendingNotification] = useState(false);
 
+  // Blocks repeat presses while the server assigns the next ticket
+  const [isCallingNext, setIsCallingNext] = useState(false);
+
+  // Transfer dialog state
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [transferMode, setTransferMode] = useState<'service' | 'counter'>('service');
+  const [transferServiceId, setTransferServiceId] = useState('');
+  const [transferCounterId, setTransferCounterId] = useState<number | null>(null);
+  const [transferToFront, setTransferToFront] = useState(false);
+
   useEffect(() => {
     localStorage.setItem('nova_staff_settings', JSON.stringify(settings));
   }, [settings]);
@@ -121,8 +146,25 @@ export const CounterView: React.FC<CounterViewProps> = ({
 
   const myCounter = counters.find(c => c.id === currentCounterId);
   const currentTicket = tickets.find(t => t.id === myCounter?.currentTicketId);
-  const waitingCount = tickets.filter(t => t.status === TicketStatus.WAITING).length;
+  const canTransfer = hasPermission(currentUser, Permission.TRANSFER_TICKETS);
+  // Only tickets for services routed to this counter (primary or fallback)
+  const waitingTickets = myCounter ? getServableTickets(tickets, myCounter) : [];
+  const waitingCount = waitingTickets.length;
   const completedCount = tickets.filter(t => t.status === TicketStatus.COMPLETED && t.counter === currentCounterId).length;
+  const suggestNoShow = !!currentTicket && systemSettings.recallsBeforeNoShow > 0
+    && (currentTicket.recallCount || 0) >= systemSettings.recallsBeforeNoShow;
+
+  // Earlier visits of a remembered customer, loaded when they are called
+  const [customerHistory, setCustomerHistory] = useState<CustomerHistory | null>(null);
+  useEffect(() => {
+    setCustomerHistory(null);
+    if (!currentTicket?.customerId || !onFetchCustomerHistory) return;
+    let cancelled = false;
+    onFetchCustomerHistory(currentTicket.id).then(history => {
+      if (!cancelled) setCustomerHistory(history);
+    });
+    return () => { cancelled = true; };
+  }, [currentTicket?.id, currentTicket?.customerId]);
 
   const prevWaitingCountRef = useRef(waitingCount);
   const prevIsOpenRef = useRef(myCounter?.isOpen ?? true);
@@ -144,57 +186,64 @@ export const CounterView: React.FC<CounterViewProps> = ({
     setIsGeneratingInsight(false);
   };
 
-  const sendWhatsAppNotification = async () => {
-    if (!currentTicket || !currentTicket.phone || !systemSettings.whatsappEnabled || isSendingNotification) return;
-    
-    const message = systemSettings.whatsappTemplate
-        .replace('{name}', currentTicket.name)
-        .replace('{number}', currentTicket.number)
-        .replace('{service}', currentTicket.serviceName)
-        .replace('{counter}', currentCounterId.toString());
-
-    // Fallback URL generator
-    const openDeepLink = () => {
-        const encodedMessage = encodeURIComponent(message);
-        const url = `https://wa.me/${currentTicket.phone?.replace(/[^0-9]/g, '')}?text=${encodedMessage}`;
-        window.open(url, '_blank');
-    };
-
-    if (systemSettings.whatsappApiKey) {
-        // Backend API Integration Mode
-        setIsSendingNotification(true);
-        try {
-            // Try to hit the backend
-            const response = await fetch('/api/send-whatsapp', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    phone: currentTicket.phone,
-                    message: message,
-                    ticketId: currentTicket.id,
-                    apiKey: systemSettings.whatsappApiKey 
-                })
-            });
+  const handleCallNext = async () => {
+    if (isCallingNext) return;
+    setIsCallingNext(true);
+    try {
+      await Promise.resolve(onCallNext(currentCounterId));
+    } finally {
+      setIsCallingNext(false);
+    }
+  };
+
+  const openTransferDialog = () => {
+    if (!currentTicket) return;
+    setTransferMode('service');
+    setTransferServiceId(services.find(s => s.id !== currentTicket.serviceId)?.id || currentTicket.serviceId);
+    setTransferCounterId(getActiveCounters(counters).find(c => c.id !== currentCounterId && c.isOpen)?.id ?? null);
+    setTransferToFront(false);
+    setShowTransfer(true);
+  };
 
+  const handleConfirmTransfer = () => {
+    if (!currentTicket) return;
+    if (transferMode === 'counter') {
+      if (transferCounterId === null) return;
+      // Counter transfers keep the service; the ticket waits for that counter only
+      onTransferTicket(currentTicket.id, { serviceId: currentTicket.serviceId, counterId: transferCounterId, placeAtFront: transferToFront });
+    } else {
+      onTransferTicket(currentTicket.id, { serviceId: transferServiceId, placeAtFront: transferToFront });
+    }
+    setShowTransfer(false);
+  };
+
+  const notifyChannels = currentTicket ? getNotificationChannels(currentTicket, systemSettings, NotificationEvent.CALLED) : [];
+
+  // The server sends the "Called" template, trying the ticket's channels in fallback order; if none gets
+  // through, opens the first channel's app on this device with the message prefilled
+  const sendNotification = async () => {
+    if (!currentTicket || notifyChannels.length === 0 || isSendingNotification) return;
+
+    setIsSendingNotification(true);
+    try {
+        try {
+            const response = await postApi('/api/send-notification', { ticketId: currentTicket.id });
             if (response.ok) {
-                alert('Notification sent successfully!');
-            } else {
-                // If backend fails (e.g. 404 because it doesn't exist), fallback to Deep Link
-                console.warn("Backend API unavailable, falling back to Deep Link");
-                openDeepLink();
+                const { channel } = await response.json();
+                alert(`Notification sent by ${CHANNEL_LABELS[channel as NotificationChannel]}!`);
+                return;
             }
+            console.warn("Notification could not be sent by any channel");
         } catch (error) {
             console.error("Error sending notification:", error);
-            // Network error -> Fallback
-            openDeepLink();
-        } finally {
-            setIsSendingNotification(false);
         }
-    } else {
-        // Direct Client-side Deep Link (Default)
-        openDeepLink();
+
+        const [firstChannel] = notifyChannels;
+        const values = { ...getTemplateValues(currentTicket, tickets, services, counters), counter: getCounterLabel(counters, currentCounterId) };
+        const { message, subject } = renderNotification(systemSettings, NotificationEvent.CALLED, firstChannel, values);
+        window.open(getDeepLink(firstChannel, getChannelRecipient(currentTicket, firstChannel) || '', message, subject), '_blank');
+    } finally {
+        setIsSendingNotification(false);
     }
   };
 
@@ -254,7 +303,7 @@ export const CounterView: React.FC<CounterViewProps> = ({
             <div>
                <div className="flex items-center gap-2 mb-0.5">
                     <span className="bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider">
-                        Counter {currentCounterId}
+                        {getCounterLabel(counters, currentCounterId)}
                     </span>
                     <button 
                         onClick={onChangeCounter}
@@ -452,12 +501,12 @@ export const CounterView: React.FC<CounterViewProps> = ({
                   </span>
                   <h1 className="text-5xl md:text-7xl font-black text-slate-900 dark:text-white mb-2 tracking-tighter">{currentTicket.number}</h1>
                   <p className="text-lg md:text-xl text-slate-500 dark:text-slate-400">{currentTicket.name}</p>
-                  {currentTicket.phone && (
+                  {(currentTicket.phone || currentTicket.email) && (
                       <div className="flex items-center justify-center gap-2 mt-2">
-                          <p className="text-sm text-slate-400">{currentTicket.phone}</p>
-                          {systemSettings.whatsappEnabled && (
+                          <p className="text-sm text-slate-400">{currentTicket.phone || currentTicket.email}</p>
+                          {notifyChannels.length > 0 && (
                             <button 
-                                onClick={sendWhatsAppNotification}
+                                onClick={sendNotification}
                                 disabled={isSendingNotification}
                                 className={`
                                     p-2 rounded-full transition-colors flex items-center justify-center gap-2 text-xs font-bold
@@ -466,16 +515,64 @@ export const CounterView: React.FC<CounterViewProps> = ({
                                         : 'text-emerald-500 hover:text-emerald-600 bg-emerald-50 hover:bg-emerald-100 dark:bg-emerald-900/20 dark:hover:bg-emerald-900/30'
                                     }
                                 `}
-                                title={systemSettings.whatsappApiKey ? "Send WhatsApp (Fallback to App)" : "Open WhatsApp"}
+                                title={`Send by ${notifyChannels.map(c => CHANNEL_LABELS[c]).join(', then ')}`}
                             >
                                 {isSendingNotification ? <Loader2 className="w-4 h-4 animate-spin" /> : <MessageSquare className="w-4 h-4" />}
                                 <span>Notify</span>
                             </button>
                           )}
+                          {currentTicket.notificationStatus && currentTicket.notifiedAt && (
+                            <span
+                                className={`text-[10px] font-bold uppercase ${currentTicket.notificationStatus === NotificationStatus.FAILED ? 'text-red-500' : currentTicket.notificationStatus === NotificationStatus.QUEUED ? 'text-amber-500' : 'text-emerald-500'}`}
+                                title={currentTicket.notificationError}
+                            >
+                                {currentTicket.notificationStatus} {new Date(currentTicket.notifiedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                          )}
                       </div>
                   )}
                 </div>
                 
+                {suggestNoShow && (
+                  <div className="mb-4 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/30 text-amber-800 dark:text-amber-200 text-sm flex flex-col sm:flex-row items-center justify-between gap-2 animate-in fade-in">
+                    <span className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      Called {currentTicket.recallCount} times with no response.
+                    </span>
+                    <button
+                      onClick={() => onUpdateStatus(currentTicket.id, TicketStatus.NO_SHOW)}
+                      className="px-3 py-1 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-bold transition"
+                    >
+                      Mark No-Show
+                    </button>
+                  </div>
+                )}
+
+                {customerHistory && (
+                  <div className="mb-4 p-3 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-left animate-in fade-in">
+                    <p className="text-sm font-semibold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                      <History className="w-4 h-4 text-blue-500" />
+                      {customerHistory.visitCount > 0
+                        ? `Returning customer · ${customerHistory.visitCount} earlier visit${customerHistory.visitCount === 1 ? '' : 's'}`
+                        : 'Remembered customer · first visit'}
+                    </p>
+                    {customerHistory.visits.length > 0 && (
+                      <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                        {customerHistory.visits.map(visit => (
+                          <li key={visit.ticketId} className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                            <span className="truncate">
+                              {new Date(visit.joinedAt).toLocaleDateString([], { day: 'numeric', month: 'short' })} · {visit.number} {visit.serviceName}
+                            </span>
+                            <span className={`font-bold uppercase text-[10px] flex-shrink-0 ${visit.status === TicketStatus.COMPLETED ? 'text-emerald-500' : visit.status === TicketStatus.NO_SHOW ? 'text-red-500' : 'text-slate-400'}`}>
+                              {visit.status.replace('_', ' ')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                    <button 
                     onClick={() => onUpdateStatus(currentTicket.id, TicketStatus.COMPLETED)}
@@ -491,6 +588,22 @@ export const CounterView: React.FC<CounterViewProps> = ({
                      <XCircle className="w-5 h-5" />
                      No Show
                    </button>
+                   <button 
+                    onClick={() => onRecallTicket(currentTicket.id)}
+                    className="flex items-center justify-center gap-2 p-3 md:p-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl font-bold hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                   >
+                     <Megaphone className="w-5 h-5" />
+                     Recall{currentTicket.recallCount ? ` (${currentTicket.recallCount})` : ''}
+                   </button>
+                   {canTransfer && (
+                   <button 
+                    onClick={openTransferDialog}
+                    className="flex items-center justify-center gap-2 p-3 md:p-4 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-xl font-bold hover:bg-slate-200 dark:hover:bg-slate-600 transition"
+                   >
+                     <ArrowRightLeft className="w-5 h-5" />
+                     Transfer
+                   </button>
+                   )}
                 </div>
               </div>
             ) : (
@@ -501,10 +614,11 @@ export const CounterView: React.FC<CounterViewProps> = ({
                  <h3 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Ready to Serve</h3>
                  <p className="text-slate-400 dark:text-slate-500 mb-8">Waiting for next customer...</p>
                  <button 
-                  onClick={() => onCallNext(currentCounterId)}
-                  disabled={waitingCount === 0}
-                  className="px-8 py-4 bg-blue-600 text-white text-lg rounded-xl font-bold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed shadow-xl shadow-blue-200 dark:shadow-blue-900/20"
+                  onClick={handleCallNext}
+                  disabled={waitingCount === 0 || isCallingNext}
+                  className="px-8 py-4 bg-blue-600 text-white text-lg rounded-xl font-bold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed shadow-xl shadow-blue-200 dark:shadow-blue-900/20 inline-flex items-center gap-2"
                  >
+                   {isCallingNext && <Loader2 className="w-5 h-5 animate-spin" />}
                    Call Next Ticket
                  </button>
                  
@@ -526,15 +640,12 @@ export const CounterView: React.FC<CounterViewProps> = ({
                <h3 className="font-bold text-slate-700 dark:text-slate-200">Waiting List</h3>
              </div>
              <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                {tickets.filter(t => t.status === TicketStatus.WAITING).length === 0 ? (
+                {waitingTickets.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500">
                     <p className="text-sm">No tickets waiting</p>
                   </div>
                 ) : (
-                  tickets
-                  .filter(t => t.status === TicketStatus.WAITING)
-                  .sort((a, b) => a.joinedAt - b.joinedAt)
-                  .map((ticket) => (
+                  waitingTickets.map((ticket) => (
                     <div key={ticket.id} className="p-3 hover:bg-slate-50 dark:hover:bg-slate-700/50 rounded-lg border border-transparent hover:border-slate-200 dark:hover:border-slate-600 transition group">
                       <div className="flex justify-between items-start mb-1">
                         <span className="font-bold text-slate-800 dark:text-white">{ticket.number}</span>
@@ -542,6 +653,18 @@ export const CounterView: React.FC<CounterViewProps> = ({
                       </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-slate-600 dark:text-slate-300 truncate max-w-[100px]">{ticket.name}</span>
+                        {ticket.transfers && ticket.transfers.length > 0 && (
+                          <span className="flex items-center gap-1 text-[10px] font-bold text-amber-600 dark:text-amber-400" title="Transferred">
+                            <ArrowRightLeft className="w-3 h-3" />
+                            {ticket.targetCounter ? getCounterLabel(counters, ticket.targetCounter) : 'Transfer'}
+                          </span>
+                        )}
+                        {ticket.appointmentAt && (
+                          <span className="flex items-center gap-1 text-[10px] font-bold text-blue-600 dark:text-blue-400" title="Appointment">
+                            <CalendarClock className="w-3 h-3" />
+                            {new Date(ticket.appointmentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
                         <div className={`w-2 h-2 rounded-full ${getServiceColorClass(ticket.serviceId).split(' ')[0].replace('bg-', 'bg-')}`}></div>
                       </div>
                     </div>
@@ -552,6 +675,88 @@ export const CounterView: React.FC<CounterViewProps> = ({
 
         </div>
       </div>
+
+      {/* Transfer Dialog */}
+      {showTransfer && currentTicket && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={() => setShowTransfer(false)}>
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in duration-200 border border-slate-100 dark:border-slate-700" onClick={(e) => e.stopPropagation()}>
+            <div className="p-4 border-b border-slate-100 dark:border-slate-700 flex justify-between items-center bg-slate-50 dark:bg-slate-900/50">
+              <h3 className="font-bold text-slate-700 dark:text-white flex items-center gap-2">
+                <ArrowRightLeft className="w-4 h-4" /> Transfer {currentTicket.number}
+              </h3>
+              <button onClick={() => setShowTransfer(false)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full p-1 hover:bg-slate-200 dark:hover:bg-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="flex bg-slate-100 dark:bg-slate-700 rounded-lg p-0.5">
+                {(['service', 'counter'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setTransferMode(mode)}
+                    className={`flex-1 px-2 py-1.5 text-xs font-medium rounded-md transition-all capitalize ${transferMode === mode ? 'bg-white dark:bg-slate-600 text-blue-600 dark:text-blue-400 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}
+                  >
+                    To {mode}
+                  </button>
+                ))}
+              </div>
+
+              {transferMode === 'service' ? (
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Service</label>
+                  <select
+                    value={transferServiceId}
+                    onChange={(e) => setTransferServiceId(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                  >
+                    {services.map(s => (
+                      <option key={s.id} value={s.id}>{s.name}{s.id === currentTicket.serviceId ? ' (current)' : ''}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Counter</label>
+                  <select
+                    value={transferCounterId ?? ''}
+                    onChange={(e) => setTransferCounterId(e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm"
+                  >
+                    <option value="">Select a counter</option>
+                    {getActiveCounters(counters).filter(c => c.id !== currentCounterId).map(c => (
+                      <option key={c.id} value={c.id}>{c.label}{c.isOpen ? '' : ' (closed)'}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={transferToFront}
+                  onChange={(e) => setTransferToFront(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm text-slate-700 dark:text-slate-300">Place at front of queue</span>
+              </label>
+              <p className="text-xs text-slate-400">
+                {transferToFront ? 'The customer will be called next.' : 'The customer keeps their original place based on join time.'}
+              </p>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button onClick={() => setShowTransfer(false)} className="px-4 py-2 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-sm">Cancel</button>
+                <button
+                  onClick={handleConfirmTransfer}
+                  disabled={transferMode === 'counter' ? transferCounterId === null : transferServiceId === currentTicket.serviceId}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Transfer
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
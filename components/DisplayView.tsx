@@ -2,7 +2,10 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Ticket, TicketStatus, CounterState, ServiceDefinition } from '../types';
 import { COLOR_THEMES } from '../constants';
-import { MonitorPlay, Clock, LogOut, Sun, Moon, Volume2, VolumeX, Timer } from 'lucide-react';
+import { compareQueueOrder } from '../lib/queueSelection';
+import { getCounterLabel } from '../lib/counters';
+import { estimateWaitMinutes } from '../lib/waitEstimate';
+import { MonitorPlay, Clock, LogOut, Sun, Moon, Volume2, VolumeX, Timer, ArrowRightLeft } from 'lucide-react';
 
 interface DisplayViewProps {
   tickets: Ticket[];
@@ -20,7 +23,7 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
   // Get upcoming waiting tickets (next 5) for display
   const waitingTickets = tickets
     .filter(t => t.status === TicketStatus.WAITING)
-    .sort((a, b) => a.joinedAt - b.joinedAt)
+    .sort(compareQueueOrder)
     .slice(0, 5);
 
   // State for dynamic wait times per service
@@ -33,6 +36,16 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
   const [isMuted, setIsMuted] = useState(false);
   const lastAnnouncedRef = useRef<string | null>(null);
 
+  // Recalled ticket card flashes for a few seconds
+  const [flashTicketId, setFlashTicketId] = useState<string | null>(null);
+  const flashTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (flashTimerRef.current) clearTimeout(flashTimerRef.current);
+    };
+  }, []);
+
   useEffect(() => {
     const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
@@ -40,19 +53,32 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
 
   // TTS Effect
   useEffect(() => {
-    // Find the most recently served ticket (latest timestamp)
-    const latestServing = [...servingTickets].sort((a, b) => (b.servedAt || 0) - (a.servedAt || 0))[0];
+    // A ticket is "called" when first served and again on every recall
+    const getCalledAt = (t: Ticket) => Math.max(t.servedAt || 0, t.lastRecalledAt || 0);
+
+    // Find the most recently called ticket (latest timestamp)
+    const latestServing = [...servingTickets].sort((a, b) => getCalledAt(b) - getCalledAt(a))[0];
+
+    // Key on the call time too, so recalls and re-calls after a transfer are re-announced
+    const announcementKey = latestServing ? `${latestServing.id}:${getCalledAt(latestServing)}` : null;
 
     // Check if we have a ticket, it's different from the last one, and audio is on
-    if (latestServing && latestServing.id !== lastAnnouncedRef.current) {
-        lastAnnouncedRef.current = latestServing.id;
+    if (latestServing && announcementKey !== lastAnnouncedRef.current) {
+        lastAnnouncedRef.current = announcementKey;
+
+        const isRecall = !!latestServing.lastRecalledAt && latestServing.lastRecalledAt >= (latestServing.servedAt || 0);
+        if (isRecall) {
+            setFlashTicketId(latestServing.id);
+            if (flashTimerRef.current) clearTimeout(flashTimerRef.current);
+            flashTimerRef.current = setTimeout(() => setFlashTicketId(null), 5000);
+        }
         
         if (!isMuted && 'speechSynthesis' in window) {
             // Cancel any current speaking
             window.speechSynthesis.cancel();
             
             // Updated announcement to include name
-            const text = `Ticket number ${latestServing.number}, ${latestServing.name}, please proceed to Counter ${latestServing.counter}`;
+            const text = `${isRecall ? 'Calling again. ' : ''}Ticket number ${latestServing.number}, please proceed to ${getCounterLabel(counters, latestServing.counter)}`;
             const utterance = new SpeechSynthesisUtterance(text);
             utterance.rate = 0.9; // Slightly slower for clarity
             
@@ -64,52 +90,12 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
             window.speechSynthesis.speak(utterance);
         }
     }
-  }, [servingTickets, isMuted]);
+  }, [servingTickets, counters, isMuted]);
 
   useEffect(() => {
     const calculateWaitTimes = () => {
-      const calcNow = Date.now();
-      
-      const currentlyServing = tickets.filter(t => t.status === TicketStatus.SERVING);
-      const allWaiting = tickets.filter(t => t.status === TicketStatus.WAITING);
-
-      // Optimization: If system is completely empty, show 0 wait time
-      if (currentlyServing.length === 0 && allWaiting.length === 0) {
-        const zeroEstimates: Record<string, number> = {};
-        services.forEach(s => zeroEstimates[s.id] = 0);
-        setServiceEstimates(zeroEstimates);
-        return;
-      }
-
-      // 1. Define Standard Session Duration per Service
-      const standardTimes: Record<string, number> = {};
-      services.forEach(service => {
-         standardTimes[service.id] = (service.defaultWaitTime || 5) * 60 * 1000;
-      });
-
-      // 2. Calculate remaining time for currently serving tickets
-      const activeCountersCount = counters.filter(c => c.isOpen).length || 1;
-
-      const servingBacklog = currentlyServing.reduce((acc, t) => {
-        // If ticket served time is missing or in future, assume full standard duration
-        if (!t.servedAt || t.servedAt > calcNow) return acc + (standardTimes[t.serviceId] || 300000);
-        
-        const elapsed = calcNow - t.servedAt;
-        const duration = standardTimes[t.serviceId] || 300000;
-        // Assume at least 30 seconds remaining even if overdue
-        const remaining = Math.max(30000, duration - elapsed); 
-        return acc + remaining;
-      }, 0);
-
-      // 3. Calculate total waiting backlog using standard times
-      const waitingBacklog = allWaiting.reduce((acc, t) => acc + (standardTimes[t.serviceId] || 300000), 0);
-
-      // 4. Total backlog / Active Counters
-      const totalBacklog = servingBacklog + waitingBacklog;
-      const estTimeMs = totalBacklog / activeCountersCount;
-      
-      // Round up to nearest minute
-      const estMinutes = Math.ceil(estTimeMs / 60000);
+      // Every service shares the counters, so a newcomer waits the same whichever they pick
+      const estMinutes = estimateWaitMinutes(tickets, services, counters);
 
       const newEstimates: Record<string, number> = {};
       services.forEach(service => {
@@ -201,14 +187,18 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
             </div>
           ) : (
             servingTickets.map((ticket) => (
-              <div key={ticket.id} className="bg-white dark:bg-slate-900 rounded-3xl p-6 md:p-8 border-l-8 border-blue-500 shadow-xl dark:shadow-2xl relative overflow-hidden animate-in zoom-in duration-300 ring-1 ring-slate-100 dark:ring-0">
+              <div key={ticket.id} className={`bg-white dark:bg-slate-900 rounded-3xl p-6 md:p-8 border-l-8 shadow-xl dark:shadow-2xl relative overflow-hidden animate-in zoom-in duration-300 transition-all ${
+                flashTicketId === ticket.id
+                  ? 'border-amber-500 ring-4 ring-amber-400 animate-pulse'
+                  : 'border-blue-500 ring-1 ring-slate-100 dark:ring-0'
+              }`}>
                 <div className="absolute top-0 right-0 p-4 opacity-5 dark:opacity-10">
-                  <span className="text-6xl md:text-9xl font-black text-slate-900 dark:text-white">{ticket.counter}</span>
+                  <span className="text-6xl md:text-9xl font-black whitespace-nowrap text-slate-900 dark:text-white">{getCounterLabel(counters, ticket.counter)}</span>
                 </div>
                 <div className="relative z-10 flex flex-col h-full justify-between">
                    <div>
                         <p className="text-slate-500 dark:text-slate-400 text-sm md:text-lg uppercase tracking-wider font-semibold mb-2">Counter</p>
-                        <p className="text-5xl md:text-6xl font-black text-slate-900 dark:text-white mb-4 md:mb-6">{ticket.counter}</p>
+                        <p className="text-3xl md:text-5xl font-black text-slate-900 dark:text-white mb-4 md:mb-6 truncate">{getCounterLabel(counters, ticket.counter)}</p>
                    </div>
                    
                    <div className="border-t border-slate-100 dark:border-slate-800 pt-4 md:pt-6">
@@ -226,7 +216,7 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
                             </p>
                         </div>
                      </div>
-                     <p className="text-xl md:text-2xl font-medium text-slate-600 dark:text-slate-300 mt-2 truncate">{ticket.name}</p>
+                     <p className="text-xl md:text-2xl font-medium text-slate-600 dark:text-slate-300 mt-2 truncate">{ticket.serviceName}</p>
                    </div>
                 </div>
               </div>
@@ -255,7 +245,12 @@ export const DisplayView: React.FC<DisplayViewProps> = ({ tickets, counters, ser
                       </span>
                       <div>
                         <p className="text-xl md:text-2xl font-bold text-slate-800 dark:text-white tracking-tight">{ticket.number}</p>
-                        <p className="text-[10px] md:text-xs text-slate-500 dark:text-slate-500 truncate max-w-[100px] md:max-w-[120px]">{ticket.name}</p>
+                        {ticket.transfers && ticket.transfers.length > 0 && (
+                          <p className="text-[10px] md:text-xs font-semibold text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                            <ArrowRightLeft className="w-3 h-3" />
+                            {ticket.targetCounter ? `Transferred to ${getCounterLabel(counters, ticket.targetCounter)}` : 'Transferred'}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className={`text-[10px] md:text-xs px-2 py-1 rounded border ${getServiceColorClass(ticket.serviceId).replace('bg-', 'bg-opacity-20 ')}`}>
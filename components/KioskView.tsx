@@ -1,14 +1,25 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Ticket, ServiceDefinition, SystemSettings } from '../types';
+import QRCode from 'qrcode';
+import { Customer, Ticket, ServiceDefinition, SystemSettings, NotificationChannel } from '../types';
 import { COLOR_THEMES } from '../constants';
-import { UserPlus, CheckCircle, Smartphone, XCircle, AlertTriangle, LogOut, Sun, Moon, Clock, Loader2 } from 'lucide-react';
+import { UserPlus, CheckCircle, Smartphone, Mail, XCircle, AlertTriangle, LogOut, Sun, Moon, Clock, Loader2, CalendarClock, Radio, Printer } from 'lucide-react';
 import { generateWelcomeMessage } from '../services/geminiService';
+import { CHANNEL_LABELS, getEnabledChannels } from '../lib/notifications';
+import { getTrackingUrl } from '../lib/tracking';
+import { buildEscPosTicket, getPrintableTicket, sendToPrintBridge } from '../lib/printing';
+import { PrintedTicket } from './PrintedTicket';
+
+// Digits typed before a returning customer is looked up
+const LOOKUP_MIN_DIGITS = 6;
 
 interface KioskViewProps {
   services: ServiceDefinition[];
-  onJoinQueue: (name: string, serviceId: string, phone: string) => Ticket;
-  onCancelTicket: (ticketId: string) => void;
+  tickets?: Ticket[]; // For the place in line on printed tickets
+  onJoinQueue: (name: string, serviceId: string, phone: string, email?: string, notifyChannel?: NotificationChannel, remember?: boolean) => Ticket;
+  onCancelTicket: (ticketId: string, token?: string) => void;
+  onCheckInAppointment?: (code: string) => Promise<Ticket | null>;
+  onLookupCustomer?: (phone: string) => Promise<Pick<Customer, 'name' | 'notifyChannel'> | null>; // Paired kiosks only
   onLogout: () => void;
   toggleTheme: () => void;
   isDarkMode: boolean;
@@ -18,8 +29,11 @@ interface KioskViewProps {
 
 export const KioskView: React.FC<KioskViewProps> = ({ 
   services, 
+  tickets = [],
   onJoinQueue, 
   onCancelTicket, 
+  onCheckInAppointment,
+  onLookupCustomer,
   onLogout, 
   toggleTheme, 
   isDarkMode, 
@@ -29,10 +43,28 @@ export const KioskView: React.FC<KioskViewProps> = ({
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [name, setName] = useState('');
   const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  // undefined until the customer picks: defaults to the first enabled channel; null = no notifications
+  const [notifyChannel, setNotifyChannel] = useState<NotificationChannel | null | undefined>(undefined);
+  const [remember, setRemember] = useState(false); // Consent to save the details for next time
+  const [returningCustomer, setReturningCustomer] = useState<Pick<Customer, 'name' | 'notifyChannel'> | null>(null);
   const [selectedServiceId, setSelectedServiceId] = useState<string | null>(null);
   const [generatedTicket, setGeneratedTicket] = useState<Ticket | null>(null);
   const [welcomeMsg, setWelcomeMsg] = useState('');
+  const [trackingQr, setTrackingQr] = useState<string | null>(null); // Kiosk only: lets the customer carry the ticket on their phone
   const [isProcessing, setIsProcessing] = useState(false);
+
+  // Printing is for the kiosk itself, never a customer's phone
+  const printing = !isMobileMode && systemSettings?.ticketPrinting?.mode !== 'off' ? systemSettings?.ticketPrinting : undefined;
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [printError, setPrintError] = useState('');
+  const autoPrintedTicketRef = useRef<string | null>(null);
+
+  // Appointment check-in state
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [bookingCode, setBookingCode] = useState('');
+  const [checkInError, setCheckInError] = useState('');
+  const canCheckIn = !!onCheckInAppointment && !!systemSettings?.allowAppointments;
   
   // Operating Hours Logic
   const [isShopOpen, setIsShopOpen] = useState(true);
@@ -95,17 +127,30 @@ export const KioskView: React.FC<KioskViewProps> = ({
     }
   };
 
+  // Where a phone started, so Start Over leaves the tracking link set by startTracking
+  const entryUrlRef = useRef(window.location.href);
+
   const resetToStart = () => {
     clearResetTimer();
+    if (isMobileMode) window.history.replaceState(null, '', entryUrlRef.current);
     setStep(1);
     setName('');
     setPhone('');
+    setEmail('');
+    setNotifyChannel(undefined);
+    setRemember(false);
+    setReturningCustomer(null);
     setSelectedServiceId(null);
     setGeneratedTicket(null);
     setWelcomeMsg('');
+    setTrackingQr(null);
+    setPrintError('');
     setShowCancelConfirm(false);
     setIsCancelled(false);
     setIsProcessing(false);
+    setIsCheckingIn(false);
+    setBookingCode('');
+    setCheckInError('');
   };
 
   // Cleanup on unmount
@@ -113,6 +158,54 @@ export const KioskView: React.FC<KioskViewProps> = ({
     return () => clearResetTimer();
   }, []);
 
+  const enabledChannels = systemSettings ? getEnabledChannels(systemSettings) : [];
+  const selectedChannel = notifyChannel === undefined ? enabledChannels[0] ?? null : notifyChannel;
+  const isEmailChannel = selectedChannel === NotificationChannel.EMAIL;
+  // Without any channel enabled the number is still collected, as an optional contact
+  const collectsPhone = enabledChannels.length === 0 || (!!selectedChannel && !isEmailChannel);
+
+  // Concatenate country code if available and phone is entered
+  const getFullPhone = (enteredPhone: string) => (enteredPhone && systemSettings?.countryCode)
+      ? `${systemSettings.countryCode}${enteredPhone.replace(/^0+/, '')}` // remove leading zeros if any
+      : enteredPhone;
+
+  // Returning customers: once the number looks complete, fill in what they saved last time
+  useEffect(() => {
+    setReturningCustomer(null);
+    if (!onLookupCustomer || !collectsPhone || phone.length < LOOKUP_MIN_DIGITS) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      onLookupCustomer(getFullPhone(phone)).then(customer => {
+        if (cancelled || !customer) return;
+        setReturningCustomer(customer);
+        setRemember(true);
+        setName(current => current || customer.name);
+        if (customer.notifyChannel && customer.notifyChannel !== NotificationChannel.EMAIL && enabledChannels.includes(customer.notifyChannel)) {
+          setNotifyChannel(current => current === undefined ? customer.notifyChannel : current);
+        }
+      });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [phone, collectsPhone]);
+
+  // Phone: a reload now opens the live tracking page instead of losing the ticket.
+  // Kiosk: a QR code so the customer can carry the ticket on their phone.
+  const startTracking = (ticket: Ticket) => {
+    if (!ticket.trackingToken) return;
+    const trackingUrl = getTrackingUrl(ticket.id, ticket.trackingToken);
+    if (isMobileMode) {
+      window.history.replaceState(null, '', trackingUrl);
+      return;
+    }
+    QRCode.toDataURL(trackingUrl, { width: 200, margin: 1 })
+      .then(setTrackingQr)
+      .catch(error => console.error("Error generating tracking QR code:", error));
+  };
+
   const handleServiceSelect = (id: string) => {
     setSelectedServiceId(id);
     setStep(2);
@@ -124,12 +217,16 @@ export const KioskView: React.FC<KioskViewProps> = ({
 
     setIsProcessing(true);
     try {
-        // Concatenate country code if available and phone is entered
-        const fullPhone = (phone && systemSettings?.countryCode) 
-            ? `${systemSettings.countryCode}${phone.replace(/^0+/, '')}` // remove leading zeros if any
-            : phone;
-
-        const ticket = await Promise.resolve(onJoinQueue(name, selectedServiceId, fullPhone)); 
+        const fullPhone = getFullPhone(collectsPhone ? phone : '');
+
+        const ticket = await Promise.resolve(onJoinQueue(
+            name,
+            selectedServiceId,
+            fullPhone,
+            isEmailChannel ? email.trim() : undefined,
+            selectedChannel ?? undefined,
+            remember && !!fullPhone
+        )); 
         setGeneratedTicket(ticket);
         setStep(3);
         
@@ -139,9 +236,10 @@ export const KioskView: React.FC<KioskViewProps> = ({
 
         // Generate AI welcome message
         generateWelcomeMessage(ticket).then(setWelcomeMsg);
+        startTracking(ticket);
 
-        // Start auto-reset timer
-        startResetTimer();
+        // Start auto-reset timer (longer when there is a QR code to scan)
+        startResetTimer(ticket.trackingToken ? 15000 : 8000);
     } catch (error) {
         console.error("Failed to join queue", error);
         alert("Could not join queue. Please try again.");
@@ -150,6 +248,59 @@ export const KioskView: React.FC<KioskViewProps> = ({
     }
   };
 
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCheckInAppointment || !bookingCode || isProcessing) return;
+
+    setIsProcessing(true);
+    setCheckInError('');
+    try {
+        const ticket = await onCheckInAppointment(bookingCode);
+        if (!ticket) {
+            setCheckInError("We couldn't find a booking for today with that code.");
+            return;
+        }
+        setGeneratedTicket(ticket);
+        setIsCheckingIn(false);
+        setStep(3);
+        setShowCancelConfirm(false);
+        setIsCancelled(false);
+        generateWelcomeMessage(ticket).then(setWelcomeMsg);
+        startTracking(ticket);
+        startResetTimer(ticket.trackingToken ? 15000 : 8000);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (!generatedTicket || !printing) return;
+    setPrintError('');
+    if (printing.mode === 'browser') {
+      window.print();
+      return;
+    }
+
+    setIsPrinting(true);
+    try {
+      await sendToPrintBridge(printing.bridgeUrl, buildEscPosTicket(getPrintableTicket(generatedTicket, tickets), printing.paperWidth));
+    } catch (error) {
+      console.error("Error printing ticket:", error);
+      setPrintError("The printer is not responding. Please note your ticket number.");
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  // Auto-print once per ticket; the browser layout waits for its QR code
+  useEffect(() => {
+    if (!printing?.autoPrint || step !== 3 || !generatedTicket) return;
+    if (printing.mode === 'browser' && generatedTicket.trackingToken && !trackingQr) return;
+    if (autoPrintedTicketRef.current === generatedTicket.id) return;
+    autoPrintedTicketRef.current = generatedTicket.id;
+    handlePrint();
+  }, [step, generatedTicket, trackingQr, printing?.autoPrint]);
+
   const handleInitiateCancel = () => {
     clearResetTimer(); // Stop auto-close while user decides
     setShowCancelConfirm(true);
@@ -157,7 +308,7 @@ export const KioskView: React.FC<KioskViewProps> = ({
 
   const handleConfirmCancel = () => {
     if (generatedTicket) {
-      onCancelTicket(generatedTicket.id);
+      onCancelTicket(generatedTicket.id, generatedTicket.trackingToken);
       setIsCancelled(true);
       setShowCancelConfirm(false);
       // Show "Cancelled" message for a moment then reset
@@ -176,6 +327,21 @@ export const KioskView: React.FC<KioskViewProps> = ({
     return theme;
   };
 
+  // Kiosks that can recognise returning customers ask for the number first, so the name can be filled in
+  const nameField = (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Full Name</label>
+      <input
+        type="text"
+        required
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full px-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+        placeholder="John Doe"
+      />
+    </div>
+  );
+
   // --- Render Views ---
 
   // 1. Closed Shop View
@@ -276,13 +442,16 @@ export const KioskView: React.FC<KioskViewProps> = ({
     }
 
     return (
-      <div className="flex flex-col items-center justify-center h-full p-4 md:p-8 bg-slate-50 dark:bg-slate-950 animate-in fade-in duration-500">
+      <>
+      <div className="flex flex-col items-center justify-center h-full p-4 md:p-8 bg-slate-50 dark:bg-slate-950 animate-in fade-in duration-500 print:hidden">
         <div className="bg-white dark:bg-slate-800 p-8 md:p-10 rounded-3xl shadow-2xl text-center max-w-md w-full border border-slate-100 dark:border-slate-700 relative">
           <div className="flex justify-center mb-6">
             <CheckCircle className="w-16 h-16 md:w-20 md:h-20 text-emerald-500" />
           </div>
           <h2 className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-white mb-2">You are in line!</h2>
-          <p className="text-slate-500 dark:text-slate-400 mb-8">No need to print. We'll call you.</p>
+          <p className="text-slate-500 dark:text-slate-400 mb-8">
+            {printing?.autoPrint ? "Please take your printed ticket. We'll call you." : "No need to print. We'll call you."}
+          </p>
           
           <div className="bg-slate-50 dark:bg-slate-700/50 border-2 border-dashed border-slate-300 dark:border-slate-600 p-6 rounded-2xl mb-6">
             <p className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">Your Ticket Number</p>
@@ -291,11 +460,41 @@ export const KioskView: React.FC<KioskViewProps> = ({
             </span>
           </div>
 
+          {trackingQr && (
+            <div className="flex items-center gap-4 text-left bg-slate-50 dark:bg-slate-700/50 p-4 rounded-2xl mb-6">
+              <img src={trackingQr} alt="Tracking link QR code" className="w-24 h-24 rounded-lg bg-white p-1 shrink-0" />
+              <p className="text-sm text-slate-600 dark:text-slate-300">
+                <span className="block font-bold text-slate-800 dark:text-white mb-1">Scan to follow your turn</span>
+                See your place in line live on your phone and get alerted when you're called.
+              </p>
+            </div>
+          )}
+
+          {isMobileMode && generatedTicket.trackingToken && (
+            <a
+              href={getTrackingUrl(generatedTicket.id, generatedTicket.trackingToken)}
+              className="w-full flex items-center justify-center gap-2 py-3 mb-6 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors"
+            >
+              <Radio className="w-5 h-5" /> Follow My Place in Line
+            </a>
+          )}
+
           <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl text-blue-800 dark:text-blue-200 text-sm font-medium mb-8">
             {welcomeMsg || "Loading your personalized welcome..."}
           </div>
 
           <div className="flex flex-col gap-4">
+            {printing && (
+              <button
+                onClick={handlePrint}
+                disabled={isPrinting}
+                className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border-2 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white font-bold hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+              >
+                {isPrinting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Printer className="w-5 h-5" />}
+                {printing.autoPrint ? 'Print Again' : 'Print Ticket'}
+              </button>
+            )}
+            {printError && <p className="text-sm text-red-500">{printError}</p>}
             {!isMobileMode && (
               <p className="text-xs text-slate-400 dark:text-slate-500">
                 This screen will close automatically in a few seconds.
@@ -319,6 +518,10 @@ export const KioskView: React.FC<KioskViewProps> = ({
           </div>
         </div>
       </div>
+      {printing?.mode === 'browser' && (
+        <PrintedTicket ticket={getPrintableTicket(generatedTicket, tickets)} qrDataUrl={trackingQr} paperWidth={printing.paperWidth} />
+      )}
+      </>
     );
   }
 
@@ -352,7 +555,50 @@ export const KioskView: React.FC<KioskViewProps> = ({
           <p className="text-lg md:text-xl text-slate-500 dark:text-slate-400">Please select a service to join the digital queue</p>
         </div>
 
-        {step === 1 && (
+        {step === 1 && isCheckingIn && (
+          <div className="max-w-md mx-auto w-full bg-white dark:bg-slate-800 p-6 md:p-8 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 animate-in slide-in-from-right duration-300">
+            <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2 flex items-center gap-3">
+              <CalendarClock className="w-6 h-6 text-blue-500" />
+              Appointment Check-in
+            </h2>
+            <p className="text-slate-500 dark:text-slate-400 mb-6">Enter the booking code from your confirmation.</p>
+            <form onSubmit={handleCheckIn} className="space-y-6">
+              {checkInError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg text-center font-medium">
+                  {checkInError}
+                </div>
+              )}
+              <input
+                type="text"
+                required
+                autoFocus
+                maxLength={6}
+                value={bookingCode}
+                onChange={(e) => setBookingCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+                className="w-full px-4 py-4 rounded-xl border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white text-center text-3xl font-black tracking-[0.3em] focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                placeholder="ABC123"
+              />
+              <div className="flex gap-4">
+                <button
+                  type="button"
+                  onClick={() => { setIsCheckingIn(false); setBookingCode(''); setCheckInError(''); }}
+                  className="flex-1 px-6 py-3 rounded-xl border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={!bookingCode || isProcessing}
+                  className="flex-1 px-6 py-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-200 dark:shadow-blue-900/20 flex items-center justify-center gap-2"
+                >
+                  {isProcessing ? <><Loader2 className="w-5 h-5 animate-spin" /> Wait...</> : 'Check In'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {step === 1 && !isCheckingIn && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
             {services.map((service) => {
               const theme = getServiceStyles(service.colorTheme);
@@ -378,6 +624,16 @@ export const KioskView: React.FC<KioskViewProps> = ({
           </div>
         )}
 
+        {step === 1 && !isCheckingIn && canCheckIn && (
+          <button
+            onClick={() => { clearResetTimer(); setIsCheckingIn(true); }}
+            className="mt-6 mx-auto flex items-center gap-2 px-6 py-3 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-semibold hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+          >
+            <CalendarClock className="w-5 h-5" />
+            I have an appointment
+          </button>
+        )}
+
         {step === 2 && (
           <div className="max-w-md mx-auto w-full bg-white dark:bg-slate-800 p-6 md:p-8 rounded-3xl shadow-lg border border-slate-100 dark:border-slate-700 animate-in slide-in-from-right duration-300">
             <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-6 flex items-center gap-3">
@@ -385,21 +641,32 @@ export const KioskView: React.FC<KioskViewProps> = ({
               Your Details
             </h2>
             <form onSubmit={handleSubmit} className="space-y-6">
+              {!onLookupCustomer && nameField}
+              
+              {enabledChannels.length > 0 && (
               <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Full Name</label>
-                <input
-                  type="text"
-                  required
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  className="w-full px-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
-                  placeholder="John Doe"
-                />
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Notify me by</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {[...enabledChannels, null].map(channel => (
+                    <button
+                      key={channel ?? 'none'}
+                      type="button"
+                      onClick={() => setNotifyChannel(channel)}
+                      className={`px-4 py-3 rounded-xl border text-sm font-medium transition-colors ${selectedChannel === channel
+                        ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                        : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                    >
+                      {channel ? CHANNEL_LABELS[channel] : 'No thanks'}
+                    </button>
+                  ))}
+                </div>
               </div>
-              
+              )}
+
+              {collectsPhone && (
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Mobile Number <span className="text-slate-400 font-normal">(Optional)</span>
+                  Mobile Number {!selectedChannel && <span className="text-slate-400 font-normal">(Optional)</span>}
                 </label>
                 <div className="relative flex">
                   {systemSettings?.countryCode && (
@@ -411,6 +678,7 @@ export const KioskView: React.FC<KioskViewProps> = ({
                     <Smartphone className="absolute left-3 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
                     <input
                         type="tel"
+                        required={!!selectedChannel}
                         value={phone}
                         onChange={(e) => setPhone(e.target.value.replace(/\D/g,''))}
                         className={`w-full pl-10 pr-4 py-3 border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all ${systemSettings?.countryCode ? 'rounded-r-xl border-l-0' : 'rounded-xl'}`}
@@ -418,8 +686,53 @@ export const KioskView: React.FC<KioskViewProps> = ({
                     />
                   </div>
                 </div>
-                <p className="text-xs text-slate-400 mt-2">We can send you WhatsApp notifications.</p>
+                {selectedChannel && (
+                  <p className="text-xs text-slate-400 mt-2">We'll send your updates by {CHANNEL_LABELS[selectedChannel]}.</p>
+                )}
+                {returningCustomer && (
+                  <p className="text-sm text-emerald-600 dark:text-emerald-400 mt-2 flex items-center gap-1.5">
+                    <CheckCircle className="w-4 h-4" />
+                    Welcome back, {returningCustomer.name.split(' ')[0]}!
+                  </p>
+                )}
+              </div>
+              )}
+
+              {isEmailChannel && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Email Address</label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                  <input
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 dark:bg-slate-700 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                    placeholder="you@example.com"
+                  />
+                </div>
+              </div>
+              )}
+
+              {onLookupCustomer && nameField}
+
+              {collectsPhone && phone && (
+              <div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={(e) => setRemember(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-slate-700 dark:text-slate-300">Remember me for faster check-in next time</span>
+                </label>
+                <p className="text-xs text-slate-400 mt-1">
+                  We save your name, number and how to reach you. You can delete them at any time from your ticket's tracking page or by asking our staff.
+                </p>
               </div>
+              )}
 
               <div className="flex gap-4 pt-4">
                 <button
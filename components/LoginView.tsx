@@ -1,25 +1,39 @@
 
 import React, { useState } from 'react';
 import { UserRole } from '../types';
-import { Lock, ArrowRight, ShieldCheck, Moon, Sun, KeyRound, ArrowLeft } from 'lucide-react';
+import { PASSWORD_MIN_LENGTH } from '../constants';
+import { Lock, ArrowRight, ShieldCheck, Moon, Sun, KeyRound, ArrowLeft, Ticket, MonitorSmartphone } from 'lucide-react';
 
 interface LoginViewProps {
   onLogin: (username: string, pass: string, rememberMe: boolean) => Promise<boolean>;
+  onRequestReset: (username: string) => Promise<void>;
+  onRedeemReset: (username: string, code: string, newPassword: string) => Promise<boolean>;
+  onPairDevice: (code: string) => Promise<boolean>;
+  initialPairingCode?: string | null; // Pre-filled from a ?pair= link
   toggleTheme: () => void;
   isDarkMode: boolean;
 }
 
-export const LoginView: React.FC<LoginViewProps> = ({ onLogin, toggleTheme, isDarkMode }) => {
+export const LoginView: React.FC<LoginViewProps> = ({ onLogin, onRequestReset, onRedeemReset, onPairDevice, initialPairingCode, toggleTheme, isDarkMode }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   
-  // New state for reset password view
+  // Reset password view: request a code from an admin, then redeem it
   const [isResetMode, setIsResetMode] = useState(false);
+  const [resetStep, setResetStep] = useState<'request' | 'requested' | 'redeem' | 'done'>('request');
   const [resetUsername, setResetUsername] = useState('');
-  const [resetSubmitted, setResetSubmitted] = useState(false);
+  const [resetCode, setResetCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [resetError, setResetError] = useState('');
+
+  // Pair view: a kiosk or display redeems a code issued from the admin Devices tab
+  const [isPairMode, setIsPairMode] = useState(!!initialPairingCode);
+  const [pairingCode, setPairingCode] = useState(initialPairingCode || '');
+  const [pairError, setPairError] = useState('');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -38,14 +52,75 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin, toggleTheme, isDa
     }
   };
 
-  const handleResetSubmit = (e: React.FormEvent) => {
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      await onRequestReset(resetUsername.trim());
+    } finally {
+      setLoading(false);
+      setResetStep('requested');
+    }
+  };
+
+  const handleRedeemSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setResetError('');
+
+    if (newPassword.length < PASSWORD_MIN_LENGTH) {
+      setResetError(`New password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setResetError('New passwords do not match');
+      return;
+    }
+
     setLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-        setLoading(false);
-        setResetSubmitted(true);
-    }, 1000);
+    try {
+      const success = await onRedeemReset(resetUsername.trim(), resetCode, newPassword);
+      if (success) {
+        setResetStep('done');
+      } else {
+        setResetError('Invalid or expired reset code');
+      }
+    } catch (err) {
+      setResetError('An error occurred while resetting your password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePairSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPairError('');
+    setLoading(true);
+    try {
+      const success = await onPairDevice(pairingCode);
+      if (!success) {
+        setPairError('Invalid or expired pairing code');
+      }
+    } catch (err) {
+      setPairError('An error occurred while pairing this screen');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exitPairMode = () => {
+    setIsPairMode(false);
+    setPairingCode('');
+    setPairError('');
+  };
+
+  const exitResetMode = () => {
+    if (resetStep === 'done') setUsername(resetUsername.trim());
+    setIsResetMode(false);
+    setResetStep('request');
+    setResetCode('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setResetError('');
   };
 
   return (
@@ -74,33 +149,170 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin, toggleTheme, isDa
           </div>
           <h1 className="text-2xl font-bold text-slate-800 dark:text-white">Nova QMS</h1>
           <p className="text-slate-500 dark:text-slate-400 mt-2">
-            {isResetMode ? 'Account Recovery' : 'Secure Access Portal'}
+            {isPairMode ? 'Pair This Screen' : isResetMode ? 'Account Recovery' : 'Secure Access Portal'}
           </p>
         </div>
 
-        {isResetMode ? (
+        {isPairMode ? (
+            /* Device Pairing Form */
+            <form onSubmit={handlePairSubmit} className="p-6 md:p-8 space-y-6 animate-in slide-in-from-right duration-300">
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
+                    Enter the pairing code shown in the admin Devices tab. This screen will stay signed in as a kiosk or display until an admin revokes it.
+                </p>
+                {pairError && (
+                    <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg text-center font-medium animate-in fade-in">
+                    {pairError}
+                    </div>
+                )}
+                <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Pairing Code</label>
+                    <div className="relative">
+                        <MonitorSmartphone className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                        <input
+                            type="text"
+                            value={pairingCode}
+                            onChange={(e) => setPairingCode(e.target.value.toUpperCase())}
+                            className="w-full pl-12 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500 font-mono tracking-widest"
+                            placeholder="XXXXXXXX"
+                            autoComplete="off"
+                            required
+                        />
+                    </div>
+                </div>
+                <button
+                    type="submit"
+                    disabled={loading}
+                    className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-xl transition-all shadow-lg shadow-blue-200 dark:shadow-blue-900/20 flex items-center justify-center gap-2 disabled:opacity-70"
+                >
+                    {loading ? <span className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></span> : 'Pair Screen'}
+                </button>
+                <button 
+                    type="button"
+                    onClick={exitPairMode}
+                    className="w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+                >
+                    <ArrowLeft className="w-4 h-4" /> Back to Login
+                </button>
+            </form>
+        ) : isResetMode ? (
             /* Reset Password Form */
             <div className="p-6 md:p-8 space-y-6 animate-in slide-in-from-right duration-300">
-                {resetSubmitted ? (
+                {resetStep === 'requested' || resetStep === 'done' ? (
                     <div className="text-center space-y-4">
                         <div className="w-12 h-12 bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400 rounded-full flex items-center justify-center mx-auto">
                             <ShieldCheck className="w-6 h-6" />
                         </div>
-                        <h3 className="text-lg font-bold text-slate-800 dark:text-white">Request Sent</h3>
-                        <p className="text-sm text-slate-500 dark:text-slate-400">
-                            If an account exists for <span className="font-semibold text-slate-700 dark:text-slate-300">{resetUsername}</span>, your administrator has been notified to reset your credentials.
-                        </p>
+                        {resetStep === 'requested' ? (
+                            <>
+                                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Request Sent</h3>
+                                <p className="text-sm text-slate-500 dark:text-slate-400">
+                                    If an account exists for <span className="font-semibold text-slate-700 dark:text-slate-300">{resetUsername}</span>, your administrator has been notified. They will give you a one-time reset code.
+                                </p>
+                                <button 
+                                    onClick={() => setResetStep('redeem')}
+                                    className="w-full mt-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded-xl transition-all flex items-center justify-center gap-2"
+                                >
+                                    <Ticket className="w-5 h-5" /> I Have a Reset Code
+                                </button>
+                            </>
+                        ) : (
+                            <>
+                                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Password Updated</h3>
+                                <p className="text-sm text-slate-500 dark:text-slate-400">
+                                    You can now sign in with your new password.
+                                </p>
+                            </>
+                        )}
                         <button 
-                            onClick={() => { setIsResetMode(false); setResetSubmitted(false); setResetUsername(''); }}
+                            onClick={exitResetMode}
                             className="w-full mt-4 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-white font-bold py-3 rounded-xl transition-all"
                         >
                             Back to Login
                         </button>
                     </div>
+                ) : resetStep === 'redeem' ? (
+                    <form onSubmit={handleRedeemSubmit} className="space-y-4">
+                        <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
+                            Enter the reset code from your administrator and choose a new password. Codes can only be used once and expire after a short time.
+                        </p>
+                        {resetError && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-200 text-sm rounded-lg text-center font-medium animate-in fade-in">
+                            {resetError}
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Username / ID</label>
+                            <input
+                                type="text"
+                                value={resetUsername}
+                                onChange={(e) => setResetUsername(e.target.value)}
+                                className="w-full px-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500"
+                                placeholder="Enter your ID"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Reset Code</label>
+                            <div className="relative">
+                                <Ticket className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                                <input
+                                    type="text"
+                                    value={resetCode}
+                                    onChange={(e) => setResetCode(e.target.value.toUpperCase())}
+                                    className="w-full pl-12 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500 font-mono tracking-widest"
+                                    placeholder="XXXXXXXX"
+                                    autoComplete="off"
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">New Password</label>
+                            <div className="relative">
+                                <Lock className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                                <input
+                                    type="password"
+                                    value={newPassword}
+                                    onChange={(e) => setNewPassword(e.target.value)}
+                                    className="w-full pl-12 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500"
+                                    placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Confirm New Password</label>
+                            <div className="relative">
+                                <Lock className="absolute left-4 top-3.5 w-5 h-5 text-slate-400 dark:text-slate-500" />
+                                <input
+                                    type="password"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    className="w-full pl-12 pr-4 py-3 rounded-xl border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all placeholder:text-slate-400 dark:placeholder:text-slate-500"
+                                    placeholder="••••••••"
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-xl transition-all shadow-lg shadow-blue-200 dark:shadow-blue-900/20 flex items-center justify-center gap-2 disabled:opacity-70"
+                        >
+                            {loading ? <span className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></span> : 'Set New Password'}
+                        </button>
+                        <button 
+                            type="button"
+                            onClick={exitResetMode}
+                            className="w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+                        >
+                            <ArrowLeft className="w-4 h-4" /> Back to Login
+                        </button>
+                    </form>
                 ) : (
                     <form onSubmit={handleResetSubmit} className="space-y-6">
                         <p className="text-sm text-slate-500 dark:text-slate-400 text-center">
-                            Enter your username or ID. We will notify the system administrator to reset your password.
+                            Enter your username or ID. We will notify the system administrator, who will give you a one-time reset code.
                         </p>
                          <div>
                             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Username / ID</label>
@@ -125,7 +337,14 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin, toggleTheme, isDa
                         </button>
                         <button 
                             type="button"
-                            onClick={() => setIsResetMode(false)}
+                            onClick={() => setResetStep('redeem')}
+                            className="w-full text-sm text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300 font-medium transition-colors"
+                        >
+                            Already have a reset code?
+                        </button>
+                        <button 
+                            type="button"
+                            onClick={exitResetMode}
                             className="w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
                         >
                             <ArrowLeft className="w-4 h-4" /> Back to Login
@@ -205,6 +424,14 @@ export const LoginView: React.FC<LoginViewProps> = ({ onLogin, toggleTheme, isDa
                 </>
                 )}
             </button>
+
+            <button 
+                type="button"
+                onClick={() => setIsPairMode(true)}
+                className="w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+            >
+                <MonitorSmartphone className="w-4 h-4" /> Pair this screen as a kiosk or display
+            </button>
             </form>
         )}
       </div>
@@ -0,0 +1,28 @@
+import React from 'react';
+import { PrintableTicket, formatIssuedAt } from '../lib/printing';
+
+interface PrintedTicketProps {
+  ticket: PrintableTicket;
+  qrDataUrl: string | null;
+  paperWidth: 58 | 80;
+}
+
+// Browser printing layout: hidden on screen, and the only thing on the page when printing
+export const PrintedTicket: React.FC<PrintedTicketProps> = ({ ticket, qrDataUrl, paperWidth }) => (
+  <div className="hidden print:block bg-white text-black font-sans text-center mx-auto" style={{ width: `${paperWidth - 8}mm`, padding: '4mm 0' }}>
+    <style>{`@page { margin: 0; }`}</style>
+    <p className="text-sm font-bold uppercase tracking-wider">Your Ticket</p>
+    <p className="text-sm">{ticket.serviceName}</p>
+    <div className="border-y border-dashed border-black my-2 py-2">
+      <span className={`${paperWidth === 80 ? 'text-6xl' : 'text-5xl'} font-black tracking-tighter`}>{ticket.number}</span>
+    </div>
+    <p className="text-sm">You are number {ticket.position} in line</p>
+    <p className="text-xs">{formatIssuedAt(ticket.issuedAt)}</p>
+    {ticket.trackingUrl && qrDataUrl && (
+      <>
+        <img src={qrDataUrl} alt="" className="mx-auto mt-3" style={{ width: paperWidth === 80 ? '36mm' : '30mm' }} />
+        <p className="text-xs">Scan to follow your turn live</p>
+      </>
+    )}
+  </div>
+);
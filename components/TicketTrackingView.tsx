@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TicketStatus, TicketTracking } from '../types';
+import { BellRing, CheckCircle, Clock, Loader2, Sun, Moon, Users, Volume2, VolumeX, XCircle, AlertTriangle } from 'lucide-react';
+
+interface TicketTrackingViewProps {
+  tracking: TicketTracking | null | undefined; // undefined while loading, null when the link is not valid
+  onCancelTicket: () => Promise<boolean>;
+  onForgetCustomer: () => Promise<boolean>; // Deletes the details saved by "remember me"
+  newTicketUrl: string;
+  toggleTheme: () => void;
+  isDarkMode: boolean;
+}
+
+const CALLED_VIBRATION = [400, 200, 400, 200, 400];
+
+// Three rising tones on an already unlocked context (browsers only allow audio after a tap)
+const playCalledChime = (ctx: AudioContext) => {
+  try {
+    [523.25, 659.25, 783.99].forEach((frequency, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+
+      const start = ctx.currentTime + i * 0.25;
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(0.1, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.4);
+      osc.start(start);
+      osc.stop(start + 0.4);
+    });
+  } catch (e) {
+    console.error("Audio playback failed", e);
+  }
+};
+
+export const TicketTrackingView: React.FC<TicketTrackingViewProps> = ({
+  tracking,
+  onCancelTicket,
+  onForgetCustomer,
+  newTicketUrl,
+  toggleTheme,
+  isDarkMode
+}) => {
+  const [alertsOn, setAlertsOn] = useState(false);
+  const [showCancelConfirm, setShowCancelConfirm] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState('');
+  const [isForgetting, setIsForgetting] = useState(false);
+  const [forgetMessage, setForgetMessage] = useState('');
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const lastCallKeyRef = useRef<string | null>(null);
+
+  const ticket = tracking?.ticket;
+
+  // Alert on the first call and on every recall, but not for a call already showing when the page opened
+  useEffect(() => {
+    if (!ticket) return;
+    const callKey = ticket.status === TicketStatus.SERVING ? `${ticket.servedAt}:${ticket.recallCount || 0}` : null;
+    const previousKey = lastCallKeyRef.current;
+    lastCallKeyRef.current = callKey ?? '';
+    if (!callKey || previousKey === null || callKey === previousKey) return;
+
+    if (alertsOn) {
+      if (audioContextRef.current) playCalledChime(audioContextRef.current);
+      navigator.vibrate?.(CALLED_VIBRATION);
+    }
+  }, [ticket?.status, ticket?.servedAt, ticket?.recallCount, alertsOn]);
+
+  useEffect(() => {
+    return () => {
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  const handleToggleAlerts = () => {
+    if (alertsOn) {
+      setAlertsOn(false);
+      return;
+    }
+    // Created in the tap itself, which is what lets it play later without one
+    try {
+      const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+      if (AudioContext && !audioContextRef.current) audioContextRef.current = new AudioContext();
+      audioContextRef.current?.resume();
+    } catch (e) {
+      console.error("Audio unavailable", e);
+    }
+    navigator.vibrate?.(100);
+    setAlertsOn(true);
+  };
+
+  const handleConfirmCancel = async () => {
+    setIsCancelling(true);
+    setCancelError('');
+    const cancelled = await onCancelTicket();
+    setIsCancelling(false);
+    setShowCancelConfirm(false);
+    if (!cancelled) setCancelError("Your ticket could not be cancelled. It may already have been called.");
+  };
+
+  const handleForgetCustomer = async () => {
+    if (!window.confirm("Delete the name and number we saved for your next visits? Your place in line is kept.")) return;
+    setIsForgetting(true);
+    const forgotten = await onForgetCustomer();
+    setIsForgetting(false);
+    setForgetMessage(forgotten ? "Your saved details have been deleted." : "Your details could not be deleted. Please ask our staff.");
+  };
+
+  const renderBody = () => {
+    if (tracking === undefined) {
+      return (
+        <div className="flex flex-col items-center py-10 text-slate-400">
+          <Loader2 className="w-10 h-10 animate-spin mb-4 text-blue-600" />
+          <p>Finding your ticket...</p>
+        </div>
+      );
+    }
+
+    if (!tracking || !ticket) {
+      return (
+        <>
+          <AlertTriangle className="w-16 h-16 text-amber-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Ticket Not Found</h2>
+          <p className="text-slate-500 dark:text-slate-400 mb-6">This tracking link is not valid, or the ticket is no longer in our records.</p>
+          <a href={newTicketUrl} className="inline-block px-6 py-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors">Get a Ticket</a>
+        </>
+      );
+    }
+
+    const ticketCard = (
+      <div className="bg-slate-50 dark:bg-slate-700/50 border-2 border-dashed border-slate-300 dark:border-slate-600 p-6 rounded-2xl mb-6">
+        <p className="text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">Your Ticket Number</p>
+        <span className="text-5xl md:text-6xl font-black text-slate-900 dark:text-white tracking-tighter">{ticket.number}</span>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">{ticket.serviceName}</p>
+      </div>
+    );
+
+    switch (ticket.status) {
+      case TicketStatus.SERVING:
+        return (
+          <>
+            <BellRing className="w-16 h-16 text-emerald-500 mx-auto mb-4 animate-bounce" />
+            <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-2">It's your turn!</h2>
+            <p className="text-slate-500 dark:text-slate-400 mb-6">
+              {(ticket.recallCount || 0) > 0 ? 'We are calling you again. ' : ''}Please go to
+            </p>
+            <div className="bg-emerald-50 dark:bg-emerald-900/20 border-2 border-emerald-300 dark:border-emerald-700 p-6 rounded-2xl mb-6">
+              <span className="text-4xl font-black text-emerald-700 dark:text-emerald-300">{tracking.counterLabel || 'the counter'}</span>
+            </div>
+            <p className="text-sm text-slate-500 dark:text-slate-400">Ticket <span className="font-bold text-slate-800 dark:text-slate-200">{ticket.number}</span> • {ticket.serviceName}</p>
+          </>
+        );
+
+      case TicketStatus.COMPLETED:
+        return (
+          <>
+            <CheckCircle className="w-16 h-16 text-emerald-500 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Thank you for visiting!</h2>
+            <p className="text-slate-500 dark:text-slate-400 mb-6">Ticket {ticket.number} has been served.</p>
+            <a href={newTicketUrl} className="text-sm text-slate-400 hover:text-slate-600 underline">Get a New Ticket</a>
+          </>
+        );
+
+      case TicketStatus.CANCELLED:
+      case TicketStatus.NO_SHOW:
+        return (
+          <>
+            <XCircle className="w-16 h-16 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">
+              {ticket.status === TicketStatus.CANCELLED ? 'Ticket Cancelled' : 'Ticket Missed'}
+            </h2>
+            <p className="text-slate-500 dark:text-slate-400 mb-6">
+              {ticket.status === TicketStatus.CANCELLED
+                ? `Ticket ${ticket.number} has been removed from the queue.`
+                : `Ticket ${ticket.number} was called but we could not find you.`}
+            </p>
+            <a href={newTicketUrl} className="inline-block px-6 py-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors">Get a New Ticket</a>
+          </>
+        );
+
+      default:
+        if (showCancelConfirm) {
+          return (
+            <>
+              <div className="flex justify-center mb-6">
+                <div className="bg-red-50 dark:bg-red-900/20 p-4 rounded-full">
+                  <AlertTriangle className="w-12 h-12 text-red-500" />
+                </div>
+              </div>
+              <h2 className="text-2xl font-bold text-slate-800 dark:text-white mb-2">Cancel Ticket?</h2>
+              <p className="text-slate-500 dark:text-slate-400 mb-8">
+                Are you sure you want to leave the queue? You will lose your spot for ticket <span className="font-bold text-slate-800 dark:text-slate-200">{ticket.number}</span>.
+              </p>
+              <div className="flex flex-col gap-3">
+                <button
+                  onClick={handleConfirmCancel}
+                  disabled={isCancelling}
+                  className="w-full py-4 rounded-xl bg-red-600 text-white font-bold hover:bg-red-700 transition shadow-lg shadow-red-200 dark:shadow-red-900/20 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {isCancelling ? <><Loader2 className="w-5 h-5 animate-spin" /> Wait...</> : 'Yes, Cancel Ticket'}
+                </button>
+                <button
+                  onClick={() => setShowCancelConfirm(false)}
+                  disabled={isCancelling}
+                  className="w-full py-4 rounded-xl bg-white dark:bg-slate-700 border-2 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-white font-bold hover:bg-slate-50 dark:hover:bg-slate-600 transition"
+                >
+                  No, Keep My Spot
+                </button>
+              </div>
+            </>
+          );
+        }
+
+        return (
+          <>
+            <h2 className="text-2xl md:text-3xl font-bold text-slate-800 dark:text-white mb-6">You are in line</h2>
+            {ticketCard}
+
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl">
+                <Users className="w-5 h-5 text-blue-500 mx-auto mb-1" />
+                <p className="text-3xl font-black text-blue-800 dark:text-blue-200">#{tracking.position}</p>
+                <p className="text-xs font-semibold text-blue-600/70 dark:text-blue-300/70 uppercase tracking-wider">In Line</p>
+              </div>
+              <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-xl">
+                <Clock className="w-5 h-5 text-blue-500 mx-auto mb-1" />
+                <p className="text-3xl font-black text-blue-800 dark:text-blue-200">
+                  {tracking.etaMinutes < 1 ? 'Now' : `~${tracking.etaMinutes}m`}
+                </p>
+                <p className="text-xs font-semibold text-blue-600/70 dark:text-blue-300/70 uppercase tracking-wider">Est. Wait</p>
+              </div>
+            </div>
+
+            <button
+              onClick={handleToggleAlerts}
+              className={`w-full mb-4 py-3 rounded-xl border-2 font-semibold flex items-center justify-center gap-2 transition-colors ${
+                alertsOn
+                  ? 'border-emerald-300 dark:border-emerald-700 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300'
+                  : 'border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+              }`}
+            >
+              {alertsOn ? <><Volume2 className="w-5 h-5" /> Sound & vibration on</> : <><VolumeX className="w-5 h-5" /> Alert me when I'm called</>}
+            </button>
+            <p className="text-xs text-slate-400 dark:text-slate-500 mb-6">Keep this page open. It updates by itself.</p>
+
+            {cancelError && <p className="text-sm text-red-500 mb-4">{cancelError}</p>}
+            <button
+              onClick={() => setShowCancelConfirm(true)}
+              className="text-red-500 text-sm font-semibold hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/10 py-2 px-4 rounded-lg transition-colors"
+            >
+              Cancel Ticket
+            </button>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-slate-50 dark:bg-slate-950 p-4 md:p-6 transition-colors duration-300">
+      <div className="flex justify-end max-w-md mx-auto w-full mb-6">
+        <button
+          onClick={toggleTheme}
+          className="p-2 rounded-full hover:bg-slate-200 dark:hover:bg-slate-800 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+          title="Toggle Theme"
+        >
+          {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
+        </button>
+      </div>
+
+      <div className="max-w-md mx-auto w-full flex-1">
+        <div className="bg-white dark:bg-slate-800 p-8 md:p-10 rounded-3xl shadow-2xl text-center border border-slate-100 dark:border-slate-700 animate-in fade-in duration-500">
+          {renderBody()}
+        </div>
+
+        {(ticket?.customerId || forgetMessage) && (
+          <div className="mt-4 text-center text-xs text-slate-400 dark:text-slate-500">
+            {forgetMessage || (
+              <>
+                We remember your details for faster check-in.{' '}
+                <button
+                  onClick={handleForgetCustomer}
+                  disabled={isForgetting}
+                  className="underline hover:text-red-500 disabled:opacity-50"
+                >
+                  {isForgetting ? 'Deleting...' : 'Delete my saved details'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
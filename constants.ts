@@ -1,5 +1,5 @@
 
-import { ServiceDefinition, User, UserRole } from './types';
+import { Branch, ChannelSettings, NotificationChannel, NotificationEvent, NotificationTemplate, Permission, ScheduledJob, ServiceDefinition, TicketPrintSettings, User, UserRole } from './types';
 
 // Available color themes for services
 export const COLOR_THEMES = [
@@ -12,19 +12,163 @@ export const COLOR_THEMES = [
   { name: 'Indigo', value: 'indigo', classes: 'bg-indigo-100 text-indigo-800 border-indigo-200' },
 ];
 
+export const DEFAULT_BRANCH_ID = 'main';
+
+export const INITIAL_BRANCHES: Branch[] = [
+  { id: DEFAULT_BRANCH_ID, name: 'Main Branch' },
+];
+
 export const INITIAL_SERVICES: ServiceDefinition[] = [
-  { id: 'srv_1', name: 'General Inquiry', prefix: 'A', colorTheme: 'blue', defaultWaitTime: 5 },
-  { id: 'srv_2', name: 'Bill Payment', prefix: 'B', colorTheme: 'emerald', defaultWaitTime: 3 },
-  { id: 'srv_3', name: 'Technical Support', prefix: 'C', colorTheme: 'amber', defaultWaitTime: 15 },
-  { id: 'srv_4', name: 'VIP Services', prefix: 'V', colorTheme: 'purple', defaultWaitTime: 10 },
+  { id: 'srv_1', branchId: DEFAULT_BRANCH_ID, name: 'General Inquiry', prefix: 'A', colorTheme: 'blue', defaultWaitTime: 5, priority: 1, appointmentSlotMinutes: 15, appointmentCapacity: 2 },
+  { id: 'srv_2', branchId: DEFAULT_BRANCH_ID, name: 'Bill Payment', prefix: 'B', colorTheme: 'emerald', defaultWaitTime: 3, priority: 1 },
+  { id: 'srv_3', branchId: DEFAULT_BRANCH_ID, name: 'Technical Support', prefix: 'C', colorTheme: 'amber', defaultWaitTime: 15, priority: 1, appointmentSlotMinutes: 30, appointmentCapacity: 1 },
+  { id: 'srv_4', branchId: DEFAULT_BRANCH_ID, name: 'VIP Services', prefix: 'V', colorTheme: 'purple', defaultWaitTime: 10, priority: 2 },
 ];
 
 export const INITIAL_USERS: User[] = [
-  { id: 'admin_1', username: 'admin', password: '1234', role: UserRole.ADMIN, name: 'System Administrator' },
-  { id: 'staff_1', username: 'staff1', password: 'password', role: UserRole.STAFF, name: 'Counter 1 Staff' },
-  { id: 'staff_2', username: 'staff2', password: 'password', role: UserRole.STAFF, name: 'Counter 2 Staff' },
-  { id: 'kiosk_1', username: 'kiosk', password: 'password', role: UserRole.KIOSK, name: 'Main Kiosk' },
-  { id: 'display_1', username: 'display', password: 'password', role: UserRole.DISPLAY, name: 'Main Display' },
+  { id: 'admin_1', username: 'admin', password: '1234', role: UserRole.ADMIN, name: 'System Administrator', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+  { id: 'supervisor_1', username: 'supervisor', password: 'password', role: UserRole.SUPERVISOR, name: 'Shift Supervisor', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+  { id: 'staff_1', username: 'staff1', password: 'password', role: UserRole.STAFF, name: 'Counter 1 Staff', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+  { id: 'staff_2', username: 'staff2', password: 'password', role: UserRole.STAFF, name: 'Counter 2 Staff', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+  { id: 'kiosk_1', username: 'kiosk', password: 'password', role: UserRole.KIOSK, name: 'Main Kiosk', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+  { id: 'display_1', username: 'display', password: 'password', role: UserRole.DISPLAY, name: 'Main Display', branchId: DEFAULT_BRANCH_ID, mustChangePassword: true },
+];
+
+// Permissions each role starts with. Keep in sync with role_permissions in db_schema.sql.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.SUPERVISOR]: [Permission.MANAGE_COUNTERS, Permission.VIEW_REPORTS, Permission.RESET_QUEUE, Permission.TRANSFER_TICKETS],
+  [UserRole.STAFF]: [Permission.TRANSFER_TICKETS],
+  [UserRole.KIOSK]: [],
+  [UserRole.DISPLAY]: [],
+};
+
+// Keep in sync with the auth functions in db_schema.sql.
+export const PASSWORD_MIN_LENGTH = 8;
+
+// How long an admin-issued reset code stays valid. Keep in sync with issue_password_reset in db_schema.sql.
+export const PASSWORD_RESET_TTL_MINUTES = 30;
+
+// How long a device pairing code stays valid. Keep in sync with create_device_pairing in db_schema.sql.
+export const DEVICE_PAIRING_TTL_MINUTES = 10;
+
+// Counters a new branch starts with (also used in demo mode). Keep in sync with setup_new_branch in db_schema.sql.
+export const DEFAULT_COUNTER_COUNT = 4;
+
+// Checked-in appointments are called ahead of walk-ins from this many minutes before their slot.
+// Keep in sync with call_next_ticket in db_schema.sql.
+export const APPOINTMENT_PRIORITY_WINDOW_MINUTES = 15;
+
+// How many days ahead (including today) the booking page offers slots
+export const APPOINTMENT_BOOKING_DAYS = 7;
+
+// Keep in sync with the system_settings.ticket_printing default in db_schema.sql
+export const DEFAULT_TICKET_PRINTING: TicketPrintSettings = {
+  mode: 'off',
+  paperWidth: 80,
+  autoPrint: false,
+  bridgeUrl: 'http://localhost:9123'
+};
+
+// The tracking page re-reads its ticket whenever its branch's queue changes, and this often anyway in case
+// a change was missed
+export const TRACKING_REFRESH_SECONDS = 20;
+
+// How often each scheduled job runs, in the order the scheduler runs them (so approaching messages are sent
+// in the same pass that queues them)
+export const SCHEDULED_JOBS: Record<ScheduledJob, { label: string; description: string; intervalSeconds: number }> = {
+  [ScheduledJob.APPROACHING_NOTIFICATIONS]: { label: 'Turn Approaching', description: 'Queues the "Turn Approaching" message for tickets near the front', intervalSeconds: 30 },
+  [ScheduledJob.NOTIFICATION_OUTBOX]: { label: 'Notification Outbox', description: 'Sends queued messages and retries failures', intervalSeconds: 15 },
+  [ScheduledJob.NO_SHOW_TIMEOUTS]: { label: 'No-Show Timeouts', description: 'Marks recalled tickets that never turned up as No-Show', intervalSeconds: 60 },
+  [ScheduledJob.AFTER_HOURS_CLOSE]: { label: 'After-Hours Close', description: 'Closes idle counters once operating hours are over', intervalSeconds: 60 },
+  [ScheduledJob.END_OF_DAY]: { label: 'End of Day', description: 'Closes out tickets left from earlier days and archives old history', intervalSeconds: 600 }
+};
+
+// Outbox messages are given up on (and marked FAILED) after this many send attempts
+export const NOTIFICATION_MAX_ATTEMPTS = 5;
+
+// Keep in sync with the system_settings.notification_channels default in db_schema.sql
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationChannel, ChannelSettings> = {
+  [NotificationChannel.WHATSAPP]: { enabled: true },
+  [NotificationChannel.SMS]: { enabled: false },
+  [NotificationChannel.EMAIL]: { enabled: false }
+};
+
+// Placeholders every template may use; values are filled in when the message is sent
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: 'name', description: "Customer's name" },
+  { key: 'number', description: 'Ticket number' },
+  { key: 'service', description: 'Service name' },
+  { key: 'counter', description: 'Counter they are called to' },
+  { key: 'position', description: 'Place in their service queue' },
+  { key: 'eta', description: 'Estimated wait in minutes' }
 ];
 
-export const TOTAL_COUNTERS = 4;
+// Saved into system_settings.notification_templates the first time settings are stored
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationEvent, NotificationTemplate> = {
+  [NotificationEvent.ISSUED]: {
+    enabled: false,
+    subject: "Your ticket {number}",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, your ticket for {service} is {number}. You are number {position} in line, about {eta} min to wait.",
+      [NotificationChannel.SMS]: "Ticket {number} for {service}. You are number {position} in line (about {eta} min).",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nYour ticket for {service} is {number}. You are number {position} in line, with about {eta} minutes to wait."
+    }
+  },
+  [NotificationEvent.APPROACHING]: {
+    enabled: false,
+    subject: "Your turn is coming up ({number})",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, your turn for {service} is coming up! Your ticket number is {number}. Please make your way back, about {eta} min to go.",
+      [NotificationChannel.SMS]: "{number}: your turn for {service} is coming up (about {eta} min). Please make your way back.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nYour turn for {service} is coming up. Your ticket number is {number}, with about {eta} minutes to go. Please make your way back."
+    }
+  },
+  [NotificationEvent.CALLED]: {
+    enabled: false,
+    subject: "It's your turn ({number})",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, it's your turn! Ticket {number}, please proceed to {counter}.",
+      [NotificationChannel.SMS]: "{number}: it's your turn. Please proceed to {counter}.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nIt's your turn for {service}. Ticket {number}, please proceed to {counter}."
+    }
+  },
+  [NotificationEvent.RECALLED]: {
+    enabled: false,
+    subject: "We're still waiting for you ({number})",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, we called ticket {number} but couldn't find you. Please come to {counter} now.",
+      [NotificationChannel.SMS]: "{number}: we are calling you again. Please come to {counter} now.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nWe called ticket {number} but couldn't find you. Please come to {counter} now."
+    }
+  },
+  [NotificationEvent.TRANSFERRED]: {
+    enabled: false,
+    subject: "Your ticket {number} has moved to {service}",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, your ticket {number} has been moved to {service}. You are number {position} in line.",
+      [NotificationChannel.SMS]: "{number}: moved to {service}. You are number {position} in line.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nYour ticket {number} has been moved to {service}. You are number {position} in line, with about {eta} minutes to wait."
+    }
+  },
+  [NotificationEvent.CANCELLED]: {
+    enabled: false,
+    subject: "Your ticket {number} was cancelled",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Hello {name}, your ticket {number} for {service} has been cancelled.",
+      [NotificationChannel.SMS]: "{number}: your ticket for {service} has been cancelled.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nYour ticket {number} for {service} has been cancelled."
+    }
+  },
+  [NotificationEvent.FEEDBACK]: {
+    enabled: false,
+    subject: "How was your visit?",
+    bodies: {
+      [NotificationChannel.WHATSAPP]: "Thanks for visiting, {name}! How was your {service} visit today? Just reply to this message.",
+      [NotificationChannel.SMS]: "Thanks for visiting! How was your {service} visit today? Reply to let us know.",
+      [NotificationChannel.EMAIL]: "Hello {name},\n\nThank you for visiting us today. How was your {service} visit? Just reply to this email to let us know."
+    }
+  }
+};
+
+export const DEFAULT_CHANNEL_FALLBACK_ORDER = [NotificationChannel.WHATSAPP, NotificationChannel.SMS, NotificationChannel.EMAIL];
@@ -1,58 +1,175 @@
 
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "pgcrypto"; -- bcrypt password hashing
 -- CREATE EXTENSION IF NOT EXISTS "pg_cron"; -- Cron no longer required for manual operation
 
 -- 0. CLEANUP (Destructive: Drops existing tables to allow a clean reset)
+DROP TABLE IF EXISTS scheduled_jobs CASCADE;
+DROP TABLE IF EXISTS queue_activity CASCADE;
+DROP TABLE IF EXISTS ticket_archive CASCADE;
 DROP TABLE IF EXISTS system_settings CASCADE;
+DROP TABLE IF EXISTS branch_secrets CASCADE;
+DROP TABLE IF EXISTS app_sessions CASCADE;
+DROP TABLE IF EXISTS password_resets CASCADE;
+DROP TABLE IF EXISTS device_pairings CASCADE;
+DROP TABLE IF EXISTS devices CASCADE;
+DROP TABLE IF EXISTS ticket_sequences CASCADE;
+DROP TABLE IF EXISTS ticket_tokens CASCADE;
+DROP TABLE IF EXISTS notifications CASCADE;
+DROP TABLE IF EXISTS ticket_events CASCADE;
+DROP TABLE IF EXISTS appointments CASCADE;
 DROP TABLE IF EXISTS counters CASCADE; 
 DROP TABLE IF EXISTS tickets CASCADE;
+DROP TABLE IF EXISTS customers CASCADE;
 DROP TABLE IF EXISTS services CASCADE;
 DROP TABLE IF EXISTS app_users CASCADE;
+DROP TABLE IF EXISTS branches CASCADE;
 
 DROP TYPE IF EXISTS user_role CASCADE;
 DROP TYPE IF EXISTS ticket_status CASCADE;
+DROP TYPE IF EXISTS ticket_event_type CASCADE;
+DROP TYPE IF EXISTS appointment_status CASCADE;
+DROP TYPE IF EXISTS notification_status CASCADE;
+DROP TYPE IF EXISTS notification_channel CASCADE;
+DROP TYPE IF EXISTS job_status CASCADE;
+
+-- Superseded signatures (CREATE OR REPLACE would add an overload and make calls ambiguous)
+DROP FUNCTION IF EXISTS set_user_password(TEXT, TEXT, BOOLEAN, TEXT, TEXT);
+DROP FUNCTION IF EXISTS issue_ticket(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS issue_ticket(TEXT, TEXT, TEXT, TEXT, notification_channel);
+DROP FUNCTION IF EXISTS enqueue_notification(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS enqueue_notification(TEXT, TEXT);
+DROP FUNCTION IF EXISTS queue_on_next_channel(TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS cancel_ticket(TEXT);
 
 -- 1. ENUMS (Mapping to types.ts enums)
-CREATE TYPE user_role AS ENUM ('ADMIN', 'STAFF', 'KIOSK', 'DISPLAY');
+CREATE TYPE user_role AS ENUM ('ADMIN', 'SUPERVISOR', 'STAFF', 'KIOSK', 'DISPLAY');
 CREATE TYPE ticket_status AS ENUM ('WAITING', 'SERVING', 'COMPLETED', 'CANCELLED', 'NO_SHOW');
+CREATE TYPE ticket_event_type AS ENUM ('ISSUED', 'CALLED', 'RECALLED', 'TRANSFERRED', 'REOPENED', 'COMPLETED', 'NO_SHOW', 'CANCELLED');
+CREATE TYPE appointment_status AS ENUM ('BOOKED', 'CHECKED_IN', 'CANCELLED');
+CREATE TYPE notification_status AS ENUM ('QUEUED', 'SENT', 'FAILED', 'DELIVERED'); -- DELIVERED is reserved for provider delivery receipts
+CREATE TYPE notification_channel AS ENUM ('WHATSAPP', 'SMS', 'EMAIL');
+CREATE TYPE job_status AS ENUM ('RUNNING', 'OK', 'FAILED');
 
 -- 2. TABLES
 
+-- Branches Table (every queue entity below belongs to one branch)
+CREATE TABLE branches (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    name TEXT NOT NULL,
+    address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Users Table
 CREATE TABLE app_users (
     id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
     username TEXT UNIQUE NOT NULL,
-    password TEXT NOT NULL, 
+    password_hash TEXT NOT NULL, -- bcrypt via crypt(); never selectable from the browser
+    must_change_password BOOLEAN NOT NULL DEFAULT FALSE,
+    reset_requested_at TIMESTAMP WITH TIME ZONE, -- Set from the login screen until an admin issues a reset code
     name TEXT NOT NULL,
     role user_role NOT NULL DEFAULT 'STAFF',
+    permissions TEXT[], -- NULL uses the role preset (see role_permissions); set by admins to grant or withhold individual permissions
+    branch_id TEXT REFERENCES branches(id) ON DELETE SET NULL, -- NULL only for admins roaming all branches
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sign-in sessions: verify_login issues the token, the browser sends it as the x-session-token header
+CREATE TABLE app_sessions (
+    token TEXT PRIMARY KEY DEFAULT encode(gen_random_bytes(32), 'hex'),
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- One-time password reset codes issued by an admin; only the bcrypt hash is stored
+CREATE TABLE password_resets (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    issued_by TEXT REFERENCES app_users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Paired kiosk and display screens. Each device signs in as its own KIOSK/DISPLAY account
+-- (with an unusable password) through a session that never expires until revoked.
+CREATE TABLE devices (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    role user_role NOT NULL CHECK (role IN ('KIOSK', 'DISPLAY')),
+    user_id TEXT NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+    paired_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Short-lived pairing codes generated in the admin panel; only the bcrypt hash is stored
+CREATE TABLE device_pairings (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    role user_role NOT NULL CHECK (role IN ('KIOSK', 'DISPLAY')),
+    code_hash TEXT NOT NULL,
+    created_by TEXT REFERENCES app_users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
 -- Services Table
 CREATE TABLE services (
     id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
     name TEXT NOT NULL,
     prefix TEXT NOT NULL, -- e.g., 'A', 'B'
     color_theme TEXT NOT NULL DEFAULT 'blue',
     default_wait_time INTEGER DEFAULT 5, 
+    priority INTEGER NOT NULL DEFAULT 1 CHECK (priority >= 1), -- Weight in weighted queue mode
+    appointment_slot_minutes INTEGER NOT NULL DEFAULT 0 CHECK (appointment_slot_minutes >= 0), -- 0 = walk-in only
+    appointment_capacity INTEGER NOT NULL DEFAULT 1 CHECK (appointment_capacity >= 1), -- Bookings per slot
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Counters Table
 CREATE TABLE counters (
-    id INTEGER PRIMARY KEY, -- 1, 2, 3, 4...
+    id SERIAL PRIMARY KEY, -- Unique across branches
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    label TEXT NOT NULL, -- Customer-facing name, e.g. 'Window 3'
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    retired BOOLEAN NOT NULL DEFAULT FALSE, -- Kept for ticket history, hidden from staff and displays
     is_open BOOLEAN DEFAULT TRUE,
     current_ticket_id TEXT, -- FK to tickets (TEXT)
-    assigned_staff_id TEXT REFERENCES app_users(id) ON DELETE SET NULL
+    assigned_staff_id TEXT REFERENCES app_users(id) ON DELETE SET NULL,
+    service_ids TEXT[] NOT NULL DEFAULT '{}', -- Services this counter calls (empty = all services)
+    fallback_service_ids TEXT[] NOT NULL DEFAULT '{}' -- Called only when no primary-service ticket is waiting
+);
+
+-- Returning customers who agreed to be remembered at the kiosk, one per normalized phone number
+-- (see normalize_phone). Shared by all branches; deleting a customer scrubs their visits (erase_customer).
+CREATE TABLE customers (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    phone TEXT NOT NULL UNIQUE, -- '+' and digits, country code included
+    name TEXT NOT NULL,
+    email TEXT,
+    notify_channel notification_channel, -- Last channel chosen, offered again next visit
+    consented_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- When they last ticked "remember me"
+    created_by_ticket_id TEXT, -- Ticket that first saved the record; only its tracking token may erase it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Tickets Table
 CREATE TABLE tickets (
     id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
     number TEXT NOT NULL, -- e.g. A001
     name TEXT NOT NULL,
     phone TEXT,
+    email TEXT,
+    notify_channel notification_channel, -- Chosen at the kiosk; NULL = no notifications
     service_id TEXT REFERENCES services(id) ON DELETE CASCADE,
     service_name TEXT, 
     status ticket_status DEFAULT 'WAITING',
@@ -61,8 +178,131 @@ CREATE TABLE tickets (
     completed_at TIMESTAMP WITH TIME ZONE,
     counter_id INTEGER REFERENCES counters(id),
     notification_sent BOOLEAN DEFAULT FALSE,
+    notification_status notification_status, -- Latest outbox message for this ticket (kept in sync by sync_ticket_notification)
+    notification_error TEXT,
+    notification_message_id TEXT, -- Provider's message id
+    notified_at TIMESTAMP WITH TIME ZONE,
+    target_counter_id INTEGER REFERENCES counters(id) ON DELETE SET NULL, -- Reserved for one counter after a transfer
+    front_of_queue BOOLEAN NOT NULL DEFAULT FALSE, -- Called ahead of join order after a transfer
+    transfers JSONB NOT NULL DEFAULT '[]'::jsonb, -- Transfer history [{fromServiceId, toServiceId, fromCounter, toCounter, at}]
+    recall_count INTEGER NOT NULL DEFAULT 0,
+    last_recalled_at TIMESTAMP WITH TIME ZONE,
+    appointment_id TEXT, -- Appointment checked in to create this ticket
+    appointment_at TIMESTAMP WITH TIME ZONE, -- Booked slot start; called ahead of walk-ins near this time
+    customer_id TEXT REFERENCES customers(id) ON DELETE SET NULL, -- Set only when the customer asked to be remembered
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX idx_tickets_branch ON tickets (branch_id, status);
+CREATE INDEX idx_tickets_customer ON tickets (customer_id) WHERE customer_id IS NOT NULL;
+
+-- What queue boards, kiosks and signed-out pages read: tickets without the customer's details.
+-- Owned by the schema owner, so it reads past the staff-only policy on tickets.
+CREATE VIEW queue_board AS
+SELECT id, branch_id, number, service_id, service_name, status, joined_at, served_at, completed_at, counter_id,
+       target_counter_id, front_of_queue, transfers, recall_count, last_recalled_at, appointment_at
+FROM tickets;
+
+-- One row per branch, touched whenever its tickets change. Realtime carries no session header, so it
+-- cannot deliver ticket rows to staff only; clients listen here instead and re-read. No foreign key:
+-- deleting a branch touches its row while the tickets cascade.
+CREATE TABLE queue_activity (
+    branch_id TEXT PRIMARY KEY,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION touch_queue_activity()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO queue_activity (branch_id, changed_at)
+  SELECT DISTINCT branch_id, NOW() FROM changed
+  ON CONFLICT (branch_id) DO UPDATE SET changed_at = EXCLUDED.changed_at;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Once per statement, so a queue reset announces one change rather than one per ticket
+CREATE TRIGGER tickets_activity_insert AFTER INSERT ON tickets
+REFERENCING NEW TABLE AS changed FOR EACH STATEMENT EXECUTE FUNCTION touch_queue_activity();
+CREATE TRIGGER tickets_activity_update AFTER UPDATE ON tickets
+REFERENCING NEW TABLE AS changed FOR EACH STATEMENT EXECUTE FUNCTION touch_queue_activity();
+CREATE TRIGGER tickets_activity_delete AFTER DELETE ON tickets
+REFERENCING OLD TABLE AS changed FOR EACH STATEMENT EXECUTE FUNCTION touch_queue_activity();
+
+-- Tracking link secrets: issue_ticket hands the token to whoever took the ticket, and it unlocks
+-- get_ticket_status and cancel_ticket. Kept out of tickets because that table is readable by anyone.
+CREATE TABLE ticket_tokens (
+    ticket_id TEXT PRIMARY KEY REFERENCES tickets(id) ON DELETE CASCADE,
+    token TEXT NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex')
+);
+
+-- Ticket Events (audit trail of every action taken on a ticket)
+CREATE TABLE ticket_events (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    ticket_id TEXT NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+    event_type ticket_event_type NOT NULL,
+    counter_id INTEGER REFERENCES counters(id) ON DELETE SET NULL,
+    staff_user_id TEXT REFERENCES app_users(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX idx_ticket_events_ticket ON ticket_events (ticket_id, created_at);
+
+-- Finished tickets moved out of the live table by the end-of-day job, with their event trail
+CREATE TABLE ticket_archive (
+    LIKE tickets INCLUDING DEFAULTS,
+    events JSONB NOT NULL DEFAULT '[]'::jsonb, -- ticket_events rows, oldest first
+    archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (id)
+);
+CREATE INDEX idx_ticket_archive_branch ON ticket_archive (branch_id, joined_at);
+CREATE INDEX idx_ticket_archive_customer ON ticket_archive (customer_id) WHERE customer_id IS NOT NULL;
+
+-- Notification Outbox (every customer message, sent and retried by the API server's worker)
+CREATE TABLE notifications (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    ticket_id TEXT REFERENCES tickets(id) ON DELETE CASCADE,
+    channel notification_channel NOT NULL DEFAULT 'WHATSAPP',
+    template TEXT NOT NULL, -- Notification event (e.g. 'CALLED'); 'manual' for staff-triggered sends
+    message_key TEXT NOT NULL DEFAULT uuid_generate_v4()::text, -- Shared by the fallback attempts of one message
+    recipient TEXT NOT NULL, -- Digits only with country code, or an email address
+    subject TEXT, -- Email only
+    message TEXT NOT NULL,
+    status notification_status NOT NULL DEFAULT 'QUEUED',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    provider_message_id TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- NULL once no further attempt is due
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+CREATE INDEX idx_notifications_due ON notifications (next_attempt_at) WHERE status = 'QUEUED';
+CREATE INDEX idx_notifications_branch ON notifications (branch_id, created_at DESC);
+-- A message goes out at most once per channel (see notify_ticket_event for how keys are chosen)
+CREATE UNIQUE INDEX idx_notifications_once ON notifications (message_key, channel);
+
+-- Appointments (booked slots, turned into tickets at kiosk check-in)
+CREATE TABLE appointments (
+    id TEXT PRIMARY KEY DEFAULT uuid_generate_v4()::text,
+    branch_id TEXT NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    code TEXT NOT NULL UNIQUE, -- Booking reference entered at the kiosk
+    service_id TEXT NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    phone TEXT,
+    scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status appointment_status NOT NULL DEFAULT 'BOOKED',
+    ticket_id TEXT REFERENCES tickets(id) ON DELETE SET NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
+CREATE INDEX idx_appointments_slot ON appointments (service_id, scheduled_at);
+
+-- Ticket Number Sequences (one row per service per day; survives history clears)
+CREATE TABLE ticket_sequences (
+    service_id TEXT REFERENCES services(id) ON DELETE CASCADE,
+    sequence_date DATE NOT NULL, -- The branch's local day (branch_today)
+    last_value INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (service_id, sequence_date)
+);
 
 -- Add Circular Foreign Key for counters
 ALTER TABLE counters 
@@ -71,77 +311,1533 @@ FOREIGN KEY (current_ticket_id) REFERENCES tickets(id) ON DELETE SET NULL;
 
 -- System Settings
 CREATE TABLE system_settings (
-    id INTEGER PRIMARY KEY CHECK (id = 1), -- Ensure only one row
-    whatsapp_enabled BOOLEAN DEFAULT TRUE,
-    whatsapp_template TEXT,
-    whatsapp_api_key TEXT,
-    auto_notify_15m BOOLEAN DEFAULT FALSE,
+    branch_id TEXT PRIMARY KEY REFERENCES branches(id) ON DELETE CASCADE, -- One row per branch
+    -- Keep in sync with DEFAULT_NOTIFICATION_CHANNELS in constants.ts
+    notification_channels JSONB NOT NULL DEFAULT '{"WHATSAPP": {"enabled": true}, "SMS": {"enabled": false}, "EMAIL": {"enabled": false}}'::jsonb,
+    -- Per event: {enabled, subject, bodies: {channel: text}}. The app stores DEFAULT_NOTIFICATION_TEMPLATES (constants.ts)
+    -- the first time settings are saved; until then no event has a message and nothing is sent automatically.
+    notification_templates JSONB NOT NULL DEFAULT '{}'::jsonb,
+    channel_fallback_order notification_channel[] NOT NULL DEFAULT '{WHATSAPP,SMS,EMAIL}', -- Tried after the customer's chosen channel fails
+    notify_at_position INTEGER NOT NULL DEFAULT 2 CHECK (notify_at_position >= 0), -- "Turn Approaching" at this place in the service queue (0 = off)
+    notify_within_minutes INTEGER NOT NULL DEFAULT 15 CHECK (notify_within_minutes >= 0), -- ...or once the estimated wait is this short (0 = off)
+    whatsapp_api_key_set BOOLEAN NOT NULL DEFAULT FALSE, -- The key itself lives in branch_secrets
     allow_mobile_entry BOOLEAN DEFAULT TRUE,
     mobile_entry_url TEXT,
-    operating_hours JSONB DEFAULT '{"enabled": true, "start": "09:00", "end": "17:00"}'::jsonb,
-    country_code TEXT DEFAULT '+1'
+    operating_hours JSONB DEFAULT '{"enabled": true, "start": "09:00", "end": "17:00", "autoClose": false}'::jsonb, -- autoClose: close idle counters after hours
+    time_zone TEXT CHECK (timezone(time_zone, '2000-01-01'::timestamptz) IS NOT NULL), -- IANA name; the scheduler's clock for this branch. Jobs on that clock skip the branch until it is set
+    end_of_day_close_out BOOLEAN NOT NULL DEFAULT FALSE, -- End of Day job closes out tickets left open from earlier days (needs time_zone)
+    country_code TEXT DEFAULT '+1',
+    queue_mode TEXT NOT NULL DEFAULT 'fifo' CHECK (queue_mode IN ('fifo', 'weighted')),
+    aging_threshold_minutes INTEGER NOT NULL DEFAULT 30, -- Weighted mode: older tickets jump the weighting (0 = off)
+    recalls_before_no_show INTEGER NOT NULL DEFAULT 3,
+    no_show_timeout_minutes INTEGER NOT NULL DEFAULT 0 CHECK (no_show_timeout_minutes >= 0), -- Mark No-Show this long after the last recall (0 = off)
+    archive_after_days INTEGER NOT NULL DEFAULT 90 CHECK (archive_after_days >= 0), -- Move finished tickets to ticket_archive (0 = never)
+    allow_appointments BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Kiosk ticket printing; keep in sync with DEFAULT_TICKET_PRINTING in constants.ts
+    ticket_printing JSONB NOT NULL DEFAULT '{"mode": "off", "paperWidth": 80, "autoPrint": false, "bridgeUrl": "http://localhost:9123"}'::jsonb
+);
+
+-- Periodic jobs run by the API server's scheduler (server/scheduler.ts); one row per job across all branches
+CREATE TABLE scheduled_jobs (
+    name TEXT PRIMARY KEY, -- Keep in sync with ScheduledJob in types.ts
+    status job_status,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    last_result TEXT, -- e.g. '3 sent'
+    last_error TEXT,
+    last_started_at TIMESTAMP WITH TIME ZONE,
+    last_finished_at TIMESTAMP WITH TIME ZONE,
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Provider credentials, kept out of system_settings so they are never readable from the browser.
+-- RLS is enabled with no policies: only the service role (server side) can read this table.
+CREATE TABLE branch_secrets (
+    branch_id TEXT PRIMARY KEY REFERENCES branches(id) ON DELETE CASCADE,
+    whatsapp_api_key TEXT
 );
 
+-- New branches start with default settings and a standard set of counters
+CREATE OR REPLACE FUNCTION setup_new_branch()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO system_settings (branch_id) VALUES (NEW.id);
+
+  -- Keep the count in sync with DEFAULT_COUNTER_COUNT in constants.ts
+  INSERT INTO counters (branch_id, label, sort_order, is_open)
+  SELECT NEW.id, 'Counter ' || n, n, true FROM generate_series(1, 4) AS n;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER branches_setup AFTER INSERT ON branches
+FOR EACH ROW EXECUTE FUNCTION setup_new_branch();
+
 -- 3. ROW LEVEL SECURITY (RLS)
+-- Policies resolve the signed-in app user from the x-session-token request header.
+-- Queue boards, kiosks, mobile entry and the booking page read operational tables without
+-- signing in (and realtime carries no session header), so those reads stay public. Tickets and
+-- bookings hold customer details: only queue staff read tickets (others use queue_board), and the
+-- booking page sees slot counts from get_booked_slots.
+-- Everything else is scoped by role: kiosks issue tickets through issue_ticket, displays
+-- only read, staff work their own counter. Management writes are gated by permissions
+-- (see has_permission): admins hold them all, supervisors a preset within their branch.
+
+CREATE OR REPLACE FUNCTION current_app_user_id()
+RETURNS TEXT AS $$
+  SELECT s.user_id
+  FROM app_sessions s
+  WHERE s.token = NULLIF(current_setting('request.headers', true), '')::json->>'x-session-token'
+    AND s.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS user_role AS $$
+  SELECT u.role FROM app_users u WHERE u.id = current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_app_branch_id()
+RETURNS TEXT AS $$
+  SELECT u.branch_id FROM app_users u WHERE u.id = current_app_user_id();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Permission presets per role. Keep in sync with ROLE_PERMISSIONS in constants.ts.
+CREATE OR REPLACE FUNCTION role_permissions(p_role user_role)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_role
+    WHEN 'ADMIN' THEN ARRAY['manage_services', 'manage_counters', 'manage_users', 'view_reports', 'reset_queue', 'transfer_tickets']
+    WHEN 'SUPERVISOR' THEN ARRAY['manage_counters', 'view_reports', 'reset_queue', 'transfer_tickets']
+    WHEN 'STAFF' THEN ARRAY['transfer_tickets']
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Admins always hold every permission; anyone else gets their override list or the role preset
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT u.role = 'ADMIN' OR p_permission = ANY(COALESCE(u.permissions, role_permissions(u.role)))
+    FROM app_users u
+    WHERE u.id = current_app_user_id()
+  ), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Non-admins only use their permissions within their own branch
+CREATE OR REPLACE FUNCTION has_branch_permission(p_permission TEXT, p_branch_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT has_permission(p_permission)
+    AND (current_app_role() = 'ADMIN' OR p_branch_id IS NOT DISTINCT FROM current_app_branch_id());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Account managers may touch any non-admin account in their branch; only admins touch admin accounts
+CREATE OR REPLACE FUNCTION can_manage_user(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT has_branch_permission('manage_users', u.branch_id) AND (current_app_role() = 'ADMIN' OR u.role <> 'ADMIN')
+    FROM app_users u
+    WHERE u.id = p_user_id
+  ), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Staff act only within their own branch and at a counter they have taken (or a free one)
+CREATE OR REPLACE FUNCTION is_staff_at_counter(p_counter_id INTEGER)
+RETURNS BOOLEAN AS $$
+  SELECT current_app_role() = 'STAFF' AND EXISTS (
+    SELECT 1 FROM counters c
+    WHERE c.id = p_counter_id
+      AND c.branch_id = current_app_branch_id()
+      AND c.assigned_staff_id = current_app_user_id()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Admins anywhere; supervisors and staff within their own branch
+CREATE OR REPLACE FUNCTION is_queue_staff_for_branch(p_branch_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    current_app_role() = 'ADMIN'
+      OR (current_app_role() IN ('SUPERVISOR', 'STAFF') AND p_branch_id IS NOT DISTINCT FROM current_app_branch_id()),
+    FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE branches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE app_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE device_pairings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE services ENABLE ROW LEVEL SECURITY;
 ALTER TABLE counters ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tickets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE system_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE branch_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ticket_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE queue_activity ENABLE ROW LEVEL SECURITY;
+
+-- app_sessions, password_resets, device_pairings, branch_secrets, ticket_sequences, ticket_tokens and customers have no policies:
+-- only SECURITY DEFINER functions and the service role touch them.
+
+CREATE POLICY "Public read branches" ON branches FOR SELECT USING (true);
+CREATE POLICY "Admins manage branches" ON branches FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
+
+CREATE POLICY "Signed-in users read accounts" ON app_users FOR SELECT USING (current_app_user_id() IS NOT NULL);
+-- Only admins create admins or hand out custom permissions
+CREATE POLICY "Account managers manage accounts" ON app_users FOR ALL
+  USING (has_branch_permission('manage_users', branch_id) AND (current_app_role() = 'ADMIN' OR role <> 'ADMIN'))
+  WITH CHECK (has_branch_permission('manage_users', branch_id) AND (current_app_role() = 'ADMIN' OR (role <> 'ADMIN' AND permissions IS NULL)));
+
+CREATE POLICY "Public read services" ON services FOR SELECT USING (true);
+CREATE POLICY "Service managers manage services" ON services FOR ALL USING (has_branch_permission('manage_services', branch_id)) WITH CHECK (has_branch_permission('manage_services', branch_id));
 
-CREATE POLICY "Allow public access to users" ON app_users FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow public access to services" ON services FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow public access to counters" ON counters FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow public access to tickets" ON tickets FOR ALL USING (true) WITH CHECK (true);
-CREATE POLICY "Allow public access to settings" ON system_settings FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public read counters" ON counters FOR SELECT USING (true);
+CREATE POLICY "Counter managers manage counters" ON counters FOR ALL USING (has_branch_permission('manage_counters', branch_id)) WITH CHECK (has_branch_permission('manage_counters', branch_id));
+-- Staff take a free counter, release or open/close their own, and clear its current ticket
+CREATE POLICY "Staff update their counter" ON counters FOR UPDATE
+  USING (current_app_role() = 'STAFF' AND branch_id = current_app_branch_id() AND (assigned_staff_id IS NULL OR assigned_staff_id = current_app_user_id()))
+  WITH CHECK (current_app_role() = 'STAFF' AND branch_id = current_app_branch_id() AND (assigned_staff_id IS NULL OR assigned_staff_id = current_app_user_id()));
+
+CREATE POLICY "Queue staff read tickets" ON tickets FOR SELECT USING (is_queue_staff_for_branch(branch_id));
+CREATE POLICY "Admins manage tickets" ON tickets FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
+-- Staff update only tickets at their own counter, and cannot move them elsewhere. Waiting tickets are
+-- called, cancelled and transferred through call_next_ticket, cancel_ticket and transfer_ticket.
+CREATE POLICY "Staff update tickets at their counter" ON tickets FOR UPDATE
+  USING (current_app_role() = 'STAFF' AND branch_id = current_app_branch_id() AND is_staff_at_counter(counter_id))
+  WITH CHECK (current_app_role() = 'STAFF' AND branch_id = current_app_branch_id() AND is_staff_at_counter(counter_id));
+
+GRANT SELECT ON queue_board TO anon, authenticated;
+-- Written only by touch_queue_activity
+CREATE POLICY "Public read queue activity" ON queue_activity FOR SELECT USING (true);
+
+CREATE POLICY "Public read settings" ON system_settings FOR SELECT USING (true);
+CREATE POLICY "Admins manage settings" ON system_settings FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
+
+-- Queue staff log their own actions in their branch; what customers and kiosks do is logged by the
+-- functions that do it (issue_ticket, cancel_ticket, ...). Report viewers read history.
+CREATE POLICY "Queue staff log their own ticket events" ON ticket_events FOR INSERT
+  WITH CHECK (staff_user_id = current_app_user_id() AND is_queue_staff_for_branch((SELECT t.branch_id FROM tickets t WHERE t.id = ticket_id)));
+CREATE POLICY "Report viewers read ticket events" ON ticket_events FOR SELECT
+  USING (has_branch_permission('view_reports', (SELECT t.branch_id FROM tickets t WHERE t.id = ticket_id)));
+CREATE POLICY "Admins manage ticket events" ON ticket_events FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
+
+-- Writes go through the outbox functions and the worker's service role
+CREATE POLICY "Report viewers read notifications" ON notifications FOR SELECT USING (has_branch_permission('view_reports', branch_id));
+
+-- Both are written only by the scheduler's service role
+CREATE POLICY "Report viewers read archived tickets" ON ticket_archive FOR SELECT USING (has_branch_permission('view_reports', branch_id));
+CREATE POLICY "Admins read scheduled jobs" ON scheduled_jobs FOR SELECT USING (current_app_role() = 'ADMIN');
+
+CREATE POLICY "Admins manage devices" ON devices FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
+
+-- Bookings, check-ins and slot counts go through their functions
+CREATE POLICY "Admins manage appointments" ON appointments FOR ALL USING (current_app_role() = 'ADMIN') WITH CHECK (current_app_role() = 'ADMIN');
 
 -- 4. REALTIME SETUP
-ALTER PUBLICATION supabase_realtime ADD TABLE tickets;
+ALTER PUBLICATION supabase_realtime ADD TABLE branches;
+ALTER PUBLICATION supabase_realtime ADD TABLE queue_activity;
 ALTER PUBLICATION supabase_realtime ADD TABLE counters;
 ALTER PUBLICATION supabase_realtime ADD TABLE services;
 ALTER PUBLICATION supabase_realtime ADD TABLE system_settings;
 
 -- 5. SEED DATA
-INSERT INTO services (id, name, prefix, color_theme, default_wait_time) VALUES
-('srv_1', 'General Inquiry', 'A', 'blue', 5),
-('srv_2', 'Bill Payment', 'B', 'emerald', 3),
-('srv_3', 'Technical Support', 'C', 'amber', 15),
-('srv_4', 'VIP Services', 'V', 'purple', 10);
+-- The branch trigger creates the settings row and counters 1-4
+INSERT INTO branches (id, name) VALUES
+('main', 'Main Branch');
 
-INSERT INTO app_users (id, username, password, name, role) VALUES
-('admin_1', 'admin', '1234', 'System Administrator', 'ADMIN'),
-('staff_1', 'staff1', '12345', 'Counter 1 Staff', 'STAFF'),
-('staff_2', 'staff2', '12345', 'Counter 2 Staff', 'STAFF'),
-('kiosk_1', 'kiosk', '12345', 'Main Kiosk', 'KIOSK'),
-('display_1', 'display', '12345', 'Main Display', 'DISPLAY');
+INSERT INTO services (id, branch_id, name, prefix, color_theme, default_wait_time, priority, appointment_slot_minutes, appointment_capacity) VALUES
+('srv_1', 'main', 'General Inquiry', 'A', 'blue', 5, 1, 15, 2),
+('srv_2', 'main', 'Bill Payment', 'B', 'emerald', 3, 1, 0, 1),
+('srv_3', 'main', 'Technical Support', 'C', 'amber', 15, 1, 30, 1),
+('srv_4', 'main', 'VIP Services', 'V', 'purple', 10, 2, 0, 1);
 
-INSERT INTO counters (id, is_open) VALUES
-(1, true), (2, true), (3, true), (4, true);
-
-INSERT INTO system_settings (id, whatsapp_template, operating_hours, country_code) VALUES 
-(1, 'Hello {name}, your turn for {service} is coming up! Your ticket number is {number}. Please proceed to Counter {counter}.', '{"enabled": true, "start": "09:00", "end": "17:00"}'::jsonb, '+1');
+-- Seeded accounts share well-known passwords, so each must be changed on first login
+INSERT INTO app_users (id, username, password_hash, must_change_password, name, role, branch_id) VALUES
+('admin_1', 'admin', crypt('1234', gen_salt('bf')), TRUE, 'System Administrator', 'ADMIN', 'main'),
+('supervisor_1', 'supervisor', crypt('12345', gen_salt('bf')), TRUE, 'Shift Supervisor', 'SUPERVISOR', 'main'),
+('staff_1', 'staff1', crypt('12345', gen_salt('bf')), TRUE, 'Counter 1 Staff', 'STAFF', 'main'),
+('staff_2', 'staff2', crypt('12345', gen_salt('bf')), TRUE, 'Counter 2 Staff', 'STAFF', 'main'),
+('kiosk_1', 'kiosk', crypt('12345', gen_salt('bf')), TRUE, 'Main Kiosk', 'KIOSK', 'main'),
+('display_1', 'display', crypt('12345', gen_salt('bf')), TRUE, 'Main Display', 'DISPLAY', 'main');
 
 
 -- 6. MANUAL RESET FUNCTIONS
+-- Queue functions run as the table owner (RLS would otherwise hide sequences and block
+-- kiosks and customers), so each one checks the caller's role itself where it matters.
 
--- Function to Reset All Statistics (Deletes completed history, keeps active queue)
-CREATE OR REPLACE FUNCTION clear_history_stats()
+-- Function to Reset All Statistics for a branch (Deletes completed history, keeps active queue)
+CREATE OR REPLACE FUNCTION clear_history_stats(p_branch_id TEXT)
 RETURNS void AS $$
 BEGIN
-  DELETE FROM tickets WHERE status IN ('COMPLETED', 'CANCELLED', 'NO_SHOW');
+  IF NOT has_branch_permission('reset_queue', p_branch_id) THEN
+    RAISE EXCEPTION 'Not allowed to clear statistics';
+  END IF;
+
+  DELETE FROM tickets WHERE branch_id = p_branch_id AND status IN ('COMPLETED', 'CANCELLED', 'NO_SHOW');
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
 
--- Function to Wipe Entire System (Deletes everything)
-CREATE OR REPLACE FUNCTION reset_daily_queue()
+-- Function to Wipe a branch's queue (Deletes everything for that branch)
+CREATE OR REPLACE FUNCTION reset_daily_queue(p_branch_id TEXT)
 RETURNS void AS $$
 BEGIN
+  IF NOT has_branch_permission('reset_queue', p_branch_id) THEN
+    RAISE EXCEPTION 'Not allowed to reset the queue';
+  END IF;
+
   -- 1. Archive or Delete Tickets
-  DELETE FROM tickets WHERE 1=1;
+  DELETE FROM tickets WHERE branch_id = p_branch_id;
 
   -- 2. Reset Counters
-  UPDATE counters SET current_ticket_id = NULL WHERE 1=1;
+  UPDATE counters SET current_ticket_id = NULL WHERE branch_id = p_branch_id;
+
+  -- 3. Restart Ticket Numbering
+  DELETE FROM ticket_sequences
+  WHERE service_id IN (SELECT id FROM services WHERE branch_id = p_branch_id);
+
+  -- 4. Drop past bookings (future appointments are kept)
+  DELETE FROM appointments WHERE branch_id = p_branch_id AND scheduled_at < branch_day_start(p_branch_id);
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
 
 -- Removed automated cron schedule to prevent midnight deletion
+
+
+-- 7. QUEUE FUNCTIONS
+
+-- Midnight that started the branch's current day in its own time zone, so "today" means the same
+-- at the counter as it does on the server
+CREATE OR REPLACE FUNCTION branch_day_start(p_branch_id TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT date_trunc('day', NOW() AT TIME ZONE tz.zone) AT TIME ZONE tz.zone
+  FROM (SELECT COALESCE((SELECT time_zone FROM system_settings WHERE branch_id = p_branch_id), 'UTC') AS zone) tz;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The branch's local date, so ticket numbers restart at its midnight rather than the server's
+CREATE OR REPLACE FUNCTION branch_today(p_branch_id TEXT)
+RETURNS DATE AS $$
+  SELECT (NOW() AT TIME ZONE tz.zone)::date
+  FROM (SELECT COALESCE((SELECT time_zone FROM system_settings WHERE branch_id = p_branch_id), 'UTC') AS zone) tz;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Random code for typing by hand: unambiguous characters only (no 0/O, 1/I/L), drawn from
+-- gen_random_bytes. Bytes of 248 (8 * 31) and up are skipped so every character is equally likely.
+CREATE OR REPLACE FUNCTION random_code(p_length INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT := '';
+  v_bytes BYTEA;
+  v_byte INTEGER;
+BEGIN
+  WHILE length(v_code) < p_length LOOP
+    v_bytes := gen_random_bytes(p_length);
+    FOR i IN 0 .. p_length - 1 LOOP
+      v_byte := get_byte(v_bytes, i);
+      IF v_byte < 248 AND length(v_code) < p_length THEN
+        v_code := v_code || substr(v_alphabet, v_byte % 31 + 1, 1);
+      END IF;
+    END LOOP;
+  END LOOP;
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public, extensions;
+
+-- Customers are keyed by phone in one format: '+' and digits. Numbers typed without an international
+-- prefix get the branch's country code, leading zeros dropped, as the kiosk does.
+-- Keep in sync with normalizePhone in lib/customers.ts.
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT, p_branch_id TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN v.digits = '' THEN NULL
+    WHEN v.raw LIKE '+%' THEN '+' || v.digits
+    WHEN v.raw LIKE '00%' THEN '+' || substr(v.digits, 3)
+    ELSE COALESCE((SELECT '+' || NULLIF(regexp_replace(s.country_code, '[^0-9]', '', 'g'), '') FROM system_settings s WHERE s.branch_id = p_branch_id), '')
+         || ltrim(v.digits, '0')
+  END
+  FROM (SELECT trim(COALESCE(p_phone, '')) AS raw, regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g') AS digits) v;
+$$ LANGUAGE sql STABLE;
+
+-- Issue a ticket: allocates the next daily number for the service and inserts the ticket
+-- in one transaction. The upsert row-locks the sequence, so concurrent kiosks never collide.
+-- With p_remember the customer agreed to be remembered: their details are saved under their phone
+-- number and the ticket is linked to them.
+-- Returns the ticket row plus its tracking_token, which is only ever handed out here.
+CREATE OR REPLACE FUNCTION issue_ticket(p_service_id TEXT, p_name TEXT, p_phone TEXT DEFAULT NULL, p_email TEXT DEFAULT NULL, p_notify_channel notification_channel DEFAULT NULL, p_remember BOOLEAN DEFAULT FALSE)
+RETURNS JSONB AS $$
+DECLARE
+  v_service services%ROWTYPE;
+  v_seq INTEGER;
+  v_ticket tickets%ROWTYPE;
+  v_token TEXT;
+  v_phone TEXT;
+  v_customer_id TEXT;
+  v_ticket_id TEXT := uuid_generate_v4()::text;
+BEGIN
+  SELECT * INTO v_service FROM services WHERE id = p_service_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % not found', p_service_id;
+  END IF;
+
+  INSERT INTO ticket_sequences (service_id, sequence_date, last_value)
+  VALUES (p_service_id, branch_today(v_service.branch_id), 1)
+  ON CONFLICT (service_id, sequence_date)
+  DO UPDATE SET last_value = ticket_sequences.last_value + 1
+  RETURNING last_value INTO v_seq;
+
+  v_phone := normalize_phone(p_phone, v_service.branch_id);
+  -- A known number is never overwritten. It is linked only at a paired kiosk, where the customer was
+  -- looked up (lookup_customer) and the name matches: typing someone else's number on a phone must not
+  -- add to their history or hand out a ticket that can erase it.
+  IF p_remember AND v_phone IS NOT NULL THEN
+    INSERT INTO customers (phone, name, email, notify_channel, created_by_ticket_id)
+    VALUES (v_phone, trim(p_name), NULLIF(trim(p_email), ''), p_notify_channel, v_ticket_id)
+    ON CONFLICT (phone) DO NOTHING
+    RETURNING id INTO v_customer_id;
+    IF v_customer_id IS NULL AND current_app_role() = 'KIOSK' THEN
+      SELECT c.id INTO v_customer_id FROM customers c
+      WHERE c.phone = v_phone AND lower(c.name) = lower(trim(p_name));
+    END IF;
+  END IF;
+
+  INSERT INTO tickets (id, branch_id, number, name, phone, email, notify_channel, service_id, service_name, status, joined_at, customer_id)
+  VALUES (v_ticket_id, v_service.branch_id, v_service.prefix || LPAD(v_seq::text, 3, '0'), p_name, NULLIF(p_phone, ''), NULLIF(trim(p_email), ''), p_notify_channel, p_service_id, v_service.name, 'WAITING', NOW(), v_customer_id)
+  RETURNING * INTO v_ticket;
+
+  INSERT INTO ticket_tokens (ticket_id) VALUES (v_ticket.id) RETURNING token INTO v_token;
+
+  INSERT INTO ticket_events (ticket_id, event_type, staff_user_id, payload)
+  VALUES (v_ticket.id, 'ISSUED', current_app_user_id(), jsonb_build_object('number', v_ticket.number, 'serviceId', v_ticket.service_id));
+
+  RETURN to_jsonb(v_ticket) || jsonb_build_object('tracking_token', v_token);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Call the next ticket for a counter: picks, marks SERVING and assigns the counter in one step.
+-- Mirrors lib/queueSelection.ts (routing, front-of-queue transfers, due appointments,
+-- weighted-fair + aging when enabled, then FIFO).
+-- SKIP LOCKED lets concurrent counters each claim a different ticket instead of the same one.
+CREATE OR REPLACE FUNCTION call_next_ticket(p_counter_id INTEGER)
+RETURNS SETOF tickets AS $$
+DECLARE
+  v_counter counters%ROWTYPE;
+  v_settings system_settings%ROWTYPE;
+  v_weighted BOOLEAN;
+  v_aging_cutoff TIMESTAMP WITH TIME ZONE := '-infinity';
+  -- Keep in sync with APPOINTMENT_PRIORITY_WINDOW_MINUTES in constants.ts
+  v_appointment_cutoff TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '15 minutes';
+  v_ticket tickets%ROWTYPE;
+BEGIN
+  -- Lock the counter so repeated presses at the same counter are serialized
+  SELECT * INTO v_counter FROM counters WHERE id = p_counter_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Counter % not found', p_counter_id;
+  END IF;
+  IF current_app_role() IS DISTINCT FROM 'ADMIN' AND NOT is_staff_at_counter(p_counter_id) THEN
+    RAISE EXCEPTION 'Not signed in at counter %', p_counter_id;
+  END IF;
+  IF NOT v_counter.is_open OR v_counter.retired THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_settings FROM system_settings WHERE branch_id = v_counter.branch_id;
+  v_weighted := COALESCE(v_settings.queue_mode = 'weighted', FALSE);
+  IF v_weighted AND v_settings.aging_threshold_minutes > 0 THEN
+    v_aging_cutoff := NOW() - make_interval(mins => v_settings.aging_threshold_minutes);
+  END IF;
+
+  SELECT t.* INTO v_ticket
+  FROM tickets t
+  JOIN services s ON s.id = t.service_id
+  LEFT JOIN (
+    SELECT service_id, COUNT(*) AS served_count
+    FROM tickets
+    WHERE branch_id = v_counter.branch_id AND served_at >= branch_day_start(v_counter.branch_id)
+    GROUP BY service_id
+  ) served ON served.service_id = t.service_id
+  WHERE t.status = 'WAITING'
+    AND t.branch_id = v_counter.branch_id
+    AND (
+      t.target_counter_id = p_counter_id
+      OR (
+        t.target_counter_id IS NULL
+        AND (
+          cardinality(v_counter.service_ids) = 0
+          OR t.service_id = ANY(v_counter.service_ids)
+          OR t.service_id = ANY(v_counter.fallback_service_ids)
+        )
+      )
+    )
+  ORDER BY
+    (
+      COALESCE(t.target_counter_id = p_counter_id, FALSE)
+      OR cardinality(v_counter.service_ids) = 0
+      OR t.service_id = ANY(v_counter.service_ids)
+    ) DESC,
+    t.front_of_queue DESC,
+    COALESCE(t.appointment_at <= v_appointment_cutoff, FALSE) DESC,
+    CASE WHEN t.appointment_at <= v_appointment_cutoff THEN t.appointment_at END,
+    (t.joined_at <= v_aging_cutoff) DESC,
+    CASE WHEN v_weighted AND NOT t.front_of_queue AND t.joined_at > v_aging_cutoff
+      THEN (COALESCE(served.served_count, 0) + 1)::numeric / GREATEST(s.priority, 1)
+      ELSE 0
+    END,
+    t.joined_at
+  LIMIT 1
+  FOR UPDATE OF t SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE tickets
+  SET status = 'SERVING', counter_id = p_counter_id, served_at = NOW()
+  WHERE id = v_ticket.id
+  RETURNING * INTO v_ticket;
+
+  UPDATE counters SET current_ticket_id = v_ticket.id WHERE id = p_counter_id;
+
+  INSERT INTO ticket_events (ticket_id, event_type, counter_id, staff_user_id)
+  VALUES (v_ticket.id, 'CALLED', p_counter_id, current_app_user_id());
+
+  RETURN NEXT v_ticket;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Places taken in each upcoming slot, for the booking page; who booked them stays private
+CREATE OR REPLACE FUNCTION get_booked_slots(p_branch_id TEXT)
+RETURNS TABLE (service_id TEXT, scheduled_at TIMESTAMP WITH TIME ZONE, booked INTEGER) AS $$
+  SELECT a.service_id, a.scheduled_at, COUNT(*)::INTEGER
+  FROM appointments a
+  WHERE a.branch_id = p_branch_id AND a.status <> 'CANCELLED' AND a.scheduled_at > NOW()
+  GROUP BY a.service_id, a.scheduled_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Book an appointment slot. Locks the service row so concurrent bookings cannot overfill a slot.
+CREATE OR REPLACE FUNCTION book_appointment(p_service_id TEXT, p_name TEXT, p_phone TEXT, p_scheduled_at TIMESTAMP WITH TIME ZONE)
+RETURNS appointments AS $$
+DECLARE
+  v_service services%ROWTYPE;
+  v_booked INTEGER;
+  v_code TEXT;
+  v_appointment appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_service FROM services WHERE id = p_service_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % not found', p_service_id;
+  END IF;
+  IF v_service.appointment_slot_minutes = 0 THEN
+    RAISE EXCEPTION 'Service % does not take appointments', p_service_id;
+  END IF;
+  IF p_scheduled_at <= NOW() THEN
+    RAISE EXCEPTION 'Slot is in the past';
+  END IF;
+
+  SELECT COUNT(*) INTO v_booked FROM appointments
+  WHERE service_id = p_service_id AND scheduled_at = p_scheduled_at AND status <> 'CANCELLED';
+  IF v_booked >= v_service.appointment_capacity THEN
+    RAISE EXCEPTION 'Slot is fully booked';
+  END IF;
+
+  -- Typed at the kiosk
+  LOOP
+    v_code := random_code(6);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM appointments WHERE code = v_code);
+  END LOOP;
+
+  INSERT INTO appointments (branch_id, code, service_id, name, phone, scheduled_at)
+  VALUES (v_service.branch_id, v_code, p_service_id, p_name, NULLIF(p_phone, ''), p_scheduled_at)
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check in a booked appointment at the kiosk: issues a WAITING ticket carrying the slot time.
+-- Only today's bookings at this branch can be checked in; returns NULL for unknown or already used codes.
+-- Like issue_ticket, the result carries the ticket's tracking_token. A booking made with the phone
+-- number of a remembered customer is linked to them.
+CREATE OR REPLACE FUNCTION check_in_appointment(p_code TEXT, p_branch_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_appointment appointments%ROWTYPE;
+  v_issued JSONB;
+  v_ticket tickets%ROWTYPE;
+BEGIN
+  SELECT * INTO v_appointment FROM appointments
+  WHERE code = upper(trim(p_code))
+    AND branch_id = p_branch_id
+    AND status = 'BOOKED'
+    AND scheduled_at >= branch_day_start(p_branch_id)
+    AND scheduled_at < branch_day_start(p_branch_id) + INTERVAL '1 day'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_issued := issue_ticket(v_appointment.service_id, v_appointment.name, v_appointment.phone);
+
+  UPDATE tickets
+  SET appointment_id = v_appointment.id,
+      appointment_at = v_appointment.scheduled_at,
+      -- Booking history joins a saved record only at a paired kiosk, as in issue_ticket
+      customer_id = CASE WHEN current_app_role() = 'KIOSK'
+        THEN (SELECT c.id FROM customers c WHERE c.phone = normalize_phone(v_appointment.phone, p_branch_id))
+      END
+  WHERE id = v_issued->>'id'
+  RETURNING * INTO v_ticket;
+
+  UPDATE appointments SET status = 'CHECKED_IN', ticket_id = v_ticket.id WHERE id = v_appointment.id;
+  UPDATE ticket_events SET payload = payload || jsonb_build_object('appointmentId', v_appointment.id)
+  WHERE ticket_id = v_ticket.id AND event_type = 'ISSUED';
+
+  RETURN to_jsonb(v_ticket) || jsonb_build_object('tracking_token', v_issued->>'tracking_token');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send a ticket to another service, and optionally to one counter. It waits again with its original join
+-- time, at the front if asked. Staff transfer the ticket at their own counter; others need transfer_tickets.
+CREATE OR REPLACE FUNCTION transfer_ticket(p_ticket_id TEXT, p_service_id TEXT, p_counter_id INTEGER DEFAULT NULL, p_place_at_front BOOLEAN DEFAULT FALSE)
+RETURNS tickets AS $$
+DECLARE
+  v_ticket tickets%ROWTYPE;
+  v_service services%ROWTYPE;
+  v_transfer JSONB;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = p_ticket_id FOR UPDATE;
+  IF NOT FOUND
+    OR NOT has_branch_permission('transfer_tickets', v_ticket.branch_id)
+    OR (current_app_role() = 'STAFF' AND NOT COALESCE(is_staff_at_counter(v_ticket.counter_id), FALSE)) THEN
+    RAISE EXCEPTION 'Not allowed to transfer this ticket';
+  END IF;
+  SELECT * INTO v_service FROM services WHERE id = p_service_id AND branch_id = v_ticket.branch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % not found', p_service_id;
+  END IF;
+  IF p_counter_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM counters WHERE id = p_counter_id AND branch_id = v_ticket.branch_id) THEN
+    RAISE EXCEPTION 'Counter % not found', p_counter_id;
+  END IF;
+
+  -- Same shape as TicketTransfer in types.ts
+  v_transfer := jsonb_strip_nulls(jsonb_build_object(
+    'fromServiceId', v_ticket.service_id,
+    'toServiceId', p_service_id,
+    'fromCounter', v_ticket.counter_id,
+    'toCounter', p_counter_id,
+    'at', floor(extract(epoch FROM NOW()) * 1000)::BIGINT
+  ));
+
+  UPDATE counters SET current_ticket_id = NULL WHERE current_ticket_id = v_ticket.id;
+
+  UPDATE tickets
+  SET status = 'WAITING', service_id = v_service.id, service_name = v_service.name, counter_id = NULL, served_at = NULL,
+      target_counter_id = p_counter_id, front_of_queue = p_place_at_front, transfers = transfers || jsonb_build_array(v_transfer),
+      recall_count = 0, last_recalled_at = NULL
+  WHERE id = v_ticket.id
+  RETURNING * INTO v_ticket;
+
+  INSERT INTO ticket_events (ticket_id, event_type, counter_id, staff_user_id, payload)
+  VALUES (v_ticket.id, 'TRANSFERRED', (v_transfer ->> 'fromCounter')::INTEGER, current_app_user_id(),
+          v_transfer || jsonb_build_object('placeAtFront', p_place_at_front));
+
+  RETURN v_ticket;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Customer cancellation from the kiosk or tracking page: only a ticket still waiting can be cancelled, by
+-- someone holding its tracking token or by queue staff of its branch. Returns FALSE when nothing changed.
+CREATE OR REPLACE FUNCTION cancel_ticket(p_ticket_id TEXT, p_token TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE tickets t SET status = 'CANCELLED'
+  WHERE t.id = p_ticket_id
+    AND t.status = 'WAITING'
+    AND (EXISTS (SELECT 1 FROM ticket_tokens k WHERE k.ticket_id = t.id AND k.token = p_token)
+         OR is_queue_staff_for_branch(t.branch_id));
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Logged once the ticket is cancelled: the event is what sends the customer's cancellation message
+  INSERT INTO ticket_events (ticket_id, event_type, staff_user_id) VALUES (p_ticket_id, 'CANCELLED', current_app_user_id());
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel a booking from the booking page; the code proves the caller made it
+CREATE OR REPLACE FUNCTION cancel_appointment(p_appointment_id TEXT, p_code TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE appointments SET status = 'CANCELLED'
+  WHERE id = p_appointment_id AND code = upper(trim(p_code)) AND status = 'BOOKED';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- 8. AUTH FUNCTIONS
+-- Passwords are hashed with bcrypt and only ever compared inside these functions.
+-- They run as the table owner so the browser never needs access to password_hash.
+-- Minimum password length is kept in sync with PASSWORD_MIN_LENGTH in constants.ts.
+
+-- Opens a session on success; its token is what RLS policies use to identify the caller.
+-- Session lengths are kept in sync with SESSION_DURATION in App.tsx.
+CREATE OR REPLACE FUNCTION verify_login(p_username TEXT, p_password TEXT, p_remember BOOLEAN DEFAULT FALSE)
+RETURNS TABLE (id TEXT, username TEXT, name TEXT, role user_role, branch_id TEXT, must_change_password BOOLEAN, permissions TEXT[], session_token TEXT) AS $$
+DECLARE
+  v_user_id TEXT;
+  v_token TEXT;
+BEGIN
+  SELECT u.id INTO v_user_id
+  FROM app_users u
+  WHERE u.username = p_username
+    AND u.password_hash = crypt(p_password, u.password_hash);
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM app_sessions s WHERE s.expires_at <= NOW();
+  INSERT INTO app_sessions AS s (user_id, expires_at)
+  VALUES (v_user_id, NOW() + CASE WHEN p_remember THEN INTERVAL '30 days' ELSE INTERVAL '2 hours' END)
+  RETURNING s.token INTO v_token;
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.name, u.role, u.branch_id, u.must_change_password, u.permissions, v_token
+  FROM app_users u
+  WHERE u.id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Restores the signed-in user for the session token sent with the request.
+-- Paired devices call this on every start, which doubles as their "last seen" heartbeat.
+CREATE OR REPLACE FUNCTION current_session_user()
+RETURNS TABLE (id TEXT, username TEXT, name TEXT, role user_role, branch_id TEXT, must_change_password BOOLEAN, permissions TEXT[]) AS $$
+BEGIN
+  UPDATE devices d SET last_seen_at = NOW() WHERE d.user_id = current_app_user_id();
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.name, u.role, u.branch_id, u.must_change_password, u.permissions
+  FROM app_users u
+  WHERE u.id = current_app_user_id();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION end_session()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM app_sessions
+  WHERE token = NULLIF(current_setting('request.headers', true), '')::json->>'x-session-token';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New accounts start with a temporary password
+CREATE OR REPLACE FUNCTION create_app_user(p_username TEXT, p_password TEXT, p_name TEXT, p_role user_role, p_branch_id TEXT DEFAULT NULL)
+RETURNS TABLE (id TEXT, username TEXT, name TEXT, role user_role, branch_id TEXT, must_change_password BOOLEAN) AS $$
+DECLARE
+  v_user_id TEXT;
+BEGIN
+  IF NOT has_branch_permission('manage_users', p_branch_id) OR (p_role = 'ADMIN' AND current_app_role() IS DISTINCT FROM 'ADMIN') THEN
+    RAISE EXCEPTION 'Not allowed to create this account';
+  END IF;
+  IF length(p_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  INSERT INTO app_users AS u (username, password_hash, must_change_password, name, role, branch_id)
+  VALUES (p_username, crypt(p_password, gen_salt('bf')), TRUE, p_name, p_role, p_branch_id)
+  RETURNING u.id INTO v_user_id;
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.name, u.role, u.branch_id, u.must_change_password
+  FROM app_users u
+  WHERE u.id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION set_user_password(p_user_id TEXT, p_password TEXT, p_must_change BOOLEAN DEFAULT TRUE)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_manage_user(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to set this password';
+  END IF;
+  IF length(p_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  UPDATE app_users
+  SET password_hash = crypt(p_password, gen_salt('bf')), must_change_password = p_must_change
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Self-service change; requires the current password and clears the forced-change flag
+CREATE OR REPLACE FUNCTION change_password(p_user_id TEXT, p_current_password TEXT, p_new_password TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF length(p_new_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  UPDATE app_users
+  SET password_hash = crypt(p_new_password, gen_salt('bf')), must_change_password = FALSE
+  WHERE id = p_user_id
+    AND password_hash = crypt(p_current_password, password_hash);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Anyone signed in may rename themselves; everything else about an account is for account managers
+CREATE OR REPLACE FUNCTION update_own_profile(p_name TEXT, p_username TEXT)
+RETURNS void AS $$
+BEGIN
+  IF current_app_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  UPDATE app_users
+  SET name = COALESCE(NULLIF(trim(p_name), ''), name),
+      username = COALESCE(NULLIF(trim(p_username), ''), username)
+  WHERE id = current_app_user_id();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Password reset: the login screen flags a request, an admin issues a one-time code and
+-- hands it over, and the user redeems it with a new password before it expires.
+-- Keep the expiry in sync with PASSWORD_RESET_TTL_MINUTES in constants.ts.
+
+-- Never reveals whether the username exists
+CREATE OR REPLACE FUNCTION request_password_reset(p_username TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE app_users SET reset_requested_at = NOW() WHERE username = p_username;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin force-reset: the current password stops working, the user is signed out everywhere,
+-- and the returned code (shown once) is the only way back in
+CREATE OR REPLACE FUNCTION issue_password_reset(p_user_id TEXT)
+RETURNS TABLE (code TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_code TEXT;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '30 minutes';
+BEGIN
+  IF NOT can_manage_user(p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to reset this password';
+  END IF;
+  IF p_user_id = current_app_user_id() THEN
+    RAISE EXCEPTION 'Change your own password from your profile instead';
+  END IF;
+
+  v_code := random_code(8);
+
+  -- Only the newest code is valid
+  UPDATE password_resets r SET used_at = NOW() WHERE r.user_id = p_user_id AND r.used_at IS NULL;
+  INSERT INTO password_resets (user_id, code_hash, issued_by, expires_at)
+  VALUES (p_user_id, crypt(v_code, gen_salt('bf')), current_app_user_id(), v_expires_at);
+
+  UPDATE app_users
+  SET password_hash = crypt(encode(gen_random_bytes(24), 'hex'), gen_salt('bf')),
+      must_change_password = FALSE,
+      reset_requested_at = NULL
+  WHERE id = p_user_id;
+  DELETE FROM app_sessions WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT v_code, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+CREATE OR REPLACE FUNCTION redeem_password_reset(p_username TEXT, p_code TEXT, p_new_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_reset password_resets%ROWTYPE;
+BEGIN
+  IF length(p_new_password) < 8 THEN
+    RAISE EXCEPTION 'Password must be at least 8 characters';
+  END IF;
+
+  SELECT r.* INTO v_reset
+  FROM password_resets r
+  JOIN app_users u ON u.id = r.user_id
+  WHERE u.username = p_username
+    AND r.used_at IS NULL
+    AND r.expires_at > NOW()
+    AND r.code_hash = crypt(upper(trim(p_code)), r.code_hash)
+  FOR UPDATE OF r;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE password_resets SET used_at = NOW() WHERE id = v_reset.id;
+  UPDATE app_users
+  SET password_hash = crypt(p_new_password, gen_salt('bf')), must_change_password = FALSE
+  WHERE id = v_reset.user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Write-only: the key is stored in branch_secrets and only its presence is visible in settings
+CREATE OR REPLACE FUNCTION set_whatsapp_api_key(p_branch_id TEXT, p_api_key TEXT)
+RETURNS void AS $$
+BEGIN
+  IF current_app_role() IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Only admins can change provider credentials';
+  END IF;
+
+  INSERT INTO branch_secrets (branch_id, whatsapp_api_key)
+  VALUES (p_branch_id, NULLIF(p_api_key, ''))
+  ON CONFLICT (branch_id) DO UPDATE SET whatsapp_api_key = EXCLUDED.whatsapp_api_key;
+
+  UPDATE system_settings SET whatsapp_api_key_set = NULLIF(p_api_key, '') IS NOT NULL WHERE branch_id = p_branch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hide the hash column from the API roles; inserts and password writes go through the functions above
+REVOKE ALL ON app_users FROM anon, authenticated;
+GRANT SELECT (id, username, name, role, permissions, branch_id, must_change_password, reset_requested_at, created_at) ON app_users TO anon, authenticated;
+GRANT UPDATE (username, name, role, permissions, branch_id) ON app_users TO anon, authenticated;
+GRANT DELETE ON app_users TO anon, authenticated;
+
+
+-- 9. DEVICE PAIRING
+-- An admin creates a pairing code (also shown as a QR link); the screen redeems it once for
+-- a device session. Keep the code lifetime in sync with DEVICE_PAIRING_TTL_MINUTES in constants.ts.
+
+CREATE OR REPLACE FUNCTION create_device_pairing(p_branch_id TEXT, p_name TEXT, p_role user_role)
+RETURNS TABLE (code TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  v_code TEXT;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '10 minutes';
+BEGIN
+  IF current_app_role() IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Only admins can pair devices';
+  END IF;
+  IF p_role NOT IN ('KIOSK', 'DISPLAY') THEN
+    RAISE EXCEPTION 'Devices can only be paired as KIOSK or DISPLAY';
+  END IF;
+
+  v_code := random_code(8);
+
+  INSERT INTO device_pairings (branch_id, name, role, code_hash, created_by, expires_at)
+  VALUES (p_branch_id, p_name, p_role, crypt(v_code, gen_salt('bf')), current_app_user_id(), v_expires_at);
+
+  RETURN QUERY SELECT v_code, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Redeem a pairing code: creates the device's own account and a session that never expires
+CREATE OR REPLACE FUNCTION pair_device(p_code TEXT)
+RETURNS TABLE (id TEXT, username TEXT, name TEXT, role user_role, branch_id TEXT, must_change_password BOOLEAN, session_token TEXT) AS $$
+DECLARE
+  v_pairing device_pairings%ROWTYPE;
+  v_user_id TEXT;
+  v_token TEXT;
+BEGIN
+  SELECT p.* INTO v_pairing
+  FROM device_pairings p
+  WHERE p.used_at IS NULL
+    AND p.expires_at > NOW()
+    AND p.code_hash = crypt(upper(trim(p_code)), p.code_hash)
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE device_pairings p SET used_at = NOW() WHERE p.id = v_pairing.id;
+
+  INSERT INTO app_users AS u (username, password_hash, name, role, branch_id)
+  VALUES ('device-' || substr(uuid_generate_v4()::text, 1, 8), crypt(encode(gen_random_bytes(24), 'hex'), gen_salt('bf')),
+          v_pairing.name, v_pairing.role, v_pairing.branch_id)
+  RETURNING u.id INTO v_user_id;
+
+  INSERT INTO devices (branch_id, name, role, user_id, last_seen_at)
+  VALUES (v_pairing.branch_id, v_pairing.name, v_pairing.role, v_user_id, NOW());
+
+  INSERT INTO app_sessions AS s (user_id, expires_at)
+  VALUES (v_user_id, 'infinity')
+  RETURNING s.token INTO v_token;
+
+  RETURN QUERY
+  SELECT u.id, u.username, u.name, u.role, u.branch_id, u.must_change_password, v_token
+  FROM app_users u
+  WHERE u.id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Revoking signs the device out immediately; the row stays for the audit trail
+CREATE OR REPLACE FUNCTION revoke_device(p_device_id TEXT)
+RETURNS void AS $$
+DECLARE
+  v_user_id TEXT;
+BEGIN
+  IF current_app_role() IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Only admins can revoke devices';
+  END IF;
+
+  UPDATE devices SET revoked_at = NOW() WHERE id = p_device_id AND revoked_at IS NULL
+  RETURNING user_id INTO v_user_id;
+  DELETE FROM app_sessions WHERE user_id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+
+-- 10. NOTIFICATION OUTBOX
+-- Messages are queued here and sent by the API server (server/outbox.ts), which retries failures
+-- with backoff. Staff-triggered sends happen immediately and are logged as 'manual' rows.
+-- Automatic messages use the branch's template for the event, rendered when the message is queued.
+
+-- Mirrors a ticket's latest message onto the ticket so counters see it over realtime
+-- (an older message failing over to a fallback channel does not overwrite the newer one)
+CREATE OR REPLACE FUNCTION sync_ticket_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.ticket_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status OR NEW.last_error IS DISTINCT FROM OLD.last_error)
+    AND NOT EXISTS (SELECT 1 FROM notifications n WHERE n.ticket_id = NEW.ticket_id AND n.created_at > NEW.created_at) THEN
+    UPDATE tickets
+    SET notification_status = NEW.status,
+        notification_error = NEW.last_error,
+        notification_message_id = NEW.provider_message_id,
+        notified_at = NOW()
+    WHERE id = NEW.ticket_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_notification_change
+AFTER INSERT OR UPDATE ON notifications
+FOR EACH ROW EXECUTE FUNCTION sync_ticket_notification();
+
+CREATE OR REPLACE FUNCTION notification_recipient(p_ticket tickets, p_channel notification_channel)
+RETURNS TEXT AS $$
+  SELECT CASE p_channel
+    WHEN 'EMAIL' THEN NULLIF(trim(p_ticket.email), '')
+    ELSE NULLIF(regexp_replace(COALESCE(p_ticket.phone, ''), '[^0-9]', '', 'g'), '')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The customer's chosen channel first, then the branch's fallback order: enabled channels the ticket has
+-- contact details for and the event has a message for. Mirrors getNotificationChannels in lib/notifications.ts.
+CREATE OR REPLACE FUNCTION notification_channels_for(p_ticket tickets, p_event TEXT)
+RETURNS notification_channel[] AS $$
+  SELECT COALESCE(array_agg(o.channel ORDER BY o.ord), '{}')
+  FROM system_settings s,
+       unnest(array_prepend(p_ticket.notify_channel, s.channel_fallback_order)) WITH ORDINALITY AS o(channel, ord)
+  WHERE s.branch_id = p_ticket.branch_id
+    AND COALESCE((s.notification_channels -> o.channel::text ->> 'enabled')::boolean, FALSE)
+    AND NULLIF(trim(s.notification_templates -> p_event -> 'bodies' ->> o.channel::text), '') IS NOT NULL
+    AND notification_recipient(p_ticket, o.channel) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether waiting ticket a is called before b. Mirrors compareQueueOrder in lib/queueSelection.ts
+-- (the appointment window is APPOINTMENT_PRIORITY_WINDOW_MINUTES in constants.ts).
+CREATE OR REPLACE FUNCTION is_called_before(a tickets, b tickets)
+RETURNS BOOLEAN AS $$
+  SELECT (NOT a.front_of_queue, NOT a_due, CASE WHEN a_due AND b_due THEN a.appointment_at ELSE 'epoch' END, a.joined_at)
+       < (NOT b.front_of_queue, NOT b_due, CASE WHEN a_due AND b_due THEN b.appointment_at ELSE 'epoch' END, b.joined_at)
+  FROM (SELECT COALESCE(a.appointment_at <= NOW() + INTERVAL '15 minutes', FALSE) AS a_due,
+               COALESCE(b.appointment_at <= NOW() + INTERVAL '15 minutes', FALSE) AS b_due) due;
+$$ LANGUAGE sql STABLE;
+
+-- 1-based place among the waiting tickets of the same service. Mirrors getQueuePosition in lib/waitEstimate.ts.
+CREATE OR REPLACE FUNCTION ticket_queue_position(p_ticket tickets)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER + 1
+  FROM tickets t
+  WHERE t.service_id = p_ticket.service_id AND t.status = 'WAITING' AND t.id <> p_ticket.id AND is_called_before(t, p_ticket);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Minutes until a counter is free for this ticket: what is left of the sessions in progress plus the standard
+-- time of every ticket called before it, shared across open counters. Mirrors estimateWaitMinutes in lib/waitEstimate.ts.
+CREATE OR REPLACE FUNCTION estimate_wait_minutes(p_ticket tickets)
+RETURNS INTEGER AS $$
+  SELECT CEIL(
+    COALESCE(SUM(CASE
+      WHEN t.status = 'WAITING' OR t.served_at IS NULL OR t.served_at > NOW() THEN duration
+      ELSE GREATEST(30, duration - EXTRACT(EPOCH FROM NOW() - t.served_at))
+    END), 0)
+    / GREATEST(1, (SELECT COUNT(*) FROM counters c WHERE c.branch_id = p_ticket.branch_id AND c.is_open AND NOT c.retired))
+    / 60)::INTEGER
+  FROM tickets t
+  LEFT JOIN services s ON s.id = t.service_id,
+  LATERAL (SELECT COALESCE(NULLIF(s.default_wait_time, 0), 5) * 60.0 AS duration) d
+  WHERE t.branch_id = p_ticket.branch_id
+    AND (t.status = 'SERVING' OR (t.status = 'WAITING' AND t.id <> p_ticket.id AND is_called_before(t, p_ticket)));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Fills {name}, {number}, {service}, {counter}, {position} and {eta}. Mirrors getTemplateValues in lib/notifications.ts.
+CREATE OR REPLACE FUNCTION render_notification(p_text TEXT, p_ticket tickets)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(replace(replace(replace(p_text,
+    '{name}', p_ticket.name),
+    '{number}', p_ticket.number),
+    '{service}', COALESCE(p_ticket.service_name, '')),
+    '{counter}', COALESCE((SELECT c.label FROM counters c WHERE c.id = COALESCE(p_ticket.counter_id, p_ticket.target_counter_id)), 'the counter')),
+    '{position}', CASE WHEN strpos(p_text, '{position}') > 0 THEN ticket_queue_position(p_ticket)::TEXT ELSE '' END),
+    '{eta}', CASE WHEN strpos(p_text, '{eta}') > 0 THEN estimate_wait_minutes(p_ticket)::TEXT ELSE '' END);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Queues the event's template on the first channel not yet tried for this message key, when the event is
+-- sent automatically. Returns FALSE when nothing was queued. Internal: callers check permissions first.
+CREATE OR REPLACE FUNCTION queue_on_next_channel(p_ticket_id TEXT, p_message_key TEXT, p_event TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_ticket tickets%ROWTYPE;
+  v_template JSONB;
+  v_channel notification_channel;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = p_ticket_id;
+  SELECT notification_templates -> p_event INTO v_template FROM system_settings WHERE branch_id = v_ticket.branch_id;
+  IF NOT COALESCE((v_template ->> 'enabled')::boolean, FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT c INTO v_channel
+  FROM unnest(notification_channels_for(v_ticket, p_event)) WITH ORDINALITY AS o(c, ord)
+  WHERE NOT EXISTS (SELECT 1 FROM notifications n WHERE n.message_key = p_message_key AND n.channel = c)
+  ORDER BY ord
+  LIMIT 1;
+  IF v_channel IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO notifications (branch_id, ticket_id, channel, template, message_key, recipient, subject, message)
+  VALUES (v_ticket.branch_id, v_ticket.id, v_channel, p_event, p_message_key, notification_recipient(v_ticket, v_channel),
+          CASE WHEN v_channel = 'EMAIL' THEN render_notification(v_template ->> 'subject', v_ticket) END,
+          render_notification(v_template -> 'bodies' ->> v_channel::text, v_ticket))
+  ON CONFLICT (message_key, channel) DO NOTHING;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+REVOKE EXECUTE ON FUNCTION queue_on_next_channel(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Sends the event's template when something happens to a ticket: once per ticket and event, except recalls,
+-- which go out every time. Anyone may log events for themselves, so staff actions only count when staff
+-- at the branch logged them, and customer ones only when the ticket is really in that state.
+CREATE OR REPLACE FUNCTION notify_ticket_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_ticket tickets%ROWTYPE;
+  v_event TEXT := CASE NEW.event_type WHEN 'COMPLETED' THEN 'FEEDBACK' ELSE NEW.event_type::TEXT END;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = NEW.ticket_id;
+  IF NEW.payload ->> 'reason' = 'end_of_day' THEN
+    RETURN NEW; -- The scheduler closing out a past day is not announced
+  END IF;
+
+  IF (v_event = 'ISSUED' AND v_ticket.status = 'WAITING')
+    OR (v_event = 'CANCELLED' AND v_ticket.status = 'CANCELLED')
+    OR (v_event IN ('CALLED', 'RECALLED', 'TRANSFERRED', 'CANCELLED', 'FEEDBACK') AND is_queue_staff_for_branch(v_ticket.branch_id)) THEN
+    PERFORM queue_on_next_channel(v_ticket.id, CASE WHEN v_event = 'RECALLED' THEN NEW.id ELSE v_ticket.id || ':' || v_event END, v_event);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_ticket_event_notify
+AFTER INSERT ON ticket_events
+FOR EACH ROW EXECUTE FUNCTION notify_ticket_event();
+
+-- Worker only (service role). Queues "Turn Approaching" once for each waiting ticket that has reached its
+-- branch's place in line (within its own service) or estimated wait. Returns how many were queued.
+CREATE OR REPLACE FUNCTION queue_approaching_notifications()
+RETURNS INTEGER AS $$
+DECLARE
+  v_ticket tickets%ROWTYPE;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_ticket IN
+    SELECT t.* FROM tickets t
+    JOIN system_settings s ON s.branch_id = t.branch_id
+    WHERE t.status = 'WAITING'
+      AND NOT COALESCE(t.notification_sent, FALSE)
+      AND COALESCE((s.notification_templates -> 'APPROACHING' ->> 'enabled')::boolean, FALSE)
+      AND cardinality(notification_channels_for(t, 'APPROACHING')) > 0
+      AND ((s.notify_at_position > 0 AND ticket_queue_position(t) <= s.notify_at_position)
+        OR (s.notify_within_minutes > 0 AND estimate_wait_minutes(t) <= s.notify_within_minutes))
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    IF queue_on_next_channel(v_ticket.id, v_ticket.id || ':APPROACHING', 'APPROACHING') THEN
+      v_count := v_count + 1;
+    END IF;
+    UPDATE tickets SET notification_sent = TRUE WHERE id = v_ticket.id;
+  END LOOP;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+REVOKE EXECUTE ON FUNCTION queue_approaching_notifications() FROM PUBLIC, anon, authenticated;
+
+-- The "Called" message for the Notify button, one row per channel in fallback order. Recipients and text
+-- come from the ticket and the branch template only, so /api/send-notification cannot be pointed elsewhere.
+CREATE OR REPLACE FUNCTION manual_notification_messages(p_ticket_id TEXT)
+RETURNS TABLE (branch_id TEXT, channel notification_channel, recipient TEXT, subject TEXT, message TEXT) AS $$
+DECLARE
+  v_ticket tickets%ROWTYPE;
+  v_template JSONB;
+BEGIN
+  SELECT * INTO v_ticket FROM tickets WHERE id = p_ticket_id;
+  IF NOT FOUND OR NOT is_queue_staff_for_branch(v_ticket.branch_id) THEN
+    RAISE EXCEPTION 'Not allowed to notify ticket %', p_ticket_id;
+  END IF;
+  SELECT s.notification_templates -> 'CALLED' INTO v_template FROM system_settings s WHERE s.branch_id = v_ticket.branch_id;
+
+  RETURN QUERY
+  SELECT v_ticket.branch_id, o.c, notification_recipient(v_ticket, o.c),
+         CASE WHEN o.c = 'EMAIL' THEN render_notification(v_template ->> 'subject', v_ticket) END,
+         render_notification(v_template -> 'bodies' ->> o.c::text, v_ticket)
+  FROM unnest(notification_channels_for(v_ticket, 'CALLED')) WITH ORDINALITY AS o(c, ord)
+  ORDER BY o.ord;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Logs a send /api/send-notification already made, on behalf of the staff member who triggered it
+CREATE OR REPLACE FUNCTION record_notification_delivery(p_ticket_id TEXT, p_channel notification_channel, p_recipient TEXT, p_subject TEXT, p_message TEXT, p_status notification_status, p_error TEXT, p_message_id TEXT)
+RETURNS void AS $$
+DECLARE
+  v_branch_id TEXT;
+BEGIN
+  SELECT branch_id INTO v_branch_id FROM tickets WHERE id = p_ticket_id;
+  IF NOT FOUND OR NOT is_queue_staff_for_branch(v_branch_id) THEN
+    RAISE EXCEPTION 'Not allowed to notify ticket %', p_ticket_id;
+  END IF;
+
+  INSERT INTO notifications (branch_id, ticket_id, channel, template, recipient, subject, message, status, attempts, last_error, provider_message_id, next_attempt_at, sent_at)
+  VALUES (v_branch_id, p_ticket_id, p_channel, 'manual', p_recipient, p_subject, p_message, p_status, 1, left(p_error, 500), p_message_id, NULL,
+          CASE WHEN p_status = 'SENT' THEN NOW() END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sends a message that ran out of attempts again, from the Notifications panel
+CREATE OR REPLACE FUNCTION retry_notification(p_notification_id TEXT)
+RETURNS void AS $$
+BEGIN
+  UPDATE notifications
+  SET status = 'QUEUED', attempts = 0, last_error = NULL, next_attempt_at = NOW()
+  WHERE id = p_notification_id AND status = 'FAILED' AND has_branch_permission('view_reports', branch_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Worker only (service role). Leases due messages so parallel workers never send one twice;
+-- if a worker dies mid-send the lease runs out and the message is picked up again.
+CREATE OR REPLACE FUNCTION claim_notifications(p_limit INTEGER)
+RETURNS SETOF notifications AS $$
+  UPDATE notifications n
+  SET attempts = n.attempts + 1, next_attempt_at = NOW() + INTERVAL '5 minutes'
+  WHERE n.id IN (
+    SELECT id FROM notifications
+    WHERE status = 'QUEUED' AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING n.*;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION claim_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Worker only (service role). Records a send attempt: a failure moves the message to the ticket's next
+-- fallback channel when one is left, otherwise it is retried at p_retry_at (NULL = give up).
+CREATE OR REPLACE FUNCTION complete_notification(p_notification_id TEXT, p_ok BOOLEAN, p_error TEXT, p_message_id TEXT, p_retry_at TIMESTAMP WITH TIME ZONE)
+RETURNS void AS $$
+DECLARE
+  v_notification notifications%ROWTYPE;
+BEGIN
+  SELECT * INTO v_notification FROM notifications WHERE id = p_notification_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_ok THEN
+    UPDATE notifications
+    SET status = 'SENT', last_error = NULL, provider_message_id = p_message_id, sent_at = NOW(), next_attempt_at = NULL
+    WHERE id = p_notification_id;
+  ELSIF v_notification.ticket_id IS NOT NULL
+    AND v_notification.template <> 'manual'
+    AND queue_on_next_channel(v_notification.ticket_id, v_notification.message_key, v_notification.template) THEN
+    UPDATE notifications
+    SET status = 'FAILED', last_error = left(p_error, 500), next_attempt_at = NULL
+    WHERE id = p_notification_id;
+  ELSE
+    UPDATE notifications
+    SET status = CASE WHEN p_retry_at IS NULL THEN 'FAILED' ELSE 'QUEUED' END::notification_status,
+        last_error = left(p_error, 500),
+        next_attempt_at = p_retry_at
+    WHERE id = p_notification_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+REVOKE EXECUTE ON FUNCTION complete_notification(TEXT, BOOLEAN, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+
+-- 11. SCHEDULED JOBS
+-- Run by the API server's scheduler (server/scheduler.ts) with the service role, so none of these are
+-- callable from the browser. Each job function works across all branches and returns how many rows it touched.
+
+-- Takes the job's turn when it is due; parallel schedulers (or a second host) skip it until next_run_at.
+-- A run that dies keeps the job leased only until then.
+CREATE OR REPLACE FUNCTION claim_job(p_name TEXT, p_interval_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO scheduled_jobs (name, status, last_started_at, next_run_at)
+  VALUES (p_name, 'RUNNING', NOW(), NOW() + make_interval(secs => p_interval_seconds))
+  ON CONFLICT (name) DO UPDATE
+  SET status = 'RUNNING', last_started_at = NOW(), next_run_at = NOW() + make_interval(secs => p_interval_seconds)
+  WHERE scheduled_jobs.next_run_at <= NOW();
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+REVOKE EXECUTE ON FUNCTION claim_job(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION finish_job(p_name TEXT, p_ok BOOLEAN, p_result TEXT, p_error TEXT)
+RETURNS void AS $$
+  UPDATE scheduled_jobs
+  SET status = CASE WHEN p_ok THEN 'OK' ELSE 'FAILED' END::job_status,
+      run_count = run_count + 1,
+      last_result = p_result,
+      last_error = CASE WHEN p_ok THEN NULL ELSE left(p_error, 500) END,
+      last_finished_at = NOW()
+  WHERE name = p_name;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION finish_job(TEXT, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Tickets that reached the recall limit and still have not turned up this long after the last recall
+CREATE OR REPLACE FUNCTION expire_no_shows()
+RETURNS INTEGER AS $$
+  WITH expired AS (
+    UPDATE tickets t
+    SET status = 'NO_SHOW', completed_at = NOW()
+    FROM system_settings s
+    WHERE s.branch_id = t.branch_id
+      AND s.no_show_timeout_minutes > 0
+      AND t.status = 'SERVING'
+      AND t.recall_count >= GREATEST(s.recalls_before_no_show, 1)
+      AND t.last_recalled_at < NOW() - make_interval(mins => s.no_show_timeout_minutes)
+    RETURNING t.id, t.counter_id
+  ), released AS (
+    UPDATE counters c SET current_ticket_id = NULL FROM expired WHERE c.current_ticket_id = expired.id RETURNING c.id
+  ), logged AS (
+    INSERT INTO ticket_events (ticket_id, event_type, counter_id, payload)
+    SELECT id, 'NO_SHOW', counter_id, '{"reason": "timeout"}'::jsonb FROM expired
+    RETURNING ticket_id
+  )
+  SELECT COUNT(*)::INTEGER FROM logged;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION expire_no_shows() FROM PUBLIC, anon, authenticated;
+
+-- Closes idle open counters once the branch's closing time has passed in its time zone and nobody is
+-- waiting. Uses the same inclusive window as the kiosk (KioskView), so counters opened early are left alone.
+CREATE OR REPLACE FUNCTION close_counters_after_hours()
+RETURNS INTEGER AS $$
+  WITH closed AS (
+    UPDATE counters c
+    SET is_open = FALSE
+    FROM system_settings s
+    WHERE s.branch_id = c.branch_id
+      AND c.is_open AND NOT c.retired AND c.current_ticket_id IS NULL
+      AND COALESCE((s.operating_hours ->> 'enabled')::boolean, FALSE)
+      AND COALESCE((s.operating_hours ->> 'autoClose')::boolean, FALSE)
+      AND s.time_zone IS NOT NULL
+      AND to_char(NOW() AT TIME ZONE s.time_zone, 'HH24:MI') > s.operating_hours ->> 'end'
+      AND NOT EXISTS (SELECT 1 FROM tickets t WHERE t.branch_id = c.branch_id AND t.status = 'WAITING')
+    RETURNING c.id
+  )
+  SELECT COUNT(*)::INTEGER FROM closed;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION close_counters_after_hours() FROM PUBLIC, anon, authenticated;
+
+-- Tickets still open from an earlier day (in the branch's time zone): waiting ones are cancelled,
+-- ones left at a counter are completed. Only for branches that turned it on and set their time zone.
+CREATE OR REPLACE FUNCTION close_out_previous_days()
+RETURNS INTEGER AS $$
+  WITH closed AS (
+    UPDATE tickets t
+    SET status = CASE WHEN t.status = 'SERVING' THEN 'COMPLETED' ELSE 'CANCELLED' END::ticket_status,
+        completed_at = NOW()
+    FROM system_settings s
+    WHERE s.branch_id = t.branch_id
+      AND s.end_of_day_close_out AND s.time_zone IS NOT NULL
+      AND t.status IN ('WAITING', 'SERVING')
+      AND t.joined_at < date_trunc('day', NOW() AT TIME ZONE s.time_zone) AT TIME ZONE s.time_zone
+    RETURNING t.id, t.status, t.counter_id
+  ), released AS (
+    UPDATE counters c SET current_ticket_id = NULL FROM closed WHERE c.current_ticket_id = closed.id RETURNING c.id
+  ), logged AS (
+    INSERT INTO ticket_events (ticket_id, event_type, counter_id, payload)
+    SELECT id, status::TEXT::ticket_event_type, counter_id, '{"reason": "end_of_day"}'::jsonb FROM closed
+    RETURNING ticket_id
+  )
+  SELECT COUNT(*)::INTEGER FROM logged;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION close_out_previous_days() FROM PUBLIC, anon, authenticated;
+
+-- Moves finished tickets older than the branch's archive_after_days into ticket_archive with their events
+CREATE OR REPLACE FUNCTION archive_finished_tickets()
+RETURNS INTEGER AS $$
+  WITH moved AS (
+    DELETE FROM tickets t
+    USING system_settings s
+    WHERE s.branch_id = t.branch_id
+      AND s.archive_after_days > 0
+      AND t.status IN ('COMPLETED', 'CANCELLED', 'NO_SHOW')
+      AND COALESCE(t.completed_at, t.joined_at) < NOW() - make_interval(days => s.archive_after_days)
+    RETURNING t.*
+  ), archived AS (
+    INSERT INTO ticket_archive
+    SELECT m.*,
+           COALESCE((SELECT jsonb_agg(to_jsonb(e) ORDER BY e.created_at) FROM ticket_events e WHERE e.ticket_id = m.id), '[]'::jsonb),
+           NOW()
+    FROM moved m
+    RETURNING id
+  )
+  SELECT COUNT(*)::INTEGER FROM archived;
+$$ LANGUAGE sql;
+REVOKE EXECUTE ON FUNCTION archive_finished_tickets() FROM PUBLIC, anon, authenticated;
+
+
+-- 12. TICKET TRACKING
+
+-- What a customer's tracking page shows: the ticket, its place in line, estimated wait and the counter
+-- calling it. Returns NULL unless the token matches, so a ticket id alone reveals nothing more.
+CREATE OR REPLACE FUNCTION get_ticket_status(p_ticket_id TEXT, p_token TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'ticket', to_jsonb(t),
+    'position', ticket_queue_position(t),
+    'eta_minutes', estimate_wait_minutes(t),
+    'counter_label', (SELECT COALESCE(c.label, 'Counter ' || c.id) FROM counters c WHERE c.id = t.counter_id)
+  )
+  FROM tickets t
+  JOIN ticket_tokens k ON k.ticket_id = t.id AND k.token = p_token
+  WHERE t.id = p_ticket_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+
+-- 13. CUSTOMERS
+-- Only customers who ticked "remember me" are stored (see issue_ticket); tickets of everyone else stay unlinked.
+
+-- Kiosk auto-fill: the saved name and channel for a phone number typed at a paired kiosk.
+-- Only kiosk devices may look customers up, so the list cannot be probed from a phone or the booking page.
+CREATE OR REPLACE FUNCTION lookup_customer(p_phone TEXT)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object('id', c.id, 'name', c.name, 'notify_channel', c.notify_channel)
+  FROM customers c
+  WHERE current_app_role() = 'KIOSK'
+    AND c.phone = normalize_phone(p_phone, current_app_branch_id());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The customer behind a ticket and their latest earlier visits to its branch (live and archived), for the
+-- counter serving them. Returns NULL for tickets not linked to a customer.
+CREATE OR REPLACE FUNCTION get_customer_history(p_ticket_id TEXT)
+RETURNS JSONB AS $$
+  WITH visits AS (
+    SELECT v.id, v.number, v.service_name, v.status, v.joined_at, v.served_at, v.completed_at
+    FROM tickets t
+    CROSS JOIN LATERAL (
+      SELECT id, number, service_name, status, joined_at, served_at, completed_at FROM tickets
+      WHERE customer_id = t.customer_id AND branch_id = t.branch_id AND id <> t.id
+      UNION ALL
+      SELECT id, number, service_name, status, joined_at, served_at, completed_at FROM ticket_archive
+      WHERE customer_id = t.customer_id AND branch_id = t.branch_id
+    ) v
+    WHERE t.id = p_ticket_id
+  )
+  SELECT jsonb_build_object(
+    'customer', jsonb_build_object('id', c.id, 'name', c.name, 'phone', c.phone, 'consented_at', c.consented_at, 'created_at', c.created_at),
+    'visit_count', (SELECT COUNT(*) FROM visits),
+    'visits', COALESCE((SELECT jsonb_agg(to_jsonb(r) ORDER BY r.joined_at DESC)
+                        FROM (SELECT * FROM visits ORDER BY joined_at DESC LIMIT 20) r), '[]'::jsonb)
+  )
+  FROM tickets t
+  JOIN customers c ON c.id = t.customer_id
+  WHERE t.id = p_ticket_id
+    AND is_queue_staff_for_branch(t.branch_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Per-customer figures for the admin panel, over live and archived tickets at the branch
+CREATE OR REPLACE FUNCTION get_customer_stats(p_branch_id TEXT)
+RETURNS JSONB AS $$
+  WITH visits AS (
+    SELECT customer_id, status, joined_at, served_at FROM tickets WHERE branch_id = p_branch_id AND customer_id IS NOT NULL
+    UNION ALL
+    SELECT customer_id, status, joined_at, served_at FROM ticket_archive WHERE branch_id = p_branch_id AND customer_id IS NOT NULL
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(s) ORDER BY s.last_visit_at DESC), '[]'::jsonb)
+  FROM (
+    SELECT c.id, c.name, c.phone, c.consented_at,
+           COUNT(*) AS visits,
+           COUNT(*) FILTER (WHERE v.status = 'COMPLETED') AS completed,
+           COUNT(*) FILTER (WHERE v.status = 'NO_SHOW') AS no_shows,
+           COUNT(*) FILTER (WHERE v.status = 'CANCELLED') AS cancelled,
+           ROUND(AVG(EXTRACT(EPOCH FROM v.served_at - v.joined_at) / 60) FILTER (WHERE v.served_at IS NOT NULL))::INTEGER AS avg_wait_minutes,
+           MAX(v.joined_at) AS last_visit_at
+    FROM visits v
+    JOIN customers c ON c.id = v.customer_id
+    WHERE has_branch_permission('view_reports', p_branch_id)
+    GROUP BY c.id
+  ) s;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Forgets a customer: drops their saved details and blanks the name and contact on their finished visits
+-- (live and archived), along with the messages sent to them. A visit still in progress is only unlinked,
+-- so the customer keeps their place and their notifications.
+CREATE OR REPLACE FUNCTION erase_customer(p_customer_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM notifications n
+  USING tickets t
+  WHERE n.ticket_id = t.id AND t.customer_id = p_customer_id AND t.status NOT IN ('WAITING', 'SERVING');
+
+  UPDATE appointments a SET name = 'Deleted', phone = NULL
+  FROM tickets t
+  WHERE a.ticket_id = t.id AND t.customer_id = p_customer_id AND t.status NOT IN ('WAITING', 'SERVING');
+
+  -- Event payloads are free-form, so they are emptied rather than picked through
+  UPDATE ticket_events e SET payload = '{}'::jsonb
+  FROM tickets t
+  WHERE e.ticket_id = t.id AND t.customer_id = p_customer_id AND t.status NOT IN ('WAITING', 'SERVING');
+
+  UPDATE tickets SET name = 'Deleted', phone = NULL, email = NULL, customer_id = NULL
+  WHERE customer_id = p_customer_id AND status NOT IN ('WAITING', 'SERVING');
+
+  UPDATE ticket_archive
+  SET name = 'Deleted', phone = NULL, email = NULL, customer_id = NULL,
+      events = (
+        SELECT COALESCE(jsonb_agg(e.event || '{"payload": {}}'::jsonb ORDER BY e.n), '[]'::jsonb)
+        FROM jsonb_array_elements(events) WITH ORDINALITY AS e(event, n)
+      )
+  WHERE customer_id = p_customer_id;
+
+  DELETE FROM customers WHERE id = p_customer_id;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+REVOKE EXECUTE ON FUNCTION erase_customer(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Delete Data in the admin panel
+CREATE OR REPLACE FUNCTION delete_customer(p_customer_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF current_app_role() IS DISTINCT FROM 'ADMIN' THEN
+    RAISE EXCEPTION 'Not allowed to delete customer data';
+  END IF;
+  RETURN erase_customer(p_customer_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- "Forget me" on the tracking page: the ticket's token proves the caller is the customer it was issued to.
+-- Only the ticket that first saved the record may erase it; a later visit linked to the record cannot wipe
+-- a history it did not create (admins can, with delete_customer).
+CREATE OR REPLACE FUNCTION forget_customer(p_ticket_id TEXT, p_token TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((
+    SELECT erase_customer(c.id)
+    FROM tickets t
+    JOIN ticket_tokens k ON k.ticket_id = t.id AND k.token = p_token
+    JOIN customers c ON c.id = t.customer_id AND c.created_by_ticket_id = t.id
+    WHERE t.id = p_ticket_id
+  ), FALSE);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,10 @@
+import { getSessionToken } from './supabaseClient';
+
+// Calls the app server (server/handler.ts), which holds the provider secrets.
+// The session token lets it check who is asking, same as the database does.
+export const postApi = (path: string, body: unknown): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const token = getSessionToken();
+  if (token) headers['x-session-token'] = token;
+  return fetch(path, { method: 'POST', headers, body: JSON.stringify(body) });
+};
@@ -0,0 +1,60 @@
+import { Appointment, AppointmentStatus, BookedSlot, ServiceDefinition, SystemSettings } from '../types';
+
+export interface AppointmentSlot {
+  start: number; // timestamp
+  remaining: number; // Bookings still available in this slot
+}
+
+export const isBookableService = (service: ServiceDefinition) => (service.appointmentSlotMinutes || 0) > 0;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Slots for one day, laid out back to back across operating hours. Slots already started are omitted.
+export const getAppointmentSlots = (
+  service: ServiceDefinition,
+  day: Date,
+  operatingHours: SystemSettings['operatingHours'],
+  bookedSlots: BookedSlot[],
+  now: number = Date.now()
+): AppointmentSlot[] => {
+  const length = service.appointmentSlotMinutes || 0;
+  if (length <= 0) return [];
+  const capacity = service.appointmentCapacity || 1;
+  const close = toMinutes(operatingHours.end);
+
+  const slots: AppointmentSlot[] = [];
+  for (let minute = toMinutes(operatingHours.start); minute + length <= close; minute += length) {
+    const slotDate = new Date(day);
+    slotDate.setHours(0, minute, 0, 0);
+    const start = slotDate.getTime();
+    if (start <= now) continue;
+
+    const booked = bookedSlots.find(b => b.serviceId === service.id && b.scheduledAt === start)?.booked || 0;
+    slots.push({ start, remaining: Math.max(capacity - booked, 0) });
+  }
+  return slots;
+};
+
+// Same figures as get_booked_slots in db_schema.sql, from local bookings
+export const countBookedSlots = (appointments: Appointment[]): BookedSlot[] => {
+  const counts = new Map<string, BookedSlot>();
+  appointments
+    .filter(a => a.status !== AppointmentStatus.CANCELLED)
+    .forEach(a => {
+      const key = `${a.serviceId}@${a.scheduledAt}`;
+      const slot = counts.get(key) || { serviceId: a.serviceId, scheduledAt: a.scheduledAt, booked: 0 };
+      counts.set(key, { ...slot, booked: slot.booked + 1 });
+    });
+  return [...counts.values()];
+};
+
+// Same alphabet as random_code and length as book_appointment in db_schema.sql: no 0/O or 1/I/L since codes are typed at the kiosk
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateBookingCode = () =>
+  Array.from({ length: 6 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+
+export const normalizeBookingCode = (code: string) => code.trim().toUpperCase();
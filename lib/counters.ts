@@ -0,0 +1,13 @@
+import { CounterState } from '../types';
+
+// Customer-facing name of a counter; unlabelled or unknown counters fall back to their numeric id
+export const getCounterLabel = (counters: CounterState[], counterId?: number | null): string => {
+  if (counterId === undefined || counterId === null) return '';
+  return counters.find(c => c.id === counterId)?.label || `Counter ${counterId}`;
+};
+
+// Counters still in service, in the order set by the admin
+export const getActiveCounters = (counters: CounterState[]): CounterState[] =>
+  counters
+    .filter(c => !c.isRetired)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
@@ -0,0 +1,56 @@
+import { Customer, CustomerHistory, CustomerStats, CustomerVisit, Ticket, TicketStatus } from '../types';
+
+// Same format as normalize_phone in db_schema.sql: '+' and digits, with the branch's country code
+// added to numbers typed without an international prefix
+export const normalizePhone = (phone: string, countryCode: string): string | null => {
+  const raw = phone.trim();
+  const digits = raw.replace(/\D/g, '');
+  if (!digits) return null;
+  if (raw.startsWith('+')) return `+${digits}`;
+  if (raw.startsWith('00')) return `+${digits.slice(2)}`;
+  const countryDigits = countryCode.replace(/\D/g, '');
+  return `${countryDigits ? `+${countryDigits}` : ''}${digits.replace(/^0+/, '')}`;
+};
+
+const toVisit = (ticket: Ticket): CustomerVisit => ({
+  ticketId: ticket.id,
+  number: ticket.number,
+  serviceName: ticket.serviceName,
+  status: ticket.status,
+  joinedAt: ticket.joinedAt,
+  servedAt: ticket.servedAt,
+  completedAt: ticket.completedAt
+});
+
+// Same figures as get_customer_history in db_schema.sql, from local state
+export const getCustomerHistory = (ticket: Ticket, tickets: Ticket[], customers: Customer[]): CustomerHistory | null => {
+  const customer = customers.find(c => c.id === ticket.customerId);
+  if (!customer) return null;
+  const visits = tickets
+    .filter(t => t.customerId === customer.id && t.branchId === ticket.branchId && t.id !== ticket.id)
+    .sort((a, b) => b.joinedAt - a.joinedAt)
+    .map(toVisit);
+  return { customer, visitCount: visits.length, visits: visits.slice(0, 20) };
+};
+
+// Same figures as get_customer_stats in db_schema.sql, from local state
+export const getCustomerStats = (tickets: Ticket[], customers: Customer[]): CustomerStats[] =>
+  customers
+    .map(customer => {
+      const visits = tickets.filter(t => t.customerId === customer.id);
+      const waits = visits.filter(t => t.servedAt).map(t => (t.servedAt! - t.joinedAt) / 60000);
+      return {
+        id: customer.id,
+        name: customer.name,
+        phone: customer.phone,
+        consentedAt: customer.consentedAt,
+        visits: visits.length,
+        completed: visits.filter(t => t.status === TicketStatus.COMPLETED).length,
+        noShows: visits.filter(t => t.status === TicketStatus.NO_SHOW).length,
+        cancelled: visits.filter(t => t.status === TicketStatus.CANCELLED).length,
+        avgWaitMinutes: waits.length ? Math.round(waits.reduce((sum, wait) => sum + wait, 0) / waits.length) : undefined,
+        lastVisitAt: Math.max(...visits.map(t => t.joinedAt))
+      };
+    })
+    .filter(stats => stats.visits > 0)
+    .sort((a, b) => b.lastVisitAt - a.lastVisitAt);
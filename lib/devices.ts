@@ -0,0 +1,25 @@
+import { DEVICE_PAIRING_TTL_MINUTES } from '../constants';
+import { UserRole } from '../types';
+
+export interface DevicePairingCode {
+  code: string;
+  expiresAt: number; // timestamp
+}
+
+export const PAIRABLE_ROLES = [UserRole.KIOSK, UserRole.DISPLAY];
+
+// Same alphabet as random_code and length as create_device_pairing in db_schema.sql: codes may be typed on a touch screen
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generatePairingCode = (now: number = Date.now()): DevicePairingCode => ({
+  code: Array.from({ length: 8 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join(''),
+  expiresAt: now + DEVICE_PAIRING_TTL_MINUTES * 60 * 1000
+});
+
+export const normalizePairingCode = (code: string) => code.trim().toUpperCase();
+
+// Opening this link on the screen pairs it straight away
+export const getPairingUrl = (code: string) => {
+  const baseUrl = typeof window !== 'undefined' ? window.location.href.split('?')[0] : 'http://localhost';
+  return `${baseUrl}?pair=${code}`;
+};
@@ -0,0 +1,80 @@
+import { CounterState, NotificationChannel, NotificationEvent, NotificationTemplate, ServiceDefinition, SystemSettings, Ticket } from '../types';
+import { DEFAULT_NOTIFICATION_TEMPLATES } from '../constants';
+import { getCounterLabel } from './counters';
+import { estimateWaitMinutes, getQueuePosition } from './waitEstimate';
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  [NotificationChannel.WHATSAPP]: 'WhatsApp',
+  [NotificationChannel.SMS]: 'SMS',
+  [NotificationChannel.EMAIL]: 'Email'
+};
+
+export const EVENT_LABELS: Record<NotificationEvent, { label: string; description: string }> = {
+  [NotificationEvent.ISSUED]: { label: 'Ticket Issued', description: 'Confirms the ticket right after it is taken' },
+  [NotificationEvent.APPROACHING]: { label: 'Turn Approaching', description: 'Sent once when they reach the place in line or wait set below' },
+  [NotificationEvent.CALLED]: { label: 'Called', description: 'When a counter calls them; staff can also send it with Notify' },
+  [NotificationEvent.RECALLED]: { label: 'Recalled', description: 'Each time staff call them again' },
+  [NotificationEvent.TRANSFERRED]: { label: 'Transferred', description: 'When their ticket is moved to another service or counter' },
+  [NotificationEvent.CANCELLED]: { label: 'Cancelled', description: 'When the ticket is cancelled' },
+  [NotificationEvent.FEEDBACK]: { label: 'Feedback Request', description: 'After their visit is completed' }
+};
+
+// Stored templates over the defaults, so events and channels added later still have a message
+export const withDefaultTemplates = (saved?: Partial<Record<NotificationEvent, Partial<NotificationTemplate>>>): Record<NotificationEvent, NotificationTemplate> =>
+  Object.fromEntries(Object.values(NotificationEvent).map(event => {
+    const defaults = DEFAULT_NOTIFICATION_TEMPLATES[event];
+    return [event, { ...defaults, ...saved?.[event], bodies: { ...defaults.bodies, ...saved?.[event]?.bodies } }];
+  })) as Record<NotificationEvent, NotificationTemplate>;
+
+export const getEnabledChannels = (settings: SystemSettings) =>
+  Object.values(NotificationChannel).filter(channel => settings.notificationChannels[channel]?.enabled);
+
+// Same rules as notification_recipient in db_schema.sql
+export const getChannelRecipient = (ticket: Ticket, channel: NotificationChannel): string | undefined => {
+  if (channel === NotificationChannel.EMAIL) return ticket.email?.trim() || undefined;
+  return ticket.phone?.replace(/[^0-9]/g, '') || undefined;
+};
+
+// The customer's chosen channel first, then the branch's fallback order: enabled channels the ticket has
+// contact details for and the event has a message for. Mirrors notification_channels_for in db_schema.sql.
+export const getNotificationChannels = (ticket: Ticket, settings: SystemSettings, event: NotificationEvent): NotificationChannel[] => {
+  const order = ticket.notifyChannel ? [ticket.notifyChannel, ...settings.channelFallbackOrder] : settings.channelFallbackOrder;
+  return Array.from(new Set(order)).filter(channel =>
+    settings.notificationChannels[channel]?.enabled
+      && !!settings.notificationTemplates[event]?.bodies[channel]?.trim()
+      && !!getChannelRecipient(ticket, channel)
+  );
+};
+
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder);
+
+// Placeholder values for one ticket. Mirrors render_notification in db_schema.sql.
+export const getTemplateValues = (ticket: Ticket, tickets: Ticket[], services: ServiceDefinition[], counters: CounterState[]): Record<string, string> => ({
+  name: ticket.name,
+  number: ticket.number,
+  service: ticket.serviceName,
+  counter: getCounterLabel(counters, ticket.counter ?? ticket.targetCounter) || 'the counter',
+  position: String(getQueuePosition(ticket, tickets)),
+  eta: String(estimateWaitMinutes(tickets, services, counters, ticket))
+});
+
+export const renderNotification = (settings: SystemSettings, event: NotificationEvent, channel: NotificationChannel, values: Record<string, string>) => {
+  const template = settings.notificationTemplates[event];
+  return {
+    message: fillTemplate(template.bodies[channel], values),
+    subject: channel === NotificationChannel.EMAIL ? fillTemplate(template.subject, values) : undefined
+  };
+};
+
+// Opens the customer's own app with the message prefilled, for when the server cannot send
+export const getDeepLink = (channel: NotificationChannel, recipient: string, message: string, subject?: string) => {
+  switch (channel) {
+    case NotificationChannel.EMAIL:
+      return `mailto:${recipient}?subject=${encodeURIComponent(subject || '')}&body=${encodeURIComponent(message)}`;
+    case NotificationChannel.SMS:
+      return `sms:+${recipient}?body=${encodeURIComponent(message)}`;
+    default:
+      return `https://wa.me/${recipient}?text=${encodeURIComponent(message)}`;
+  }
+};
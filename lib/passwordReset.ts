@@ -0,0 +1,16 @@
+import { PASSWORD_RESET_TTL_MINUTES } from '../constants';
+
+export interface PasswordResetCode {
+  code: string;
+  expiresAt: number; // timestamp
+}
+
+// Same alphabet as random_code and length as issue_password_reset in db_schema.sql: codes are read out and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateResetCode = (now: number = Date.now()): PasswordResetCode => ({
+  code: Array.from({ length: 8 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join(''),
+  expiresAt: now + PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+});
+
+export const normalizeResetCode = (code: string) => code.trim().toUpperCase();
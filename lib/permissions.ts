@@ -0,0 +1,22 @@
+import { ROLE_PERMISSIONS } from '../constants';
+import { Permission, User, UserRole } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [Permission.MANAGE_SERVICES]: 'Manage services',
+  [Permission.MANAGE_COUNTERS]: 'Manage and open/close counters',
+  [Permission.MANAGE_USERS]: 'Manage user accounts',
+  [Permission.VIEW_REPORTS]: 'View dashboard and history',
+  [Permission.RESET_QUEUE]: 'Reset queue and statistics',
+  [Permission.TRANSFER_TICKETS]: 'Transfer tickets'
+};
+
+// Mirrors has_permission in db_schema.sql: admins hold everything, others use their override or the role preset
+export const getUserPermissions = (user: User): Permission[] =>
+  user.role === UserRole.ADMIN ? ROLE_PERMISSIONS[UserRole.ADMIN] : user.permissions ?? ROLE_PERMISSIONS[user.role];
+
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+  !!user && getUserPermissions(user).includes(permission);
+
+// Mirrors is_queue_staff_for_branch in db_schema.sql: these roles read full ticket rows, everyone else queue_board
+export const isQueueStaff = (user: User | null | undefined): boolean =>
+  !!user && [UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.STAFF].includes(user.role);
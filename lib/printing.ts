@@ -0,0 +1,81 @@
+import { Ticket } from '../types';
+import { getQueuePosition } from './waitEstimate';
+import { getTrackingUrl } from './tracking';
+
+// Everything a printed ticket shows, whichever way it is printed
+export interface PrintableTicket {
+  number: string;
+  serviceName: string;
+  issuedAt: number; // timestamp
+  position: number; // Place in the service's queue when printed
+  trackingUrl?: string; // Encoded as a QR code
+}
+
+export const getPrintableTicket = (ticket: Ticket, tickets: Ticket[]): PrintableTicket => ({
+  number: ticket.number,
+  serviceName: ticket.serviceName,
+  issuedAt: ticket.joinedAt,
+  position: getQueuePosition(ticket, tickets),
+  trackingUrl: ticket.trackingToken ? getTrackingUrl(ticket.id, ticket.trackingToken) : undefined
+});
+
+export const formatIssuedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// --- ESC/POS ---
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Characters per line in the standard 12x24 font
+const LINE_WIDTH: Record<58 | 80, number> = { 58: 32, 80: 48 };
+
+// Printers start in code page 437; anything beyond ASCII is flattened rather than printed as garbage
+const toAscii = (text: string) =>
+  Array.from(text.normalize('NFD').replace(/[\u0300-\u036f]/g, ''), char => char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : 0x3f);
+
+// GS ( k: the printer draws the QR code itself from the stored text
+const qrCode = (data: string, moduleSize: number): number[] => {
+  const bytes = toAscii(data);
+  const storeLength = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // Model 2
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31, // Error correction M
+    GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30 // Print
+  ];
+};
+
+export const buildEscPosTicket = (ticket: PrintableTicket, paperWidth: 58 | 80): Uint8Array => {
+  const line = (text = '') => [...toAscii(text), LF];
+  const divider = line('-'.repeat(LINE_WIDTH[paperWidth]));
+  const numberSize = paperWidth === 80 ? 0x33 : 0x22; // GS ! n: (width - 1) << 4 | (height - 1)
+
+  return new Uint8Array([
+    ESC, 0x40, // Initialize
+    ESC, 0x61, 0x01, // Center
+    ESC, 0x45, 0x01, ...line('YOUR TICKET'), ESC, 0x45, 0x00,
+    ...line(ticket.serviceName),
+    ...divider,
+    GS, 0x21, numberSize, ...line(ticket.number), GS, 0x21, 0x00,
+    ...divider,
+    ...line(`You are number ${ticket.position} in line`),
+    ...line(formatIssuedAt(ticket.issuedAt)),
+    ...(ticket.trackingUrl ? [LF, ...qrCode(ticket.trackingUrl, paperWidth === 80 ? 6 : 4), ...line('Scan to follow your turn live')] : []),
+    ESC, 0x64, 0x04, // Feed 4 lines
+    GS, 0x56, 0x42, 0x00 // Partial cut
+  ]);
+};
+
+// Hands raw ESC/POS bytes to the local print bridge (scripts/print-bridge.mjs). Throws when it cannot print.
+export const sendToPrintBridge = async (bridgeUrl: string, data: Uint8Array) => {
+  const response = await fetch(`${bridgeUrl.replace(/\/+$/, '')}/print`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data,
+    signal: AbortSignal.timeout(10000)
+  });
+  if (!response.ok) throw new Error(`Print bridge responded ${response.status}: ${await response.text()}`);
+};
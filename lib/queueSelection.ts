@@ -0,0 +1,102 @@
+import { Ticket, TicketStatus, CounterState, ServiceDefinition, SystemSettings } from '../types';
+import { APPOINTMENT_PRIORITY_WINDOW_MINUTES } from '../constants';
+
+const byJoinTime = (a: Ticket, b: Ticket) => a.joinedAt - b.joinedAt;
+
+// A checked-in appointment takes precedence over walk-ins once its slot is near
+export const isAppointmentDue = (ticket: Ticket, now: number = Date.now()) =>
+  !!ticket.appointmentAt && ticket.appointmentAt - APPOINTMENT_PRIORITY_WINDOW_MINUTES * 60000 <= now;
+
+// Queue order: tickets placed at the front (transfers) first, then due appointments by slot time,
+// then everyone else by join time
+export const compareQueueOrder = (a: Ticket, b: Ticket) => {
+  const now = Date.now();
+  const aDue = isAppointmentDue(a, now);
+  const bDue = isAppointmentDue(b, now);
+  return Number(!!b.frontOfQueue) - Number(!!a.frontOfQueue)
+    || Number(bDue) - Number(aDue)
+    || (aDue && bDue ? a.appointmentAt! - b.appointmentAt! : 0)
+    || byJoinTime(a, b);
+};
+
+// A counter without configured services acts as a general counter and serves every queue
+const isGeneralCounter = (counter: CounterState) => counter.serviceIds.length === 0;
+
+export const isPrimaryService = (counter: CounterState, serviceId: string) =>
+  isGeneralCounter(counter) || counter.serviceIds.includes(serviceId);
+
+export const canCounterServe = (counter: CounterState, serviceId: string) =>
+  isPrimaryService(counter, serviceId) || counter.fallbackServiceIds.includes(serviceId);
+
+// Tickets transferred to a specific counter bypass service routing and only wait for that counter
+const canCounterCall = (counter: CounterState, ticket: Ticket) =>
+  ticket.targetCounter ? ticket.targetCounter === counter.id : canCounterServe(counter, ticket.serviceId);
+
+const isPrimaryTicket = (counter: CounterState, ticket: Ticket) =>
+  ticket.targetCounter === counter.id || isPrimaryService(counter, ticket.serviceId);
+
+// All waiting tickets a counter is qualified to call (primary and fallback), in queue order
+export const getServableTickets = (tickets: Ticket[], counter: CounterState): Ticket[] =>
+  tickets
+    .filter(t => t.status === TicketStatus.WAITING && canCounterCall(counter, t))
+    .sort(compareQueueOrder);
+
+// Candidates for the next call: primary-service tickets, or fallback tickets if none are waiting
+export const getCallCandidates = (tickets: Ticket[], counter: CounterState): Ticket[] => {
+  const servable = getServableTickets(tickets, counter);
+  const primary = servable.filter(t => isPrimaryTicket(counter, t));
+  return primary.length > 0 ? primary : servable;
+};
+
+// Weighted-fair pick: each service gets a share of calls proportional to its priority,
+// measured against tickets already served today. Candidates must be in queue order.
+const pickWeighted = (
+  candidates: Ticket[],
+  tickets: Ticket[],
+  services: ServiceDefinition[],
+  agingThresholdMinutes: number,
+  now: number
+): Ticket => {
+  // Aging rule: anyone past the threshold is called first so low-priority queues never starve
+  if (agingThresholdMinutes > 0) {
+    const aged = candidates.find(t => now - t.joinedAt >= agingThresholdMinutes * 60000);
+    if (aged) return aged;
+  }
+
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const servedToday: Record<string, number> = {};
+  tickets.forEach(t => {
+    if (t.servedAt && t.servedAt >= startOfDay.getTime()) {
+      servedToday[t.serviceId] = (servedToday[t.serviceId] || 0) + 1;
+    }
+  });
+
+  // Oldest waiting ticket per service
+  const heads = new Map<string, Ticket>();
+  candidates.forEach(t => {
+    if (!heads.has(t.serviceId)) heads.set(t.serviceId, t);
+  });
+
+  const score = (t: Ticket) => {
+    const priority = services.find(s => s.id === t.serviceId)?.priority || 1;
+    return ((servedToday[t.serviceId] || 0) + 1) / priority;
+  };
+
+  // Lowest score wins; ties go to the ticket that has waited longest
+  return [...heads.values()].sort((a, b) => score(a) - score(b) || byJoinTime(a, b))[0];
+};
+
+export const getNextTicketForCounter = (
+  tickets: Ticket[],
+  counter: CounterState,
+  services: ServiceDefinition[],
+  settings: Pick<SystemSettings, 'queueMode' | 'agingThresholdMinutes'>,
+  now: number = Date.now()
+): Ticket | undefined => {
+  const candidates = getCallCandidates(tickets, counter);
+  if (candidates.length === 0) return undefined;
+  // Front-of-queue tickets and due appointments skip the weighting in every mode
+  if (settings.queueMode !== 'weighted' || candidates[0].frontOfQueue || isAppointmentDue(candidates[0], now)) return candidates[0];
+  return pickWeighted(candidates, tickets, services, settings.agingThresholdMinutes, now);
+};
@@ -1,7 +1,25 @@
 
 import { createClient } from '@supabase/supabase-js';
 
-const SUPABASE_URL = 'https://zuorfwhdgylgrrlfnelt.supabase.co';
-const SUPABASE_ANON_KEY = 'sb_publishable_VAVwrnaBhnShjU8-aXqepQ_c8LXdica';
+// Public project URL and publishable key; also the server's defaults (see server/config.ts)
+export const SUPABASE_URL = 'https://zuorfwhdgylgrrlfnelt.supabase.co';
+export const SUPABASE_ANON_KEY = 'sb_publishable_VAVwrnaBhnShjU8-aXqepQ_c8LXdica';
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+// Session token from verify_login; RLS policies read it from the x-session-token header
+let sessionToken: string | null = null;
+
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+export const getSessionToken = () => sessionToken;
+
+export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  global: {
+    fetch: (input, init) => {
+      const headers = new Headers(init?.headers);
+      if (sessionToken) headers.set('x-session-token', sessionToken);
+      return fetch(input, { ...init, headers });
+    }
+  }
+});
@@ -0,0 +1,21 @@
+import { CounterState, ServiceDefinition, Ticket, TicketTracking } from '../types';
+import { getCounterLabel } from './counters';
+import { estimateWaitMinutes, getQueuePosition } from './waitEstimate';
+
+// Demo mode only: the database issues real tokens (ticket_tokens in db_schema.sql)
+export const generateTrackingToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// The customer's live tracking page; the token is what lets it read and cancel the ticket
+export const getTrackingUrl = (ticketId: string, token: string) => {
+  const baseUrl = typeof window !== 'undefined' ? window.location.href.split('?')[0] : 'http://localhost';
+  return `${baseUrl}?ticket=${encodeURIComponent(ticketId)}&token=${encodeURIComponent(token)}`;
+};
+
+// Same figures as get_ticket_status in db_schema.sql, from local state
+export const getTicketTracking = (ticket: Ticket, tickets: Ticket[], services: ServiceDefinition[], counters: CounterState[]): TicketTracking => ({
+  ticket,
+  position: getQueuePosition(ticket, tickets),
+  etaMinutes: estimateWaitMinutes(tickets, services, counters, ticket),
+  counterLabel: getCounterLabel(counters, ticket.counter) || undefined
+});
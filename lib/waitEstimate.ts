@@ -0,0 +1,43 @@
+import { CounterState, ServiceDefinition, Ticket, TicketStatus } from '../types';
+import { compareQueueOrder } from './queueSelection';
+
+const DEFAULT_SESSION_MS = 5 * 60000;
+const MIN_REMAINING_MS = 30000; // An overdue session is assumed to be about to finish
+
+// 1-based place among the waiting tickets of the same service, in calling order
+export const getQueuePosition = (ticket: Ticket, tickets: Ticket[]): number =>
+  tickets.filter(t =>
+    t.id !== ticket.id && t.status === TicketStatus.WAITING && t.serviceId === ticket.serviceId && compareQueueOrder(t, ticket) < 0
+  ).length + 1;
+
+// Minutes until a counter is free: what is left of the sessions in progress plus the standard session
+// time of every waiting ticket (only those called before `ticket` when given), shared across open counters.
+// Mirrors estimate_wait_minutes in db_schema.sql.
+export const estimateWaitMinutes = (
+  tickets: Ticket[],
+  services: ServiceDefinition[],
+  counters: CounterState[],
+  ticket?: Ticket,
+  now: number = Date.now()
+): number => {
+  const standardTimes: Record<string, number> = {};
+  services.forEach(service => {
+    standardTimes[service.id] = (service.defaultWaitTime || 5) * 60000;
+  });
+  const getDuration = (t: Ticket) => standardTimes[t.serviceId] || DEFAULT_SESSION_MS;
+
+  const servingBacklog = tickets
+    .filter(t => t.status === TicketStatus.SERVING)
+    .reduce((acc, t) => {
+      // Served time missing or in the future: assume the full standard duration
+      if (!t.servedAt || t.servedAt > now) return acc + getDuration(t);
+      return acc + Math.max(MIN_REMAINING_MS, getDuration(t) - (now - t.servedAt));
+    }, 0);
+
+  const waitingBacklog = tickets
+    .filter(t => t.status === TicketStatus.WAITING && (!ticket || (t.id !== ticket.id && compareQueueOrder(t, ticket) < 0)))
+    .reduce((acc, t) => acc + getDuration(t), 0);
+
+  const openCounters = counters.filter(c => c.isOpen && !c.isRetired).length || 1;
+  return Math.ceil((servingBacklog + waitingBacklog) / openCounters / 60000);
+};
@@ -0,0 +1,106 @@
+// Local print bridge for kiosk ticket printers. Run it on the kiosk computer (`npm run print-bridge`):
+// the kiosk page POSTs raw ESC/POS bytes to /print and they are passed straight to the printer.
+//
+//   PRINTER_HOST / PRINTER_PORT   Network printer (raw TCP, port 9100 by default)
+//   PRINTER_DEVICE                Or a device/share path, e.g. /dev/usb/lp0 or \\localhost\Receipt
+//   PRINT_BRIDGE_PORT             Where the bridge listens on this computer (default 9123)
+//   PRINT_BRIDGE_ORIGIN           Site allowed to print, e.g. https://queue.example.com (required)
+import { createServer } from 'node:http';
+import { connect } from 'node:net';
+import { writeFile } from 'node:fs/promises';
+
+const port = Number(process.env.PRINT_BRIDGE_PORT || 9123);
+const printerHost = process.env.PRINTER_HOST;
+const printerPort = Number(process.env.PRINTER_PORT || 9100);
+const printerDevice = process.env.PRINTER_DEVICE;
+const allowedOrigin = (process.env.PRINT_BRIDGE_ORIGIN || '').replace(/\/+$/, '');
+const MAX_JOB_BYTES = 1024 * 1024;
+
+if (!printerHost && !printerDevice) {
+  console.error('Set PRINTER_HOST (network printer) or PRINTER_DEVICE (USB or shared printer)');
+  process.exit(1);
+}
+if (!allowedOrigin) {
+  console.error('Set PRINT_BRIDGE_ORIGIN to the address the app is served from, e.g. https://queue.example.com');
+  process.exit(1);
+}
+
+const sendToPrinter = (data) => {
+  if (printerDevice) return writeFile(printerDevice, data);
+
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host: printerHost, port: printerPort, timeout: 5000 }, () => {
+      socket.end(data, () => {
+        socket.setTimeout(0); // Sent; the printer closes the connection in its own time
+        resolve();
+      });
+    });
+    socket.on('timeout', () => socket.destroy(new Error('Printer timed out')));
+    socket.on('error', reject);
+  });
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_JOB_BYTES) {
+      reject(new Error('Print job too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const server = createServer(async (req, res) => {
+  // Browsers name the page's site on cross-site requests. Any other site is turned away here, since CORS
+  // alone would still let a plain POST through to the printer.
+  const origin = req.headers.origin;
+  if (origin && origin !== allowedOrigin) {
+    res.writeHead(403).end('Origin not allowed');
+    return;
+  }
+  if (origin) {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    // Lets the app reach this localhost address from the internet (Chrome's Private Network Access)
+    res.setHeader('Access-Control-Allow-Private-Network', 'true');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'GET' && req.url === '/status') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true, printer: printerDevice || `${printerHost}:${printerPort}` }));
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/print') {
+    res.writeHead(404).end('Not found');
+    return;
+  }
+
+  try {
+    const data = await readBody(req);
+    if (data.length === 0) {
+      res.writeHead(400).end('Empty print job');
+      return;
+    }
+    await sendToPrinter(data);
+    res.writeHead(204).end();
+  } catch (error) {
+    console.error('Print failed:', error);
+    res.writeHead(502).end(error instanceof Error ? error.message : 'Print failed');
+  }
+});
+
+// Loopback only: nothing else on the network can print through the bridge
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Print bridge listening on http://localhost:${port} -> ${printerDevice || `${printerHost}:${printerPort}`}`);
+});
@@ -0,0 +1,34 @@
+import { createClient } from '@supabase/supabase-js';
+import { UserRole } from '../types';
+import { ServerConfig } from './config';
+
+export interface SessionUser {
+  id: string;
+  role: UserRole;
+  branchId?: string;
+  token: string; // For follow-up calls made on the caller's behalf
+}
+
+// Anon client carrying the caller's session, so RLS and role checks apply to them
+export const getSessionClient = (config: ServerConfig, token: string) =>
+  createClient(config.supabaseUrl, config.supabaseAnonKey, {
+    auth: { persistSession: false },
+    global: { headers: { 'x-session-token': token } }
+  });
+
+// Resolves the caller from the same session token the browser sends to Supabase
+export const getSessionUser = async (config: ServerConfig, token: string | null): Promise<SessionUser | null> => {
+  if (!token) return null;
+
+  const { data, error } = await getSessionClient(config, token).rpc('current_session_user').maybeSingle();
+  if (error) console.error("Error resolving session:", error);
+  if (!data) return null;
+
+  const user = data as any;
+  return { id: user.id, role: user.role as UserRole, branchId: user.branch_id ?? undefined, token };
+};
+
+export const getServiceClient = (config: ServerConfig) =>
+  config.supabaseServiceRoleKey
+    ? createClient(config.supabaseUrl, config.supabaseServiceRoleKey, { auth: { persistSession: false } })
+    : null;
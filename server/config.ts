@@ -0,0 +1,49 @@
+import { SUPABASE_ANON_KEY, SUPABASE_URL } from '../lib/supabaseClient';
+import type { EmailProviderName, SmsProviderName, WhatsAppProviderName } from './providers';
+
+// Secrets live here only: the browser bundle never receives any of these values
+export interface ServerConfig {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  supabaseServiceRoleKey?: string; // Reads branch_secrets, which has no RLS policies
+  geminiApiKey?: string;
+  whatsappProvider: WhatsAppProviderName;
+  smsProvider: SmsProviderName;
+  emailProvider: EmailProviderName;
+  whatsappApiKey?: string; // Used when a branch has not stored its own key
+  whatsappPhoneNumberId?: string;
+  twilioAccountSid?: string;
+  twilioAuthToken?: string;
+  twilioWhatsAppFrom?: string; // Twilio-enabled WhatsApp sender number
+  twilioSmsFrom?: string;
+  resendApiKey?: string;
+  emailFrom?: string; // e.g. "Nova Queue <queue@example.com>"
+  mockNotificationFile: string; // Where mock providers append messages
+}
+
+const parseProvider = <T extends string>(variable: string, value: string | undefined, allowed: T[], fallback: T): T => {
+  const provider = (value || fallback).toLowerCase() as T;
+  if (!allowed.includes(provider)) {
+    throw new Error(`Unknown ${variable} "${value}" (expected ${allowed.join(', ')})`);
+  }
+  return provider;
+};
+
+export const loadServerConfig = (env: Record<string, string | undefined>): ServerConfig => ({
+  supabaseUrl: env.SUPABASE_URL || SUPABASE_URL,
+  supabaseAnonKey: env.SUPABASE_ANON_KEY || SUPABASE_ANON_KEY,
+  supabaseServiceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY || undefined,
+  geminiApiKey: env.GEMINI_API_KEY || undefined,
+  whatsappProvider: parseProvider<WhatsAppProviderName>('WHATSAPP_PROVIDER', env.WHATSAPP_PROVIDER, ['cloud', 'twilio', 'mock'], 'cloud'),
+  smsProvider: parseProvider<SmsProviderName>('SMS_PROVIDER', env.SMS_PROVIDER, ['twilio', 'mock'], 'twilio'),
+  emailProvider: parseProvider<EmailProviderName>('EMAIL_PROVIDER', env.EMAIL_PROVIDER, ['resend', 'mock'], 'resend'),
+  whatsappApiKey: env.WHATSAPP_API_KEY || undefined,
+  whatsappPhoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID || undefined,
+  twilioAccountSid: env.TWILIO_ACCOUNT_SID || undefined,
+  twilioAuthToken: env.TWILIO_AUTH_TOKEN || undefined,
+  twilioWhatsAppFrom: env.TWILIO_WHATSAPP_FROM || undefined,
+  twilioSmsFrom: env.TWILIO_SMS_FROM || undefined,
+  resendApiKey: env.RESEND_API_KEY || undefined,
+  emailFrom: env.EMAIL_FROM || undefined,
+  mockNotificationFile: env.NOTIFICATION_MOCK_FILE || 'notifications-mock.log'
+});
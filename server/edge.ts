@@ -0,0 +1,17 @@
+import { loadServerConfig } from './config';
+import { createApiHandler } from './handler';
+import { runDueJobs } from './scheduler';
+
+// Entry point for fetch-style hosts (edge/serverless functions): route /api/* here
+const config = loadServerConfig(process.env);
+const handler = createApiHandler(config);
+
+export default async function (request: Request): Promise<Response> {
+  return (await handler(request)) ?? new Response('Not found', { status: 404 });
+}
+
+// Edge hosts have no long-running process: invoke this from a cron trigger (every minute or so)
+// to run the scheduled jobs that are due. Node hosts run startScheduler instead.
+export const scheduled = async (): Promise<void> => {
+  await runDueJobs(config);
+};
@@ -0,0 +1,77 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIInsight, QueueSnapshot } from '../types';
+
+const MODEL = 'gemini-3-flash-preview';
+
+export const generateQueueInsight = async (
+  apiKey: string,
+  snapshot: QueueSnapshot
+): Promise<Omit<AIInsight, 'timestamp'> | null> => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const prompt = `
+    Context: You are an AI assistant for a Queue Management System.
+    Data:
+    - Currently Waiting: ${snapshot.waitingCount} people.
+    - Currently Serving: ${snapshot.servingCount} people.
+    - Active Counters: ${snapshot.activeCounters}.
+    - Completed in last hour: ${snapshot.completedLastHour}.
+    - Average Wait Time (approx): ${snapshot.avgWaitMinutes} minutes.
+
+    Task: Provide a concise, 1-sentence operational insight or recommendation for the staff.
+    Examples: "Queue is moving effectively; wait times are low." or "High influx of Payment tickets; consider opening Counter 4." or "Wait times are escalating; please speed up transactions."
+    
+    Also determine severity: 'info', 'warning', or 'alert'.
+    
+    Response Format (JSON):
+    {
+      "message": "The insight message here.",
+      "severity": "info"
+    }
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: prompt,
+      config: { responseMimeType: 'application/json' }
+    });
+    
+    const text = response.text;
+    if (!text) return null;
+    return JSON.parse(text);
+  } catch (error: any) {
+    // Gracefully handle quota exhaustion or rate limits
+    if (error?.status === 429 || error?.code === 429 || error?.message?.includes('429') || error?.message?.includes('quota')) {
+      console.warn("Gemini API quota exceeded. Returning fallback insight.");
+      return {
+        message: "AI insights paused due to high traffic. Monitoring queue status...",
+        severity: "info"
+      };
+    }
+    console.error("Gemini Insight Error:", error);
+    return null;
+  }
+};
+
+export const generateWelcomeMessage = async (apiKey: string, serviceName: string, number: string): Promise<string | null> => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const prompt = `
+    Generate a short, friendly, and reassuring 1-sentence welcome message for a digital ticket screen.
+    The customer is here for: ${serviceName}.
+    Ticket Number: ${number}.
+    Don't use quotes.
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: prompt,
+    });
+    return response.text || null;
+  } catch (error) {
+    console.error("Gemini Welcome Error:", error);
+    return null;
+  }
+};
@@ -0,0 +1,90 @@
+import { QueueSnapshot, UserRole } from '../types';
+import { ServerConfig } from './config';
+import { SessionUser, getSessionUser } from './auth';
+import { generateQueueInsight, generateWelcomeMessage } from './gemini';
+import { getManualMessages, recordDelivery, sendNotification } from './notify';
+
+// Returns null for paths it does not own so the host can fall through (e.g. to Vite)
+export type ApiHandler = (request: Request) => Promise<Response | null>;
+
+interface Route {
+  roles: UserRole[];
+  handle: (config: ServerConfig, body: any, user: SessionUser) => Promise<Response>;
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const QUEUE_ROLES = [UserRole.ADMIN, UserRole.SUPERVISOR, UserRole.STAFF];
+
+const routes: Record<string, Route> = {
+  '/api/send-notification': {
+    roles: QUEUE_ROLES,
+    // Sends the ticket's "Called" template to the customer, trying their channels in fallback order.
+    // Recipient, channel and text all come from the ticket and branch settings, never from the request.
+    handle: async (config, body, user) => {
+      const { ticketId } = body;
+      if (typeof ticketId !== 'string' || !ticketId) {
+        return json(400, { error: 'ticketId is required' });
+      }
+      const messages = await getManualMessages(config, user, ticketId);
+      if (!messages) return json(404, { error: 'Ticket not found in your branch' });
+      if (messages.length === 0) return json(422, { error: 'The ticket has no contact details for an enabled channel' });
+
+      let lastError: string | undefined;
+      for (const { branchId, channel, ...outgoing } of messages) {
+        const result = await sendNotification(config, channel, branchId, outgoing);
+        await recordDelivery(config, user, ticketId, channel, outgoing, result);
+        if (result.ok) return json(200, { ok: true, channel, messageId: result.messageId });
+        lastError = result.error || `${channel} delivery failed`;
+      }
+      return json(502, { error: lastError });
+    }
+  },
+  '/api/insight': {
+    roles: QUEUE_ROLES,
+    handle: async (config, body: QueueSnapshot) => {
+      if (!config.geminiApiKey) return json(503, { error: 'AI insights are not configured' });
+      const insight = await generateQueueInsight(config.geminiApiKey, {
+        waitingCount: Number(body.waitingCount) || 0,
+        servingCount: Number(body.servingCount) || 0,
+        activeCounters: Number(body.activeCounters) || 0,
+        completedLastHour: Number(body.completedLastHour) || 0,
+        avgWaitMinutes: Number(body.avgWaitMinutes) || 0
+      });
+      return insight ? json(200, insight) : json(502, { error: 'No insight available' });
+    }
+  },
+  '/api/welcome-message': {
+    roles: [UserRole.KIOSK, ...QUEUE_ROLES],
+    handle: async (config, body) => {
+      if (!config.geminiApiKey) return json(503, { error: 'AI messages are not configured' });
+      const message = await generateWelcomeMessage(config.geminiApiKey, String(body.serviceName || ''), String(body.number || ''));
+      return message ? json(200, { message }) : json(502, { error: 'No message available' });
+    }
+  }
+};
+
+export const createApiHandler = (config: ServerConfig): ApiHandler => async (request) => {
+  const route = routes[new URL(request.url).pathname];
+  if (!route) return null;
+  if (request.method !== 'POST') return json(405, { error: 'Method not allowed' });
+
+  const user = await getSessionUser(config, request.headers.get('x-session-token'));
+  if (!user) return json(401, { error: 'Sign in required' });
+  if (!route.roles.includes(user.role)) return json(403, { error: 'Not allowed for this role' });
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return json(400, { error: 'Invalid JSON body' });
+  }
+
+  try {
+    return await route.handle(config, body ?? {}, user);
+  } catch (error) {
+    console.error(`Error handling ${request.url}:`, error);
+    return json(500, { error: 'Internal error' });
+  }
+};
@@ -0,0 +1,28 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ApiHandler } from './handler';
+
+// Connect-style middleware: lets the Vite dev/preview server (or any Node HTTP server) host the API locally
+export const createNodeMiddleware = (handler: ApiHandler) =>
+  async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith('/api/')) return next();
+
+    const headers = new Headers();
+    for (const [key, value] of Object.entries(req.headers)) {
+      if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && chunks.length > 0;
+
+    const response = await handler(new Request(new URL(req.url, `http://${req.headers.host || 'localhost'}`), {
+      method: req.method,
+      headers,
+      body: hasBody ? Buffer.concat(chunks) : undefined
+    }));
+    if (!response) return next();
+
+    res.statusCode = response.status;
+    response.headers.forEach((value, key) => res.setHeader(key, value));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  };
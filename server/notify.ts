@@ -0,0 +1,66 @@
+import { NotificationChannel, NotificationStatus } from '../types';
+import { ServerConfig } from './config';
+import { SessionUser, getServiceClient, getSessionClient } from './auth';
+import { DeliveryResult, OutgoingMessage, createChannelProvider } from './providers';
+
+// Per-branch key stored by set_whatsapp_api_key; undefined falls back to the server-wide key
+const getBranchApiKey = async (config: ServerConfig, branchId: string): Promise<string | undefined> => {
+  const supabase = getServiceClient(config);
+  if (!supabase) return undefined;
+
+  const { data, error } = await supabase
+    .from('branch_secrets')
+    .select('whatsapp_api_key')
+    .eq('branch_id', branchId)
+    .maybeSingle();
+  if (error) console.error("Error reading branch secrets:", error);
+  return data?.whatsapp_api_key || undefined;
+};
+
+export const sendNotification = async (config: ServerConfig, channel: NotificationChannel, branchId: string, message: OutgoingMessage): Promise<DeliveryResult> => {
+  const usesBranchKey = channel === NotificationChannel.WHATSAPP && config.whatsappProvider === 'cloud';
+  const provider = createChannelProvider(config, channel, usesBranchKey ? await getBranchApiKey(config, branchId) : undefined);
+  if (!provider) {
+    console.warn(`No ${channel} provider is configured on the server`);
+    return { ok: false, error: `${channel} is not configured` };
+  }
+
+  try {
+    const result = await provider.send(message);
+    if (!result.ok) console.error(`${channel} send via ${provider.name} failed:`, result.error);
+    return result;
+  } catch (error) {
+    console.error(`${channel} send via ${provider.name} failed:`, error);
+    return { ok: false, error: 'Provider unreachable' };
+  }
+};
+
+export interface ManualMessage extends OutgoingMessage {
+  branchId: string;
+  channel: NotificationChannel;
+}
+
+// The ticket's "Called" message per channel, in fallback order. Runs as the caller so the branch check applies to them.
+export const getManualMessages = async (config: ServerConfig, user: SessionUser, ticketId: string): Promise<ManualMessage[] | null> => {
+  const { data, error } = await getSessionClient(config, user.token).rpc('manual_notification_messages', { p_ticket_id: ticketId });
+  if (error) {
+    console.error("Error rendering notification:", error);
+    return null;
+  }
+  return ((data || []) as any[]).map(row => ({ branchId: row.branch_id, channel: row.channel, to: row.recipient, subject: row.subject ?? undefined, body: row.message }));
+};
+
+// Logs a staff-triggered send in the outbox. Runs as the caller so the branch check applies to them.
+export const recordDelivery = async (config: ServerConfig, user: SessionUser, ticketId: string, channel: NotificationChannel, message: OutgoingMessage, result: DeliveryResult) => {
+  const { error } = await getSessionClient(config, user.token).rpc('record_notification_delivery', {
+    p_ticket_id: ticketId,
+    p_channel: channel,
+    p_recipient: message.to,
+    p_subject: message.subject ?? null,
+    p_message: message.body,
+    p_status: result.ok ? NotificationStatus.SENT : NotificationStatus.FAILED,
+    p_error: result.error ?? null,
+    p_message_id: result.messageId ?? null
+  });
+  if (error) console.error("Error recording notification delivery:", error);
+};
@@ -0,0 +1,58 @@
+import { NOTIFICATION_MAX_ATTEMPTS } from '../constants';
+import { ServerConfig } from './config';
+import { getServiceClient } from './auth';
+import { sendNotification } from './notify';
+
+const BATCH_SIZE = 10;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+// 30s, 1m, 2m, 4m... capped at 30m
+const getRetryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+// Sends one batch of due messages
+const processBatch = async (config: ServerConfig): Promise<{ attempted: number; sent: number }> => {
+  const supabase = getServiceClient(config);
+  if (!supabase) throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+
+  const { data, error } = await supabase.rpc('claim_notifications', { p_limit: BATCH_SIZE });
+  if (error) throw new Error(`Error claiming notifications: ${error.message}`);
+
+  const claimed = (data || []) as any[];
+  let sent = 0;
+  for (const notification of claimed) {
+    const result = await sendNotification(config, notification.channel, notification.branch_id, {
+      to: notification.recipient,
+      body: notification.message,
+      subject: notification.subject ?? undefined
+    });
+    const retryAt = result.ok || notification.attempts >= NOTIFICATION_MAX_ATTEMPTS
+      ? null
+      : new Date(Date.now() + getRetryDelay(notification.attempts)).toISOString();
+
+    // A failure hands off to the ticket's next fallback channel when there is one, else retries at retryAt
+    const { error: completeError } = await supabase.rpc('complete_notification', {
+      p_notification_id: notification.id,
+      p_ok: result.ok,
+      p_error: result.ok ? null : result.error ?? 'Unknown error',
+      p_message_id: result.messageId ?? null,
+      p_retry_at: retryAt
+    });
+    if (completeError) console.error("Error completing notification:", completeError);
+    if (result.ok) sent++;
+  }
+  return { attempted: claimed.length, sent };
+};
+
+// Sends every due message, batch by batch. Run by the scheduler (server/scheduler.ts).
+export const processOutbox = async (config: ServerConfig): Promise<string> => {
+  let attempted = 0;
+  let sent = 0;
+  let batch;
+  do {
+    batch = await processBatch(config);
+    attempted += batch.attempted;
+    sent += batch.sent;
+  } while (batch.attempted === BATCH_SIZE);
+  return attempted === sent ? `${sent} sent` : `${sent} sent, ${attempted - sent} failed`;
+};
@@ -0,0 +1,138 @@
+import { NotificationChannel } from '../types';
+import { ServerConfig } from './config';
+
+export type WhatsAppProviderName = 'cloud' | 'twilio' | 'mock';
+export type SmsProviderName = 'twilio' | 'mock';
+export type EmailProviderName = 'resend' | 'mock';
+
+export interface OutgoingMessage {
+  to: string; // Digits only with country code for WhatsApp/SMS; an address for email
+  body: string;
+  subject?: string; // Email only
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface ChannelProvider {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<DeliveryResult>;
+}
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v19.0';
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+const readError = async (response: Response): Promise<string> => {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text);
+    return body?.error?.message || body?.message || `HTTP ${response.status}`;
+  } catch {
+    return text || `HTTP ${response.status}`;
+  }
+};
+
+// Meta WhatsApp Cloud API. The token may come from the branch's stored key.
+const cloudProvider = (apiKey: string, phoneNumberId: string): ChannelProvider => ({
+  name: 'cloud',
+  send: async ({ to, body }) => {
+    const response = await fetch(`${GRAPH_API_URL}/${phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to,
+        type: 'text',
+        text: { body }
+      })
+    });
+    if (!response.ok) return { ok: false, error: await readError(response) };
+    const data = await response.json();
+    return { ok: true, messageId: data?.messages?.[0]?.id };
+  }
+});
+
+// Twilio's Messages API carries both SMS and WhatsApp; WhatsApp numbers take a "whatsapp:" prefix
+const twilioProvider = (accountSid: string, authToken: string, from: string, addressPrefix: '' | 'whatsapp:'): ChannelProvider => ({
+  name: 'twilio',
+  send: async ({ to, body }) => {
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({
+        To: `${addressPrefix}+${to}`,
+        From: `${addressPrefix}+${from.replace(/[^0-9]/g, '')}`,
+        Body: body
+      })
+    });
+    if (!response.ok) return { ok: false, error: await readError(response) };
+    const data = await response.json();
+    return { ok: true, messageId: data?.sid };
+  }
+});
+
+const resendProvider = (apiKey: string, from: string): ChannelProvider => ({
+  name: 'resend',
+  send: async ({ to, body, subject }) => {
+    const response = await fetch(RESEND_API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ from, to: [to], subject: subject || 'Queue update', text: body })
+    });
+    if (!response.ok) return { ok: false, error: await readError(response) };
+    const data = await response.json();
+    return { ok: true, messageId: data?.id };
+  }
+});
+
+// Appends one JSON line per message instead of sending; Node hosts only
+const mockProvider = (channel: NotificationChannel, file: string): ChannelProvider => ({
+  name: 'mock',
+  send: async ({ to, body, subject }) => {
+    const { appendFile } = await import('fs/promises');
+    const messageId = `mock-${crypto.randomUUID()}`;
+    await appendFile(file, JSON.stringify({ id: messageId, channel, to, subject, body, at: new Date().toISOString() }) + '\n');
+    return { ok: true, messageId };
+  }
+});
+
+// Returns null when the channel's provider is missing credentials.
+// branchApiKey (from branch_secrets) only applies to the WhatsApp Cloud API.
+export const createChannelProvider = (config: ServerConfig, channel: NotificationChannel, branchApiKey?: string): ChannelProvider | null => {
+  const { twilioAccountSid, twilioAuthToken } = config;
+
+  switch (channel) {
+    case NotificationChannel.SMS:
+      if (config.smsProvider === 'mock') return mockProvider(channel, config.mockNotificationFile);
+      if (!twilioAccountSid || !twilioAuthToken || !config.twilioSmsFrom) return null;
+      return twilioProvider(twilioAccountSid, twilioAuthToken, config.twilioSmsFrom, '');
+
+    case NotificationChannel.EMAIL:
+      if (config.emailProvider === 'mock') return mockProvider(channel, config.mockNotificationFile);
+      if (!config.resendApiKey || !config.emailFrom) return null;
+      return resendProvider(config.resendApiKey, config.emailFrom);
+
+    default:
+      if (config.whatsappProvider === 'mock') return mockProvider(channel, config.mockNotificationFile);
+      if (config.whatsappProvider === 'twilio') {
+        if (!twilioAccountSid || !twilioAuthToken || !config.twilioWhatsAppFrom) return null;
+        return twilioProvider(twilioAccountSid, twilioAuthToken, config.twilioWhatsAppFrom, 'whatsapp:');
+      }
+      const apiKey = branchApiKey || config.whatsappApiKey;
+      if (!apiKey || !config.whatsappPhoneNumberId) return null;
+      return cloudProvider(apiKey, config.whatsappPhoneNumberId);
+  }
+};
@@ -0,0 +1,90 @@
+import { ScheduledJob } from '../types';
+import { SCHEDULED_JOBS } from '../constants';
+import { ServerConfig } from './config';
+import { getServiceClient } from './auth';
+import { processOutbox } from './outbox';
+
+const TICK_MS = 15_000;
+
+// Each job returns a short summary for the jobs panel, or throws to mark the run FAILED
+type JobRunner = (config: ServerConfig) => Promise<string>;
+
+// Job functions in db_schema.sql return how many rows they touched
+const runCount = (fn: string, label: string): JobRunner => async (config) => {
+  const { data, error } = await getServiceClient(config)!.rpc(fn);
+  if (error) throw new Error(`${fn}: ${error.message}`);
+  return `${data ?? 0} ${label}`;
+};
+
+const RUNNERS: Record<ScheduledJob, JobRunner> = {
+  [ScheduledJob.APPROACHING_NOTIFICATIONS]: runCount('queue_approaching_notifications', 'queued'),
+  [ScheduledJob.NOTIFICATION_OUTBOX]: processOutbox,
+  [ScheduledJob.NO_SHOW_TIMEOUTS]: runCount('expire_no_shows', 'marked no-show'),
+  [ScheduledJob.AFTER_HOURS_CLOSE]: runCount('close_counters_after_hours', 'counters closed'),
+  [ScheduledJob.END_OF_DAY]: async (config) => {
+    const closedOut = await runCount('close_out_previous_days', 'closed out')(config);
+    const archived = await runCount('archive_finished_tickets', 'archived')(config);
+    return `${closedOut}, ${archived}`;
+  }
+};
+
+// Runs every job that is due. Safe to call from several processes at once: claim_job hands each due
+// job to one caller only. Edge hosts call this from a cron trigger; Node hosts use startScheduler.
+export const runDueJobs = async (config: ServerConfig): Promise<void> => {
+  const supabase = getServiceClient(config);
+  if (!supabase) return;
+
+  for (const name of Object.values(ScheduledJob)) {
+    const { data: claimed, error } = await supabase.rpc('claim_job', {
+      p_name: name,
+      p_interval_seconds: SCHEDULED_JOBS[name].intervalSeconds
+    });
+    if (error) {
+      console.error(`Error claiming job ${name}:`, error);
+      continue;
+    }
+    if (!claimed) continue;
+
+    let result: string | null = null;
+    let failure: string | null = null;
+    try {
+      result = await RUNNERS[name](config);
+    } catch (error) {
+      console.error(`Scheduled job ${name} failed:`, error);
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const { error: finishError } = await supabase.rpc('finish_job', {
+      p_name: name,
+      p_ok: failure === null,
+      p_result: result,
+      p_error: failure
+    });
+    if (finishError) console.error(`Error recording job ${name}:`, finishError);
+  }
+};
+
+// Runs the scheduler inside a long-running Node process. Returns a function that stops it.
+export const startScheduler = (config: ServerConfig): (() => void) => {
+  if (!config.supabaseServiceRoleKey) {
+    console.warn("Scheduled jobs disabled: SUPABASE_SERVICE_ROLE_KEY is not set");
+    return () => {};
+  }
+
+  let isRunning = false;
+  const tick = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runDueJobs(config);
+    } catch (error) {
+      console.error("Scheduler error:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  const interval = setInterval(tick, TICK_MS);
+  tick();
+  return () => clearInterval(interval);
+};
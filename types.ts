@@ -7,11 +7,107 @@ export enum TicketStatus {
   NO_SHOW = 'NO_SHOW'
 }
 
+export interface TicketTransfer {
+  fromServiceId: string;
+  toServiceId: string;
+  fromCounter?: number;
+  toCounter?: number; // Set when the ticket was sent to one specific counter
+  at: number; // timestamp
+}
+
+export interface Branch {
+  id: string;
+  name: string;
+  address?: string;
+}
+
+export enum NotificationStatus {
+  QUEUED = 'QUEUED',
+  SENT = 'SENT',
+  FAILED = 'FAILED',
+  DELIVERED = 'DELIVERED' // Reserved for provider delivery receipts
+}
+
+export enum NotificationChannel {
+  WHATSAPP = 'WHATSAPP',
+  SMS = 'SMS',
+  EMAIL = 'EMAIL'
+}
+
+export interface ChannelSettings {
+  enabled: boolean;
+}
+
+// Moments in a ticket's life a customer can be messaged about
+export enum NotificationEvent {
+  ISSUED = 'ISSUED',
+  APPROACHING = 'APPROACHING', // Their turn is coming up
+  CALLED = 'CALLED',
+  RECALLED = 'RECALLED',
+  TRANSFERRED = 'TRANSFERRED',
+  CANCELLED = 'CANCELLED',
+  FEEDBACK = 'FEEDBACK' // After the visit is completed
+}
+
+export interface NotificationTemplate {
+  enabled: boolean; // Sent automatically when the event happens
+  subject: string; // Email only
+  bodies: Record<NotificationChannel, string>; // e.g., "Hello {name}, your ticket {number} is ready at {counter}."
+}
+
+// Periodic jobs run by the API server's scheduler (server/scheduler.ts)
+export enum ScheduledJob {
+  APPROACHING_NOTIFICATIONS = 'approaching-notifications',
+  NOTIFICATION_OUTBOX = 'notification-outbox',
+  NO_SHOW_TIMEOUTS = 'no-show-timeouts',
+  AFTER_HOURS_CLOSE = 'after-hours-close',
+  END_OF_DAY = 'end-of-day'
+}
+
+export enum JobStatus {
+  RUNNING = 'RUNNING',
+  OK = 'OK',
+  FAILED = 'FAILED'
+}
+
+// Latest run of a scheduled job
+export interface JobRun {
+  name: ScheduledJob;
+  status?: JobStatus;
+  runCount: number;
+  lastResult?: string; // e.g. "3 sent"
+  lastError?: string;
+  lastStartedAt?: number; // timestamp
+  lastFinishedAt?: number; // timestamp
+  nextRunAt: number; // timestamp
+}
+
+// One row of the notification outbox
+export interface NotificationRecord {
+  id: string;
+  branchId: string;
+  ticketId?: string;
+  ticketNumber?: string; // Joined from the ticket for display
+  channel: NotificationChannel;
+  template: string; // NotificationEvent, or 'manual' for staff-triggered sends
+  recipient: string;
+  message: string;
+  status: NotificationStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: number; // timestamp
+  sentAt?: number; // timestamp
+  createdAt: number; // timestamp
+}
+
 export type Ticket = {
   id: string;
+  branchId: string;
   number: string; // e.g., A001, B002
   name: string;
   phone?: string;
+  email?: string;
+  notifyChannel?: NotificationChannel; // Chosen at the kiosk; other channels are tried after it as fallbacks
   serviceId: string;
   serviceName: string; // De-normalized for easier display
   status: TicketStatus;
@@ -19,37 +115,185 @@ export type Ticket = {
   servedAt?: number; // timestamp
   completedAt?: number; // timestamp
   counter?: number;
-  notificationSent?: boolean; // Track if 15m alert was sent
+  notificationSent?: boolean; // "Turn Approaching" has been queued
+  notificationStatus?: NotificationStatus; // State of the ticket's latest outbox message
+  notificationError?: string;
+  notifiedAt?: number; // timestamp
+  targetCounter?: number; // Reserved for this counter only (set by a transfer)
+  frontOfQueue?: boolean; // Called ahead of join order (set by a transfer)
+  transfers?: TicketTransfer[]; // Transfer history, oldest first
+  recallCount?: number; // Times staff re-announced the ticket during the current call
+  lastRecalledAt?: number; // timestamp
+  trackingToken?: string; // Secret for the tracking link; only known to the device that issued the ticket
+  appointmentId?: string; // Set when the ticket was issued by an appointment check-in
+  appointmentAt?: number; // Booked slot start; called ahead of walk-ins from shortly before this
+  customerId?: string; // Set when the customer asked the kiosk to remember them
+}
+
+// The customer's live tracking page (get_ticket_status in db_schema.sql)
+export interface TicketTracking {
+  ticket: Ticket;
+  position: number; // 1-based place in line while waiting
+  etaMinutes: number;
+  counterLabel?: string; // Counter calling the ticket
+}
+
+// A returning customer who agreed to be remembered (customers in db_schema.sql)
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string; // Normalized: '+' and digits, country code included
+  email?: string;
+  notifyChannel?: NotificationChannel; // Offered again on the next visit
+  consentedAt: number; // timestamp of the last "remember me"
+  createdByTicketId?: string; // Only this ticket's tracking page may erase the record
+  createdAt: number; // timestamp
+}
+
+// One earlier ticket of a customer, live or archived
+export interface CustomerVisit {
+  ticketId: string;
+  number: string;
+  serviceName: string;
+  status: TicketStatus;
+  joinedAt: number; // timestamp
+  servedAt?: number; // timestamp
+  completedAt?: number; // timestamp
+}
+
+// What the counter sees about the customer being served (get_customer_history in db_schema.sql)
+export interface CustomerHistory {
+  customer: Customer;
+  visitCount: number; // Earlier visits to this branch
+  visits: CustomerVisit[]; // Latest first, at most 20
+}
+
+// A customer's row in the admin panel (get_customer_stats in db_schema.sql)
+export interface CustomerStats {
+  id: string;
+  name: string;
+  phone: string;
+  consentedAt: number; // timestamp
+  visits: number;
+  completed: number;
+  noShows: number;
+  cancelled: number;
+  avgWaitMinutes?: number; // Over visits that were called
+  lastVisitAt: number; // timestamp
+}
+
+export enum AppointmentStatus {
+  BOOKED = 'BOOKED',
+  CHECKED_IN = 'CHECKED_IN',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface Appointment {
+  id: string;
+  branchId: string;
+  code: string; // Short booking reference entered at the kiosk, e.g. "K7P2QX"
+  serviceId: string;
+  name: string;
+  phone?: string;
+  scheduledAt: number; // Slot start timestamp
+  status: AppointmentStatus;
+  ticketId?: string; // Ticket issued at check-in
+  createdAt: number; // timestamp
+}
+
+// Places taken in one slot; all the booking page learns about other people's bookings
+export interface BookedSlot {
+  serviceId: string;
+  scheduledAt: number; // Slot start timestamp
+  booked: number;
+}
+
+export enum TicketEventType {
+  ISSUED = 'ISSUED',
+  CALLED = 'CALLED',
+  RECALLED = 'RECALLED',
+  TRANSFERRED = 'TRANSFERRED',
+  REOPENED = 'REOPENED',
+  COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW',
+  CANCELLED = 'CANCELLED'
+}
+
+export interface TicketEvent {
+  id: string;
+  ticketId: string;
+  type: TicketEventType;
+  counterId?: number;
+  staffUserId?: string; // User who triggered the event (empty for customer self-service)
+  createdAt: number; // timestamp
+  payload?: Record<string, any>; // Event-specific details, e.g. transfer target
 }
 
 export interface CounterState {
-  id: number;
+  id: number; // Internal id, stable across renames
+  branchId: string;
+  label: string; // Name shown to customers, e.g. "Window 3" or "Room B"
+  sortOrder: number; // Position in lists and on the display
+  isRetired: boolean; // Kept for history but no longer staffed or called
   isOpen: boolean;
   currentTicketId: string | null;
   assignedStaffId?: string; // ID of the staff user logged in here
+  serviceIds: string[]; // Services this counter calls (empty = serves every service)
+  fallbackServiceIds: string[]; // Only called when no primary-service ticket is waiting
 }
 
 export enum UserRole {
   ADMIN = 'ADMIN',
+  SUPERVISOR = 'SUPERVISOR',
   STAFF = 'STAFF',
   KIOSK = 'KIOSK',
   DISPLAY = 'DISPLAY'
 }
 
+// Individual capabilities behind the admin screens and queue actions; each role starts from a preset
+export enum Permission {
+  MANAGE_SERVICES = 'manage_services',
+  MANAGE_COUNTERS = 'manage_counters', // Add, rename, route, retire and open/close counters
+  MANAGE_USERS = 'manage_users',
+  VIEW_REPORTS = 'view_reports', // Dashboard statistics and ticket history
+  RESET_QUEUE = 'reset_queue',
+  TRANSFER_TICKETS = 'transfer_tickets'
+}
+
 export interface User {
   id: string;
   username: string;
-  password?: string; // In a real app, this would be hashed.
+  password?: string; // Write-only: sent when setting a password, never read back (only demo users keep one locally)
+  mustChangePassword?: boolean; // Set for seeded and admin-issued passwords until the user picks their own
+  resetRequestedAt?: number; // Asked for a reset from the login screen; cleared once an admin issues a code
   role: UserRole;
+  permissions?: Permission[]; // Overrides the role preset when set (admins always hold every permission)
+  name: string;
+  branchId?: string; // Branch the account is bound to (admins may leave empty to roam all branches)
+}
+
+// A kiosk or display screen paired through a one-time code; signs in as its own account
+export interface Device {
+  id: string;
+  branchId: string;
   name: string;
+  role: UserRole; // KIOSK or DISPLAY
+  userId: string; // The device's own account
+  pairedAt: number;
+  lastSeenAt?: number;
+  revokedAt?: number;
 }
 
 export interface ServiceDefinition {
   id: string;
+  branchId: string;
   name: string;
   prefix: string; // e.g., 'A', 'B'
   colorTheme: string; // e.g., 'blue', 'emerald'
   defaultWaitTime?: number; // Default wait time in minutes per ticket
+  priority?: number; // Weight in weighted mode, e.g. 2 = called twice as often as 1 (default 1)
+  appointmentSlotMinutes?: number; // Length of a bookable slot (0 or unset = walk-in only)
+  appointmentCapacity?: number; // Bookings accepted per slot (default 1)
 }
 
 export interface AIInsight {
@@ -58,17 +302,51 @@ export interface AIInsight {
   timestamp: number;
 }
 
+// Aggregate queue figures sent to /api/insight; no customer details leave the browser
+export interface QueueSnapshot {
+  waitingCount: number;
+  servingCount: number;
+  activeCounters: number;
+  completedLastHour: number;
+  avgWaitMinutes: number;
+}
+
+export type QueueMode = 'fifo' | 'weighted';
+
+// 'browser' = the kiosk's own print dialog, 'escpos' = a thermal printer behind the local print bridge
+export type TicketPrintMode = 'off' | 'browser' | 'escpos';
+
+export interface TicketPrintSettings {
+  mode: TicketPrintMode;
+  paperWidth: 58 | 80; // Paper roll width in mm
+  autoPrint: boolean; // Print as soon as the ticket is issued instead of on tap
+  bridgeUrl: string; // Where the kiosk reaches the print bridge (scripts/print-bridge.mjs)
+}
+
 export interface SystemSettings {
-  whatsappEnabled: boolean;
-  whatsappTemplate: string; // e.g., "Hello {name}, your ticket {number} is ready at Counter {counter}."
-  whatsappApiKey?: string; // API Key for backend integration
-  autoNotify15m: boolean; // Auto-send when wait time is ~15 mins
+  notificationChannels: Record<NotificationChannel, ChannelSettings>;
+  notificationTemplates: Record<NotificationEvent, NotificationTemplate>;
+  channelFallbackOrder: NotificationChannel[]; // Tried in this order after the customer's chosen channel fails
+  notifyAtPosition: number; // "Turn Approaching" goes out at this place in the service's queue (0 = off)
+  notifyWithinMinutes: number; // ...or once the estimated wait is at most this many minutes (0 = off)
+  whatsappApiKey?: string; // Write-only: a new key to store server-side, never read back
+  whatsappApiKeySet: boolean; // Whether the branch has a key stored
   allowMobileEntry: boolean;
   mobileEntryUrl?: string; // Custom URL for the QR code
   operatingHours: {
     enabled: boolean;
     start: string; // "09:00" (24h format)
     end: string;   // "17:00" (24h format)
+    autoClose?: boolean; // Close idle counters after closing time once nobody is waiting
   };
+  timeZone?: string; // IANA name, e.g. "Europe/London"; the clock server-side jobs use for this branch (they skip it while unset)
+  endOfDayCloseOut: boolean; // End of Day job closes out tickets left open from earlier days (needs timeZone)
   countryCode: string; // e.g., "+1"
+  queueMode: QueueMode; // 'fifo' = strict join order, 'weighted' = fair share by service priority
+  agingThresholdMinutes: number; // Weighted mode: tickets waiting longer than this are called first (0 = off)
+  recallsBeforeNoShow: number; // Suggest No-Show to staff after this many recalls
+  noShowTimeoutMinutes: number; // Mark No-Show automatically this long after the last recall (0 = off)
+  archiveAfterDays: number; // Finished tickets move to the archive after this many days (0 = never)
+  allowAppointments: boolean; // Enables the mobile booking page and kiosk check-in
+  ticketPrinting: TicketPrintSettings; // Printed tickets at the branch's kiosks
 }
@@ -1,19 +1,37 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin, PreviewServer, ViteDevServer } from 'vite';
 import react from '@vitejs/plugin-react';
+import { loadServerConfig } from './server/config';
+import { createApiHandler } from './server/handler';
+import { createNodeMiddleware } from './server/node';
+import { startScheduler } from './server/scheduler';
+
+// Serves /api/* from the same process in `npm run dev` and `npm run preview`, and runs the
+// scheduled jobs (notifications, no-show timeouts, after-hours close, end of day) alongside it.
+// Secrets stay in this Node process; nothing from .env.local is inlined into the bundle.
+const apiServer = (env: Record<string, string>): Plugin => {
+  const config = loadServerConfig(env);
+  const middleware = createNodeMiddleware(createApiHandler(config));
+  const mount = (server: ViteDevServer | PreviewServer) => {
+    server.middlewares.use(middleware);
+    const stopScheduler = startScheduler(config);
+    server.httpServer?.once('close', stopScheduler);
+  };
+  return {
+    name: 'nova-api-server',
+    configureServer: mount,
+    configurePreviewServer: mount
+  };
+};
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    const env = { ...process.env, ...loadEnv(mode, '.', '') } as Record<string, string>;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiServer(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),